@@ -19,17 +19,24 @@
 import Web3 from 'web3';
 import {
   address,
+  AdminProposalJson,
   EthereumAccount,
+  MarketConfig,
   Networks,
+  OracleType,
+  OrdersContract,
   Provider,
   PerpetualMarket,
   PerpetualOptions,
   SendOptions,
 } from './lib/types';
+import { getMarketConfig } from './lib/MarketConfig';
+import { Units } from './lib/Units';
 import { Contracts } from './modules/Contracts';
 import { Logs } from './modules/Logs';
 import { Proxy } from './modules/Proxy';
 import { Admin } from './modules/Admin';
+import { AdminProposal } from './modules/AdminProposal';
 import { FinalSettlement } from './modules/FinalSettlement';
 import { FundingOracle } from './modules/FundingOracle';
 import { InverseFundingOracle } from './modules/InverseFundingOracle';
@@ -51,11 +58,14 @@ import { Token } from './modules/Token';
 import { Trade } from './modules/Trade';
 import { Weth } from './modules/Weth';
 import { Api } from './modules/Api';
+import { TxManager } from './modules/TxManager';
 
 export class Perpetual {
   public web3: Web3;
   public contracts: Contracts;
   public market: PerpetualMarket;
+  public marketConfig: MarketConfig;
+  public units: Units;
 
   // Client modules.
   public proxy: Proxy;
@@ -79,6 +89,7 @@ export class Perpetual {
   public trade: Trade;
   public weth: Weth;
   public api: Api;
+  public txManager: TxManager | null = null;
 
   constructor(
     provider: Provider,
@@ -89,6 +100,12 @@ export class Perpetual {
     this.web3 = new Web3(provider);
     this.contracts = this.getContracts(provider, market, networkId, options.sendOptions);
     this.market = market;
+    if (options.txManagerOptions) {
+      this.txManager = new TxManager(this.web3, options.txManagerOptions);
+      this.contracts.setTxManager(this.txManager);
+    }
+    this.marketConfig = getMarketConfig(market);
+    this.units = new Units(market);
 
     // Client modules.
     this.proxy = new Proxy(this.contracts);
@@ -101,19 +118,25 @@ export class Perpetual {
     this.liquidatorProxy = new LiquidatorProxy(this.contracts);
     this.soloBridgeProxy = new SoloBridgeProxy(this.contracts, this.web3);
     this.wethProxy = new WethProxy(this.contracts);
-    this.getters = new Getters(this.contracts);
     this.logs = new Logs(this.contracts, this.web3);
+    this.getters = new Getters(this.contracts, this.web3, this.logs);
     this.margin = new Margin(this.contracts);
     this.operator = new Operator(this.contracts);
     this.token = new Token(this.contracts);
     this.weth = new Weth(this.contracts);
 
     // Use different modules/contracts depending on the market.
-    if (this.isInverse()) {
+    if (this.marketConfig.ordersContract === OrdersContract.P1_INVERSE_ORDERS) {
       this.orders = new InverseOrders(this.contracts, this.web3);
-      this.fundingOracle = new InverseFundingOracle(this.contracts);
     } else {
       this.orders = new Orders(this.contracts, this.web3);
+    }
+    if (options.feeSchedule) {
+      this.orders.setFeeSchedule(options.feeSchedule);
+    }
+    if (this.isInverse()) {
+      this.fundingOracle = new InverseFundingOracle(this.contracts);
+    } else {
       this.fundingOracle = new FundingOracle(this.contracts);
     }
     if (this.usesMakerOracle()) {
@@ -139,11 +162,11 @@ export class Perpetual {
   }
 
   public isInverse(): boolean {
-    return this.market === PerpetualMarket.WETH_PUSD;
+    return this.marketConfig.isInverse;
   }
 
   public usesMakerOracle(): boolean {
-    return [PerpetualMarket.PBTC_USDC, PerpetualMarket.WETH_PUSD].includes(this.market);
+    return this.marketConfig.oracleType === OracleType.MAKER;
   }
 
   public setProvider(
@@ -184,6 +207,15 @@ export class Perpetual {
     }
   }
 
+  /**
+   * Start a new multisig proposal of admin calls, or load one exported using toJSON().
+   */
+  public createAdminProposal(
+    json?: AdminProposalJson,
+  ): AdminProposal {
+    return new AdminProposal(this.contracts, json);
+  }
+
   // ============ Helper Functions ============
 
   protected getContracts(
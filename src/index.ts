@@ -25,6 +25,42 @@ BigNumber.config({
 });
 
 export { Perpetual } from './Perpetual';
+export { StateReplayer } from './modules/StateReplayer';
+export { LiquidationKeeper } from './modules/LiquidationKeeper';
+export { DeleveragingKeeper } from './modules/DeleveragingKeeper';
+export { FundingRateUpdater } from './modules/FundingRateUpdater';
+export { OrderbookModel } from './modules/OrderbookModel';
+export { MemoryBracketStore, OrderManager } from './modules/OrderManager';
+export { WsApi } from './modules/WsApi';
+export { FileTxStore, MemoryTxStore, TxManager } from './modules/TxManager';
+export { AdminProposal } from './modules/AdminProposal';
+export {
+  ApiAuthError,
+  ApiError,
+  ApiNetworkError,
+  ApiRateLimitError,
+  ApiServerError,
+  ApiTimeoutError,
+  ApiValidationError,
+} from './lib/ApiErrors';
+export {
+  getRevertReason,
+  parseRevertError,
+  PerpetualRevertError,
+} from './lib/RevertErrors';
+export { getMarketConfig } from './lib/MarketConfig';
+export { Units } from './lib/Units';
+export {
+  CallbackFeeStrategy,
+  FeeHistoryStrategy,
+  StaticFeeStrategy,
+} from './lib/FeeStrategies';
+export {
+  CallbackSigner,
+  LocalSigner,
+  RemoteSigner,
+  Web3Signer,
+} from './lib/Signers';
 export {
   Web3,
   BigNumber,
@@ -0,0 +1,109 @@
+import { ApiResponse } from './types';
+
+/**
+ * Base class of the errors thrown by Api. If a response was received, the status code and the
+ * parsed body of the response are preserved.
+ */
+export class ApiError extends Error {
+  public readonly status: number | null;
+  public readonly body: any;
+
+  constructor(
+    message: string,
+    status: number | null = null,
+    body: any = null,
+  ) {
+    super(message);
+    // Restore the prototype chain, which is lost when extending Error and compiling to ES5.
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.status = status;
+    this.body = body;
+  }
+}
+
+// The request was rejected as invalid (400 or 422).
+export class ApiValidationError extends ApiError {}
+
+// The request was not authenticated or not authorized (401 or 403).
+export class ApiAuthError extends ApiError {}
+
+// Too many requests were sent (429).
+export class ApiRateLimitError extends ApiError {
+  public readonly retryAfter: number | null; // milliseconds, from the Retry-After header
+
+  constructor(
+    message: string,
+    status: number | null = null,
+    body: any = null,
+    retryAfter: number | null = null,
+  ) {
+    super(message, status, body);
+    this.retryAfter = retryAfter;
+  }
+}
+
+// The server failed to handle the request (5xx).
+export class ApiServerError extends ApiError {}
+
+// No response was received.
+export class ApiNetworkError extends ApiError {}
+
+// No response was received before the timeout.
+export class ApiTimeoutError extends ApiError {}
+
+/**
+ * Get the error for a response with an unsuccessful status code.
+ */
+export function apiErrorFromResponse(
+  response: ApiResponse,
+): ApiError {
+  const { status, data } = response;
+  const message = getErrorMessage(data) || `Request failed with status code ${status}`;
+
+  if (status === 400 || status === 422) {
+    return new ApiValidationError(message, status, data);
+  }
+  if (status === 401 || status === 403) {
+    return new ApiAuthError(message, status, data);
+  }
+  if (status === 429) {
+    const retryAfter = response.headers && Number(response.headers['retry-after']);
+    return new ApiRateLimitError(
+      message,
+      status,
+      data,
+      retryAfter >= 0 ? retryAfter * 1000 : null,
+    );
+  }
+  if (status >= 500) {
+    return new ApiServerError(message, status, data);
+  }
+  return new ApiError(message, status, data);
+}
+
+/**
+ * Returns true for errors which may not occur again if the request is retried.
+ */
+export function isRetryableApiError(
+  error: Error,
+): boolean {
+  return (
+    error instanceof ApiNetworkError
+    || error instanceof ApiTimeoutError
+    || error instanceof ApiRateLimitError
+    || error instanceof ApiServerError
+  );
+}
+
+function getErrorMessage(
+  data: any,
+): string | null {
+  if (!data || typeof data !== 'object') {
+    return typeof data === 'string' && data ? data : null;
+  }
+  if (Array.isArray(data.errors) && data.errors.length && data.errors[0].msg) {
+    return data.errors[0].msg;
+  }
+  return data.message || null;
+}
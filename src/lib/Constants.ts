@@ -19,7 +19,12 @@
 import BigNumber from 'bignumber.js';
 import {
   Fee,
+  FeeSchedule,
   FundingRate,
+  MarketConfig,
+  OracleType,
+  OrdersContract,
+  PerpetualMarket,
   Price,
 } from './types';
 
@@ -91,3 +96,83 @@ const FUNDING_LIMIT_PERIOD = INTEGERS.ONE_MINUTE_IN_SECONDS.times(45);
 export const FUNDING_RATE_MAX_ABS_VALUE = FundingRate.fromEightHourRate('0.0075').roundedDown();
 export const FUNDING_RATE_MAX_ABS_DIFF_PER_SECOND =
   FUNDING_RATE_MAX_ABS_VALUE.times(2).div(FUNDING_LIMIT_PERIOD).roundedDown();
+
+// Orders below the size of the second tier are small orders, and pay a higher taker fee.
+export const DEFAULT_FEE_SCHEDULES: { [market: string]: FeeSchedule } = {
+  [PerpetualMarket.PBTC_USDC]: {
+    market: PerpetualMarket.PBTC_USDC,
+    tiers: [
+      { minAmount: '0', makerFeeBips: '-2.5', takerFeeBips: '50' },
+      { minAmount: '0.5e8', makerFeeBips: '-2.5', takerFeeBips: '15' }, // 0.5 BTC
+    ],
+  },
+  [PerpetualMarket.WETH_PUSD]: {
+    market: PerpetualMarket.WETH_PUSD,
+    tiers: [
+      { minAmount: '0', makerFeeBips: '-2.5', takerFeeBips: '50' },
+      { minAmount: '1000e6', makerFeeBips: '-2.5', takerFeeBips: '15' }, // 1000 USD
+    ],
+  },
+  [PerpetualMarket.PLINK_USDC]: {
+    market: PerpetualMarket.PLINK_USDC,
+    tiers: [
+      { minAmount: '0', makerFeeBips: '-2.5', takerFeeBips: '50' },
+      { minAmount: '500e6', makerFeeBips: '-2.5', takerFeeBips: '15' }, // 500 LINK
+    ],
+  },
+};
+
+// ============ Markets ============
+
+export const MARKET_CONFIGS: { [market: string]: MarketConfig } = {
+  [PerpetualMarket.PBTC_USDC]: {
+    market: PerpetualMarket.PBTC_USDC,
+    baseTokenDecimals: 8,
+    quoteTokenDecimals: 6,
+    isInverse: false,
+    oracleType: OracleType.MAKER,
+    ordersContract: OrdersContract.P1_ORDERS,
+    feeSchedule: DEFAULT_FEE_SCHEDULES[PerpetualMarket.PBTC_USDC],
+    minOrderSize: '1e4', // 0.0001 BTC
+    tickSize: '0.01', // 1 USD per BTC
+    legacyAddresses: {
+      liquidation: [
+        '0x1F8b4f89a5b8CA0BAa0eDbd0d928DD68B3357280',
+        '0x18Ba3F12f9d3699dE7D451cA97ED55Cd33DD0f80',
+      ],
+      liquidatorProxy: [
+        '0x51C72bEfAe54D365A9D0C08C486aee4F99285e08',
+      ],
+    },
+  },
+  [PerpetualMarket.WETH_PUSD]: {
+    market: PerpetualMarket.WETH_PUSD,
+    baseTokenDecimals: 18,
+    quoteTokenDecimals: 6,
+    isInverse: true,
+    oracleType: OracleType.MAKER,
+    ordersContract: OrdersContract.P1_INVERSE_ORDERS,
+    feeSchedule: DEFAULT_FEE_SCHEDULES[PerpetualMarket.WETH_PUSD],
+    minOrderSize: '1e6', // 1 USD
+    tickSize: '1e-13', // 0.1 USD per ETH
+    legacyAddresses: {
+      liquidation: [],
+      liquidatorProxy: [],
+    },
+  },
+  [PerpetualMarket.PLINK_USDC]: {
+    market: PerpetualMarket.PLINK_USDC,
+    baseTokenDecimals: 6,
+    quoteTokenDecimals: 6,
+    isInverse: false,
+    oracleType: OracleType.CHAINLINK,
+    ordersContract: OrdersContract.P1_ORDERS,
+    feeSchedule: DEFAULT_FEE_SCHEDULES[PerpetualMarket.PLINK_USDC],
+    minOrderSize: '1e6', // 1 LINK
+    tickSize: '0.001', // 0.001 USD per LINK
+    legacyAddresses: {
+      liquidation: [],
+      liquidatorProxy: [],
+    },
+  },
+};
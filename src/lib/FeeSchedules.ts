@@ -0,0 +1,37 @@
+import BigNumber from 'bignumber.js';
+
+import { FeeSchedule } from './types';
+
+/**
+ * Throws if the fee schedule is not for the given market, or if its tiers or volume discounts are
+ * invalid.
+ */
+export function validateFeeSchedule(
+  feeSchedule: FeeSchedule,
+  market: string,
+): void {
+  const { tiers, volumeDiscounts = [] } = feeSchedule;
+  if (feeSchedule.market !== market) {
+    throw new Error(`Fee schedule is for ${feeSchedule.market}, not ${market}`);
+  }
+  if (!tiers || !tiers.length || !new BigNumber(tiers[0].minAmount).isZero()) {
+    throw new Error('The first fee tier must have a minAmount of zero');
+  }
+  if (!isSortedBy(tiers.map(t => t.minAmount))) {
+    throw new Error('Fee tiers must be sorted by minAmount');
+  }
+  if (!isSortedBy(volumeDiscounts.map(d => d.minVolume))) {
+    throw new Error('Volume discounts must be sorted by minVolume');
+  }
+  for (const { discount } of volumeDiscounts) {
+    if (!new BigNumber(discount).gte(0) || !new BigNumber(discount).lte(1)) {
+      throw new Error(`discount: ${discount} must be between 0 and 1`);
+    }
+  }
+}
+
+function isSortedBy(
+  values: string[],
+): boolean {
+  return values.every((value, i) => i === 0 || new BigNumber(values[i - 1]).lte(value));
+}
@@ -0,0 +1,121 @@
+import _ from 'lodash';
+import BigNumber from 'bignumber.js';
+import util from 'util';
+import Web3 from 'web3';
+
+import {
+  FeeHistoryStrategyOptions,
+  FeeStrategy,
+  TxFees,
+} from './types';
+
+const DEFAULT_BLOCK_COUNT = 10;
+const DEFAULT_REWARD_PERCENTILE = 50;
+const DEFAULT_BASE_FEE_MULTIPLIER = 2;
+
+/**
+ * Uses the same fees for every transaction.
+ */
+export class StaticFeeStrategy implements FeeStrategy {
+  private fees: TxFees;
+
+  constructor(
+    fees: TxFees,
+  ) {
+    this.fees = fees;
+  }
+
+  public async getFees(): Promise<TxFees> {
+    return { ...this.fees };
+  }
+}
+
+/**
+ * Gets fees from a user-provided function, e.g. to query a gas price oracle.
+ */
+export class CallbackFeeStrategy implements FeeStrategy {
+  private callback: () => Promise<TxFees>;
+
+  constructor(
+    callback: () => Promise<TxFees>,
+  ) {
+    this.callback = callback;
+  }
+
+  public async getFees(): Promise<TxFees> {
+    return this.callback();
+  }
+}
+
+/**
+ * Sets EIP-1559 fees from the priority fees paid in recent blocks, using eth_feeHistory.
+ *
+ * The priority fee is the average over recent blocks of the given percentile of the priority fees
+ * paid in each block. The max fee leaves room for the base fee to increase before the transaction
+ * is included. Falls back to eth_gasPrice on networks without EIP-1559.
+ */
+export class FeeHistoryStrategy implements FeeStrategy {
+  private web3: Web3;
+  private options: FeeHistoryStrategyOptions;
+
+  constructor(
+    web3: Web3,
+    options: FeeHistoryStrategyOptions = {},
+  ) {
+    this.web3 = web3;
+    this.options = {
+      blockCount: DEFAULT_BLOCK_COUNT,
+      rewardPercentile: DEFAULT_REWARD_PERCENTILE,
+      baseFeeMultiplier: DEFAULT_BASE_FEE_MULTIPLIER,
+      minPriorityFee: 0,
+      ...options,
+    };
+  }
+
+  public async getFees(): Promise<TxFees> {
+    let feeHistory: { baseFeePerGas?: string[], reward?: string[][] };
+    try {
+      feeHistory = await this.getFeeHistory();
+    } catch (error) {
+      feeHistory = {};
+    }
+    if (!feeHistory.baseFeePerGas || !feeHistory.reward || !feeHistory.reward.length) {
+      return { gasPrice: await this.web3.eth.getGasPrice() };
+    }
+
+    // The last base fee is the one of the next block.
+    const baseFee = new BigNumber(_.last(feeHistory.baseFeePerGas));
+    const rewards = feeHistory.reward.map(blockRewards => new BigNumber(blockRewards[0]));
+    const priorityFee = BigNumber.max(
+      BigNumber.sum(...rewards).div(rewards.length).integerValue(BigNumber.ROUND_UP),
+      this.options.minPriorityFee,
+    );
+    return {
+      maxFeePerGas: baseFee
+        .times(this.options.baseFeeMultiplier)
+        .integerValue(BigNumber.ROUND_UP)
+        .plus(priorityFee)
+        .toFixed(0),
+      maxPriorityFeePerGas: priorityFee.toFixed(0),
+    };
+  }
+
+  private async getFeeHistory(): Promise<{ baseFeePerGas?: string[], reward?: string[][] }> {
+    const provider: any = this.web3.currentProvider;
+    const send = util.promisify(provider.sendAsync || provider.send).bind(provider);
+    const response = await send({
+      method: 'eth_feeHistory',
+      params: [
+        Web3.utils.numberToHex(this.options.blockCount),
+        'latest',
+        [this.options.rewardPercentile],
+      ],
+      jsonrpc: '2.0',
+      id: new Date().getTime(),
+    });
+    if (response.error) {
+      throw new Error(response.error.message);
+    }
+    return response.result;
+  }
+}
@@ -0,0 +1,18 @@
+import { MARKET_CONFIGS } from './Constants';
+import {
+  MarketConfig,
+  PerpetualMarket,
+} from './types';
+
+/**
+ * Returns the config for a market, which determines the modules and contracts used for it.
+ */
+export function getMarketConfig(
+  market: PerpetualMarket,
+): MarketConfig {
+  const config = MARKET_CONFIGS[market];
+  if (!config) {
+    throw new Error(`market: ${market} is invalid`);
+  }
+  return config;
+}
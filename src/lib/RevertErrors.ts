@@ -0,0 +1,237 @@
+import _ from 'lodash';
+import { ContractSendMethod } from 'web3-eth-contract';
+
+import { PerpetualErrorCode } from './types';
+
+// Selector of Error(string), which encodes the revert reason in the return data.
+const ERROR_SELECTOR = '0x08c379a0';
+
+// Messages of the different providers which contain the revert reason.
+const REVERT_MESSAGE_PATTERNS = [
+  /reverted with reason string '(.*)'/,
+  /VM Exception while processing transaction: revert ?(.*)/,
+  /execution reverted:? ?(.*)/,
+];
+
+// Keyed by revert reason, without the contract and function prefix (e.g. "P1MirrorOracle#poke: ").
+const REVERT_REASON_CODES: { [reason: string]: PerpetualErrorCode } = {
+  'Order has an invalid signature': PerpetualErrorCode.ORDER_INVALID_SIGNATURE,
+  'Order was already canceled': PerpetualErrorCode.ORDER_ALREADY_CANCELED,
+  'Order maker does not match maker': PerpetualErrorCode.ORDER_MAKER_MISMATCH,
+  'Order taker does not match taker': PerpetualErrorCode.ORDER_TAKER_MISMATCH,
+  'Order has expired': PerpetualErrorCode.ORDER_EXPIRED,
+  'Cannot overfill order': PerpetualErrorCode.ORDER_OVERFILL,
+  'Order cannot be approved by non-maker': PerpetualErrorCode.ORDER_SENDER_NOT_MAKER,
+  'Order cannot be canceled by non-maker': PerpetualErrorCode.ORDER_SENDER_NOT_MAKER,
+  'Canceled order cannot be approved': PerpetualErrorCode.ORDER_CANCELED_CANNOT_BE_APPROVED,
+  'Fill price is invalid': PerpetualErrorCode.FILL_PRICE_INVALID,
+  'Fill fee is invalid': PerpetualErrorCode.FILL_FEE_INVALID,
+  'Fill does not decrease position': PerpetualErrorCode.FILL_NOT_DECREASING,
+  'Trigger price has not been reached': PerpetualErrorCode.TRIGGER_PRICE_NOT_REACHED,
+
+  'Accounts must have non-zero length': PerpetualErrorCode.ACCOUNTS_EMPTY,
+  'Accounts must be sorted and unique': PerpetualErrorCode.ACCOUNTS_NOT_SORTED,
+  'trader is not global operator': PerpetualErrorCode.TRADER_NOT_GLOBAL_OPERATOR,
+  'Sender does not have permissions for the taker':
+    PerpetualErrorCode.SENDER_NOT_PERMITTED_FOR_TAKER,
+  'msg.sender must be PerpetualV1': PerpetualErrorCode.SENDER_NOT_PERPETUAL,
+  'account not collateralized': PerpetualErrorCode.UNDERCOLLATERALIZED,
+  'account is undercollateralized and absolute position size increased':
+    PerpetualErrorCode.UNDERCOLLATERALIZED,
+  'account is undercollateralized and collateralization decreased':
+    PerpetualErrorCode.UNDERCOLLATERALIZED,
+  'account is undercollateralized and has no positive value':
+    PerpetualErrorCode.UNDERCOLLATERALIZED,
+  'account is undercollateralized and position changed signs':
+    PerpetualErrorCode.UNDERCOLLATERALIZED,
+  'account is undercollateralized and was not previously':
+    PerpetualErrorCode.UNDERCOLLATERALIZED,
+
+  'sender does not have permission to withdraw': PerpetualErrorCode.WITHDRAW_NOT_PERMITTED,
+
+  'Cannot liquidate since maker is not undercollateralized':
+    PerpetualErrorCode.MAKER_NOT_UNDERCOLLATERALIZED,
+  'Cannot liquidate when maker position and margin are both negative':
+    PerpetualErrorCode.MAKER_BALANCES_NEGATIVE,
+  "liquidation must not increase maker's position size":
+    PerpetualErrorCode.MAKER_POSITION_INCREASED,
+  "deleveraging must not increase maker's position size":
+    PerpetualErrorCode.MAKER_POSITION_INCREASED,
+  'allOrNothing is set and maker position is less than amount':
+    PerpetualErrorCode.MAKER_POSITION_TOO_SMALL,
+  'allOrNothing is set and taker position is less than amount':
+    PerpetualErrorCode.TAKER_POSITION_TOO_SMALL,
+  'Cannot deleverage since maker is not underwater': PerpetualErrorCode.MAKER_NOT_UNDERWATER,
+  'Cannot mark since account is not underwater': PerpetualErrorCode.MAKER_NOT_UNDERWATER,
+  'Cannot deleverage since account is not marked': PerpetualErrorCode.MAKER_NOT_MARKED,
+  'Cannot deleverage since account has not been marked for the timelock period':
+    PerpetualErrorCode.MAKER_MARK_TIMELOCKED,
+  'Cannot unmark since account is underwater': PerpetualErrorCode.MAKER_UNDERWATER,
+  'Taker position has wrong sign to deleverage this maker':
+    PerpetualErrorCode.TAKER_POSITION_WRONG_SIGN,
+  'cannot deleverage after other trade operations, in the same tx':
+    PerpetualErrorCode.DELEVERAGING_NOT_FIRST,
+  'Sender is not a global operator': PerpetualErrorCode.SENDER_NOT_GLOBAL_OPERATOR,
+
+  'Sender not authorized to get price': PerpetualErrorCode.ORACLE_SENDER_NOT_AUTHORIZED,
+  'Oracle would return zero price': PerpetualErrorCode.ORACLE_PRICE_ZERO,
+  'Price is zero': PerpetualErrorCode.ORACLE_PRICE_ZERO,
+  'Invalid answer from aggregator': PerpetualErrorCode.ORACLE_INVALID_ANSWER,
+  'Stale message': PerpetualErrorCode.ORACLE_STALE_MESSAGE,
+  'Invalid signer': PerpetualErrorCode.ORACLE_INVALID_SIGNER,
+  'Duplicate signer': PerpetualErrorCode.ORACLE_DUPLICATE_SIGNER,
+  'Message out of order': PerpetualErrorCode.ORACLE_MESSAGE_OUT_OF_ORDER,
+  'Wrong number of messages': PerpetualErrorCode.ORACLE_WRONG_NUMBER_OF_MESSAGES,
+  'The funding rate can only be set by the funding rate provider':
+    PerpetualErrorCode.FUNDING_RATE_SENDER_NOT_PROVIDER,
+};
+
+/**
+ * Thrown when a transaction or call to a contract reverts. The message of the original error is
+ * preserved, and the revert reason is extracted from it when available.
+ */
+export class PerpetualRevertError extends Error {
+  public readonly reason: string | null;
+  public readonly code: PerpetualErrorCode;
+  public readonly methodName: string | null;
+  public readonly methodArgs: { [name: string]: any } | null;
+  public readonly transactionData: any;
+
+  constructor(
+    message: string,
+    reason: string | null = null,
+    method: ContractSendMethod | null = null,
+    transactionData: any = null,
+  ) {
+    super(message);
+    // Restore the prototype chain, which is lost when extending Error and compiling to ES5.
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.reason = reason;
+    this.code = getErrorCode(reason);
+    this.methodName = null;
+    this.methodArgs = null;
+    this.transactionData = transactionData;
+
+    const abiItem = method && (method as any)._method;
+    if (abiItem) {
+      const args: any[] = (method as any).arguments || [];
+      this.methodName = abiItem.name;
+      this.methodArgs = _.zipObject(
+        abiItem.inputs.map((input: { name: string }, i: number) => input.name || `${i}`),
+        args,
+      );
+    }
+  }
+}
+
+/**
+ * Get a PerpetualRevertError for an error thrown by web3 or the provider, or return the error as
+ * is if it was not caused by a revert.
+ */
+export function parseRevertError(
+  error: any,
+  method?: ContractSendMethod,
+): Error {
+  if (!error || error instanceof PerpetualRevertError) {
+    return error;
+  }
+  const reason = getRevertReason(error);
+  const message: string = error.message || `${error}`;
+  if (reason === null && !/revert/i.test(message)) {
+    return error;
+  }
+  const revertError = new PerpetualRevertError(message, reason, method, error.transactionData);
+  revertError.stack = error.stack || revertError.stack;
+  return revertError;
+}
+
+/**
+ * Extract the revert reason from an error, which may be in any of the shapes used by web3,
+ * Ganache, Geth, Hardhat or a JSON-RPC error response. Returns null if there is no reason.
+ */
+export function getRevertReason(
+  error: any,
+): string | null {
+  if (!error) {
+    return null;
+  }
+  if (typeof error === 'string') {
+    return parseRevertString(error);
+  }
+  if (typeof error !== 'object') {
+    return null;
+  }
+  if (typeof error.reason === 'string' && error.reason) {
+    return error.reason;
+  }
+
+  // Nested errors and return data, e.g. { data: { [txHash]: { reason, return } } } from Ganache.
+  const nested = [error.data, error.error, parseJsonBody(error.message)];
+  if (error.data && typeof error.data === 'object') {
+    nested.push(...Object.values(error.data));
+  }
+  for (const value of nested) {
+    const reason = getRevertReason(value);
+    if (reason !== null) {
+      return reason;
+    }
+  }
+  return typeof error.message === 'string' ? parseRevertString(error.message) : null;
+}
+
+function getErrorCode(
+  reason: string | null,
+): PerpetualErrorCode {
+  if (reason === null) {
+    return PerpetualErrorCode.UNKNOWN;
+  }
+  const unprefixedReason = reason.replace(/^\w+(#\w+)?: /, '');
+  return REVERT_REASON_CODES[unprefixedReason] || PerpetualErrorCode.UNKNOWN;
+}
+
+function parseRevertString(
+  value: string,
+): string | null {
+  if (value.startsWith(ERROR_SELECTOR)) {
+    return decodeErrorData(value);
+  }
+  for (const pattern of REVERT_MESSAGE_PATTERNS) {
+    const match = value.match(pattern);
+    if (match) {
+      const reason = match[1].replace(/ -- Reason given: .*$/, '').trim();
+      return reason || null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Decode the return data of Error(string): an offset, a length and the UTF-8 bytes of the string.
+ */
+function decodeErrorData(
+  data: string,
+): string | null {
+  const encoded = data.slice(ERROR_SELECTOR.length);
+  const length = parseInt(encoded.slice(64, 128), 16);
+  if (!length) {
+    return null;
+  }
+  return Buffer.from(encoded.slice(128, 128 + length * 2), 'hex').toString('utf8');
+}
+
+/**
+ * Web3 appends the JSON-RPC error to the message of some errors, e.g. "Internal JSON-RPC error."
+ */
+function parseJsonBody(
+  message: any,
+): any {
+  if (typeof message !== 'string' || message.indexOf('{') === -1) {
+    return null;
+  }
+  try {
+    return JSON.parse(message.slice(message.indexOf('{')));
+  } catch (error) {
+    return null;
+  }
+}
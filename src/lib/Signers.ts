@@ -0,0 +1,169 @@
+import { default as axios } from 'axios';
+import Web3 from 'web3';
+import { Accounts } from 'web3-eth-accounts';
+
+import { ethSignTypedDataInternal } from './SignatureHelper';
+import {
+  RemoteSignerOptions,
+  Signer,
+  SignerCallbacks,
+  SigningMethod,
+  TypedSignature,
+  address,
+} from './types';
+
+const DEFAULT_REMOTE_SIGNER_TIMEOUT = 10000;
+
+/**
+ * Signs through the current web3 provider, using eth_sign and eth_signTypedData.
+ */
+export class Web3Signer implements Signer {
+  private web3: Web3;
+
+  constructor(
+    web3: Web3,
+  ) {
+    this.web3 = web3;
+  }
+
+  public async signHash(
+    hash: string,
+    account: address,
+  ): Promise<string> {
+    return this.web3.eth.sign(hash, account);
+  }
+
+  public async signTypedData(
+    data: any,
+    account: address,
+    signingMethod: SigningMethod,
+  ): Promise<TypedSignature> {
+    return ethSignTypedDataInternal(
+      this.web3.currentProvider,
+      account,
+      data,
+      signingMethod,
+    );
+  }
+}
+
+/**
+ * Signs offline with private keys held in memory, without loading them into the web3 wallet.
+ *
+ * Only hash signing is supported.
+ */
+export class LocalSigner implements Signer {
+  private accounts: Accounts;
+  private privateKeys: { [account: string]: string } = {};
+
+  constructor(
+    privateKeys: string[],
+  ) {
+    this.accounts = new Web3().eth.accounts;
+    for (const privateKey of privateKeys) {
+      const { address } = this.accounts.privateKeyToAccount(privateKey);
+      this.privateKeys[address.toLowerCase()] = privateKey;
+    }
+  }
+
+  public getAccounts(): address[] {
+    return Object.keys(this.privateKeys);
+  }
+
+  public async signHash(
+    hash: string,
+    account: address,
+  ): Promise<string> {
+    const privateKey = this.privateKeys[account.toLowerCase()];
+    if (!privateKey) {
+      throw new Error(`No private key for account ${account}`);
+    }
+    return this.accounts.sign(hash, privateKey).signature;
+  }
+
+  public async signTypedData(): Promise<TypedSignature> {
+    throw new Error('LocalSigner does not support typed data, use SigningMethod.Hash');
+  }
+}
+
+/**
+ * Signs by sending requests to a remote signing service, such as a key management service.
+ *
+ * The service must accept POST requests to `/sign-hash` with `{ account, hash }` and to
+ * `/sign-typed-data` with `{ account, data, signingMethod }`, and respond with `{ signature }`.
+ */
+export class RemoteSigner implements Signer {
+  private options: RemoteSignerOptions;
+
+  constructor(
+    options: RemoteSignerOptions,
+  ) {
+    this.options = {
+      timeout: DEFAULT_REMOTE_SIGNER_TIMEOUT,
+      ...options,
+    };
+  }
+
+  public async signHash(
+    hash: string,
+    account: address,
+  ): Promise<string> {
+    return this.request('sign-hash', { account, hash });
+  }
+
+  public async signTypedData(
+    data: any,
+    account: address,
+    signingMethod: SigningMethod,
+  ): Promise<TypedSignature> {
+    return this.request('sign-typed-data', { account, data, signingMethod });
+  }
+
+  private async request(
+    path: string,
+    data: any,
+  ): Promise<string> {
+    const response = await axios({
+      data,
+      method: 'post',
+      url: `${this.options.endpoint}/${path}`,
+      headers: this.options.headers,
+      timeout: this.options.timeout,
+    });
+    if (!response.data || !response.data.signature) {
+      throw new Error(`Remote signer returned no signature for ${path}`);
+    }
+    return response.data.signature;
+  }
+}
+
+/**
+ * Signs by calling user-provided functions, e.g. to prompt for approval on a hardware wallet.
+ */
+export class CallbackSigner implements Signer {
+  private callbacks: SignerCallbacks;
+
+  constructor(
+    callbacks: SignerCallbacks,
+  ) {
+    this.callbacks = callbacks;
+  }
+
+  public async signHash(
+    hash: string,
+    account: address,
+  ): Promise<string> {
+    return this.callbacks.signHash(hash, account);
+  }
+
+  public async signTypedData(
+    data: any,
+    account: address,
+    signingMethod: SigningMethod,
+  ): Promise<TypedSignature> {
+    if (!this.callbacks.signTypedData) {
+      throw new Error('CallbackSigner was not given a signTypedData callback');
+    }
+    return this.callbacks.signTypedData(data, account, signingMethod);
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Limits the rate of an operation. Tokens are added continuously at a fixed rate, up to a maximum
+ * of `capacity`, and each operation waits until it can take a token. Waiting operations are served
+ * in order.
+ */
+export class TokenBucket {
+  private tokensPerMs: number;
+  private capacity: number;
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    tokensPerSecond: number,
+    capacity: number = 1,
+  ) {
+    if (!(tokensPerSecond > 0)) {
+      throw new Error(`tokensPerSecond: ${tokensPerSecond} must be positive`);
+    }
+    if (!(capacity >= 1)) {
+      throw new Error(`capacity: ${capacity} must be at least 1`);
+    }
+    this.tokensPerMs = tokensPerSecond / 1000;
+    this.capacity = capacity;
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Resolves once a token has been taken.
+   */
+  public take(): Promise<void> {
+    this.queue = this.queue.then(() => this.waitForToken());
+    return this.queue;
+  }
+
+  private async waitForToken(): Promise<void> {
+    this.refill();
+    if (this.tokens < 1) {
+      const delay = Math.ceil((1 - this.tokens) / this.tokensPerMs);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      this.refill();
+    }
+    this.tokens = Math.max(this.tokens - 1, 0);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.tokensPerMs);
+    this.lastRefill = now;
+  }
+}
@@ -0,0 +1,52 @@
+import _ from 'lodash';
+import BigNumber from 'bignumber.js';
+import Web3 from 'web3';
+
+import { BigNumberable, address } from './types';
+
+/**
+ * Send a transaction with EIP-1559 fees using eth_sendTransaction, and return its hash.
+ *
+ * Web3 adds a gasPrice to every transaction it sends, which nodes reject alongside EIP-1559 fees,
+ * so the request is sent through the provider directly. The transaction is signed by the node, not
+ * by the accounts of the web3 wallet.
+ */
+export function sendEip1559Transaction(
+  web3: Web3,
+  tx: {
+    from: address,
+    to: address,
+    data: string,
+    value?: BigNumberable,
+    gas: BigNumberable,
+    nonce?: BigNumberable,
+    maxFeePerGas?: BigNumberable,
+    maxPriorityFeePerGas?: BigNumberable,
+  },
+): Promise<string> {
+  const params = _.omitBy(
+    {
+      from: tx.from,
+      to: tx.to,
+      data: tx.data,
+      value: toHex(tx.value || 0),
+      gas: toHex(tx.gas),
+      nonce: tx.nonce === undefined ? undefined : toHex(tx.nonce),
+      maxFeePerGas: toHex(tx.maxFeePerGas),
+      maxPriorityFeePerGas: toHex(tx.maxPriorityFeePerGas),
+    },
+    _.isUndefined,
+  );
+  return new Promise((resolve, reject) => {
+    (web3 as any)._requestManager.send(
+      { method: 'eth_sendTransaction', params: [params] },
+      (error: Error, transactionHash: string) => (error ? reject(error) : resolve(transactionHash)),
+    );
+  });
+}
+
+function toHex(
+  value: BigNumberable,
+): string {
+  return Web3.utils.numberToHex(new BigNumber(value).toFixed(0));
+}
@@ -0,0 +1,127 @@
+import BigNumber from 'bignumber.js';
+
+import { getMarketConfig } from './MarketConfig';
+import {
+  Balance,
+  BigNumberable,
+  Fee,
+  MarketConfig,
+  PerpetualMarket,
+  Price,
+} from './types';
+
+/**
+ * Converts between human units and the atomic units used by the contracts for a market.
+ *
+ * Human units:
+ * - Prices are in quote token per base token, e.g. USD per BTC for PBTC-USDC and USD per ETH for
+ *   WETH-PUSD.
+ * - Amounts and balances are in whole tokens, e.g. BTC for the position in PBTC-USDC and USD for
+ *   the position in WETH-PUSD.
+ * - Fees are fractions of the price, e.g. 0.0015 for 15 bips.
+ */
+export class Units {
+  public readonly config: MarketConfig;
+
+  constructor(
+    market: PerpetualMarket,
+  ) {
+    this.config = getMarketConfig(market);
+  }
+
+  // ============ Prices ============
+
+  public toPrice(
+    humanPrice: BigNumberable,
+  ): Price {
+    return new Price(new BigNumber(humanPrice).shiftedBy(this.getPriceDecimals()));
+  }
+
+  public fromPrice(
+    price: Price,
+  ): BigNumber {
+    return price.value.shiftedBy(-this.getPriceDecimals());
+  }
+
+  // ============ Amounts ============
+
+  /**
+   * Converts a human amount of the position token to an Order.amount.
+   */
+  public toAmount(
+    humanAmount: BigNumberable,
+  ): BigNumber {
+    return toAtomicUnits(humanAmount, this.getPositionDecimals(), 'amount');
+  }
+
+  public fromAmount(
+    amount: BigNumberable,
+  ): BigNumber {
+    return new BigNumber(amount).shiftedBy(-this.getPositionDecimals());
+  }
+
+  // ============ Balances ============
+
+  public toBalance(
+    humanMargin: BigNumberable,
+    humanPosition: BigNumberable,
+  ): Balance {
+    return new Balance(
+      toAtomicUnits(humanMargin, this.getMarginDecimals(), 'margin'),
+      toAtomicUnits(humanPosition, this.getPositionDecimals(), 'position'),
+    );
+  }
+
+  public fromBalance(
+    balance: Balance,
+  ): { margin: BigNumber, position: BigNumber } {
+    return {
+      margin: balance.margin.shiftedBy(-this.getMarginDecimals()),
+      position: balance.position.shiftedBy(-this.getPositionDecimals()),
+    };
+  }
+
+  // ============ Fees ============
+
+  public toFee(
+    humanFee: BigNumberable,
+  ): Fee {
+    return new Fee(humanFee);
+  }
+
+  public fromFee(
+    fee: Fee,
+  ): BigNumber {
+    return fee.value;
+  }
+
+  // ============ Helper Functions ============
+
+  /**
+   * Prices are in margin token per position token for regular markets, and in position token per
+   * margin token for inverse markets. In both cases, this is quote token per base token.
+   */
+  private getPriceDecimals(): number {
+    return this.config.quoteTokenDecimals - this.config.baseTokenDecimals;
+  }
+
+  private getMarginDecimals(): number {
+    return this.config.isInverse ? this.config.baseTokenDecimals : this.config.quoteTokenDecimals;
+  }
+
+  private getPositionDecimals(): number {
+    return this.config.isInverse ? this.config.quoteTokenDecimals : this.config.baseTokenDecimals;
+  }
+}
+
+function toAtomicUnits(
+  humanValue: BigNumberable,
+  decimals: number,
+  name: string,
+): BigNumber {
+  const value = new BigNumber(humanValue);
+  if (value.decimalPlaces() > decimals) {
+    throw new Error(`${name}: ${value.toFixed()} has more than ${decimals} decimal places`);
+  }
+  return value.shiftedBy(decimals);
+}
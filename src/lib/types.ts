@@ -91,11 +91,18 @@ export interface PerpetualOptions {
   sendOptions?: SendOptions;
   apiOptions?: ApiOptions;
   accounts?: EthereumAccount[];
+  feeSchedule?: FeeSchedule; // defaults to the schedule of the market in DEFAULT_FEE_SCHEDULES
+  txManagerOptions?: TxManagerOptions; // if given, transactions are sent through a TxManager
 }
 
 export interface ApiOptions {
   endpoint?: string;
   timeout?: number;
+  transport?: ApiTransport;
+  retry?: ApiRetryOptions;
+  rateLimit?: ApiRateLimitOptions;
+  requestInterceptors?: ApiRequestInterceptor[];
+  responseInterceptors?: ApiResponseInterceptor[];
 }
 
 // ============ Interfaces ============
@@ -105,6 +112,62 @@ export interface EthereumAccount {
   privateKey: string;
 }
 
+/**
+ * Signs hashes and EIP-712 typed data on behalf of one or more accounts.
+ */
+export interface Signer {
+  /**
+   * Sign a hash in the same way as eth_sign, prepending the hash according to EIP-191. Returns the
+   * raw 65-byte signature.
+   */
+  signHash(hash: string, account: address): Promise<string>;
+
+  /**
+   * Sign EIP-712 typed data. Returns the typed signature.
+   */
+  signTypedData(
+    data: any,
+    account: address,
+    signingMethod: SigningMethod,
+  ): Promise<TypedSignature>;
+}
+
+export interface SignerCallbacks {
+  signHash(hash: string, account: address): Promise<string>;
+  signTypedData?(
+    data: any,
+    account: address,
+    signingMethod: SigningMethod,
+  ): Promise<TypedSignature>;
+}
+
+export interface RemoteSignerOptions {
+  endpoint: string;
+  timeout?: number;
+  headers?: { [header: string]: string };
+}
+
+// Fees in wei. Either gasPrice, or maxFeePerGas and maxPriorityFeePerGas (EIP-1559), are set.
+export interface TxFees {
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+}
+
+/**
+ * Chooses the fees of a transaction which does not specify any in its send options.
+ */
+export interface FeeStrategy {
+  getFees(): Promise<TxFees>;
+}
+
+export interface FeeHistoryStrategyOptions {
+  blockCount?: number; // number of recent blocks to consider
+  rewardPercentile?: number; // percentile of the priority fees paid in each block, from 0 to 100
+  baseFeeMultiplier?: number; // headroom for increases of the base fee before inclusion
+  minPriorityFee?: BigNumberable;
+}
+
 export interface TxResult {
   transactionHash?: string;
   transactionIndex?: number;
@@ -124,6 +187,7 @@ export interface TxResult {
   confirmation?: Promise<TransactionReceipt>;
   gasEstimate?: number;
   gas?: number;
+  effectiveGasPrice?: string; // the price per gas paid once mined, in wei
 }
 
 export interface TxOptions {
@@ -133,6 +197,8 @@ export interface TxOptions {
 
 export interface NativeSendOptions extends TxOptions {
   gasPrice?: number | string;
+  maxFeePerGas?: number | string;
+  maxPriorityFeePerGas?: number | string;
   gas?: number | string;
   nonce?: string | number;
 }
@@ -141,17 +207,50 @@ export interface SendOptions extends NativeSendOptions {
   confirmations?: number;
   confirmationType?: ConfirmationType;
   gasMultiplier?: number;
+  feeStrategy?: FeeStrategy; // used if no fees are given for the transaction
 }
 
 export interface CallOptions extends TxOptions {
   blockNumber?: number;
 }
 
+export interface UnsignedTransaction {
+  from: address;
+  to: address;
+  data: string;
+  value: string; // in wei
+  gas: number;
+  nonce: number;
+  chainId: number;
+  gasPrice?: string; // set for legacy transactions
+  maxFeePerGas?: string; // set for EIP-1559 transactions
+  maxPriorityFeePerGas?: string; // set for EIP-1559 transactions
+}
+
 export interface PosAndNegValues {
   positiveValue: BigNumber;
   negativeValue: BigNumber;
 }
 
+export interface ProjectFundingOptions {
+  until: BigNumberable; // unix timestamp in seconds
+  rate?: FundingRate; // per-second rate applied to the index; positive means longs pay shorts
+}
+
+export interface FundingProjection {
+  index: Index; // the global index if it were updated at the `until` timestamp
+  marginChange: BigNumber; // includes funding that is already unsettled
+  balance: Balance; // the account balance after settling at the projected index
+}
+
+export interface FundingPayment {
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: number;
+  amount: BigNumber; // the change in margin; negative if funding was paid
+  balance: Balance; // the account balance after settlement
+}
+
 // ============ Solidity Interfaces ============
 
 export interface SignedIntStruct {
@@ -218,6 +317,97 @@ export interface SignedOrder extends Order {
   typedSignature: string;
 }
 
+export interface Fill {
+  amount: BigNumber;
+  price: Price;
+  fee: Fee;
+}
+
+/**
+ * On-chain state needed to validate a fill without making any calls.
+ */
+export interface FillValidationContext {
+  maker: address;
+  taker: address;
+  oraclePrice: Price;
+  makerBalance: Balance;
+  orderState: OrderState;
+  timestamp: BigNumberable;
+}
+
+/**
+ * Reasons that P1Orders would reject a fill. Values are the revert strings used by the contract.
+ */
+export enum FillValidationError {
+  INVALID_SIGNATURE = 'Order has an invalid signature',
+  ALREADY_CANCELED = 'Order was already canceled',
+  MAKER_MISMATCH = 'Order maker does not match maker',
+  TAKER_MISMATCH = 'Order taker does not match taker',
+  EXPIRED = 'Order has expired',
+  INVALID_PRICE = 'Fill price is invalid',
+  INVALID_FEE = 'Fill fee is invalid',
+  TRIGGER_NOT_REACHED = 'Trigger price has not been reached',
+  NOT_DECREASING = 'Fill does not decrease position',
+  OVERFILL = 'Cannot overfill order',
+}
+
+/**
+ * Known reasons that a transaction or call to the protocol reverted. See PerpetualRevertError.
+ */
+export enum PerpetualErrorCode {
+  // P1Orders
+  ORDER_INVALID_SIGNATURE = 'ORDER_INVALID_SIGNATURE',
+  ORDER_ALREADY_CANCELED = 'ORDER_ALREADY_CANCELED',
+  ORDER_MAKER_MISMATCH = 'ORDER_MAKER_MISMATCH',
+  ORDER_TAKER_MISMATCH = 'ORDER_TAKER_MISMATCH',
+  ORDER_EXPIRED = 'ORDER_EXPIRED',
+  ORDER_OVERFILL = 'ORDER_OVERFILL',
+  ORDER_SENDER_NOT_MAKER = 'ORDER_SENDER_NOT_MAKER',
+  ORDER_CANCELED_CANNOT_BE_APPROVED = 'ORDER_CANCELED_CANNOT_BE_APPROVED',
+  FILL_PRICE_INVALID = 'FILL_PRICE_INVALID',
+  FILL_FEE_INVALID = 'FILL_FEE_INVALID',
+  FILL_NOT_DECREASING = 'FILL_NOT_DECREASING',
+  TRIGGER_PRICE_NOT_REACHED = 'TRIGGER_PRICE_NOT_REACHED',
+
+  // P1Trade
+  ACCOUNTS_EMPTY = 'ACCOUNTS_EMPTY',
+  ACCOUNTS_NOT_SORTED = 'ACCOUNTS_NOT_SORTED',
+  TRADER_NOT_GLOBAL_OPERATOR = 'TRADER_NOT_GLOBAL_OPERATOR',
+  SENDER_NOT_PERMITTED_FOR_TAKER = 'SENDER_NOT_PERMITTED_FOR_TAKER',
+  SENDER_NOT_PERPETUAL = 'SENDER_NOT_PERPETUAL',
+  UNDERCOLLATERALIZED = 'UNDERCOLLATERALIZED',
+
+  // P1Margin
+  WITHDRAW_NOT_PERMITTED = 'WITHDRAW_NOT_PERMITTED',
+
+  // P1Liquidation and P1Deleveraging
+  MAKER_NOT_UNDERCOLLATERALIZED = 'MAKER_NOT_UNDERCOLLATERALIZED',
+  MAKER_BALANCES_NEGATIVE = 'MAKER_BALANCES_NEGATIVE',
+  MAKER_POSITION_INCREASED = 'MAKER_POSITION_INCREASED',
+  MAKER_POSITION_TOO_SMALL = 'MAKER_POSITION_TOO_SMALL',
+  TAKER_POSITION_TOO_SMALL = 'TAKER_POSITION_TOO_SMALL',
+  MAKER_NOT_UNDERWATER = 'MAKER_NOT_UNDERWATER',
+  MAKER_NOT_MARKED = 'MAKER_NOT_MARKED',
+  MAKER_MARK_TIMELOCKED = 'MAKER_MARK_TIMELOCKED',
+  MAKER_UNDERWATER = 'MAKER_UNDERWATER',
+  TAKER_POSITION_WRONG_SIGN = 'TAKER_POSITION_WRONG_SIGN',
+  DELEVERAGING_NOT_FIRST = 'DELEVERAGING_NOT_FIRST',
+  SENDER_NOT_GLOBAL_OPERATOR = 'SENDER_NOT_GLOBAL_OPERATOR',
+
+  // Oracles
+  ORACLE_SENDER_NOT_AUTHORIZED = 'ORACLE_SENDER_NOT_AUTHORIZED',
+  ORACLE_PRICE_ZERO = 'ORACLE_PRICE_ZERO',
+  ORACLE_INVALID_ANSWER = 'ORACLE_INVALID_ANSWER',
+  ORACLE_STALE_MESSAGE = 'ORACLE_STALE_MESSAGE',
+  ORACLE_INVALID_SIGNER = 'ORACLE_INVALID_SIGNER',
+  ORACLE_DUPLICATE_SIGNER = 'ORACLE_DUPLICATE_SIGNER',
+  ORACLE_MESSAGE_OUT_OF_ORDER = 'ORACLE_MESSAGE_OUT_OF_ORDER',
+  ORACLE_WRONG_NUMBER_OF_MESSAGES = 'ORACLE_WRONG_NUMBER_OF_MESSAGES',
+  FUNDING_RATE_SENDER_NOT_PROVIDER = 'FUNDING_RATE_SENDER_NOT_PROVIDER',
+
+  UNKNOWN = 'UNKNOWN',
+}
+
 export interface MakerOracleMessage {
   price: Price;
   timestamp: BigNumber;
@@ -428,6 +618,59 @@ export class FundingRate extends BaseValue {
   }
 }
 
+// ============ Fee Schedules ============
+
+// The fees for orders with an amount of at least `minAmount`, in the units of Order.amount.
+export interface FeeScheduleTier {
+  minAmount: string;
+  makerFeeBips: string;
+  takerFeeBips: string;
+}
+
+// A fraction of positive fees which is waived for accounts with at least `minVolume` of trading
+// volume, in the units of Order.amount.
+export interface FeeScheduleVolumeDiscount {
+  minVolume: string;
+  discount: string; // between 0 and 1
+}
+
+export interface FeeSchedule {
+  market: PerpetualMarket;
+  tiers: FeeScheduleTier[]; // sorted by minAmount, starting at zero
+  volumeDiscounts?: FeeScheduleVolumeDiscount[]; // sorted by minVolume
+}
+
+// ============ Market Configs ============
+
+export enum OracleType {
+  MAKER = 'MAKER',
+  CHAINLINK = 'CHAINLINK',
+}
+
+export enum OrdersContract {
+  P1_ORDERS = 'P1Orders',
+  P1_INVERSE_ORDERS = 'P1InverseOrders',
+}
+
+// Addresses of contracts which were previously used by the market and may still have emitted logs.
+export interface MarketLegacyAddresses {
+  liquidation: address[];
+  liquidatorProxy: address[];
+}
+
+export interface MarketConfig {
+  market: PerpetualMarket;
+  baseTokenDecimals: number;
+  quoteTokenDecimals: number;
+  isInverse: boolean;
+  oracleType: OracleType;
+  ordersContract: OrdersContract;
+  feeSchedule: FeeSchedule;
+  minOrderSize: string; // in the units of Order.amount
+  tickSize: string; // in the units of Order.limitPrice
+  legacyAddresses: MarketLegacyAddresses;
+}
+
 export enum ApiOrderStatus {
   PENDING = 'PENDING',
   OPEN = 'OPEN',
@@ -442,11 +685,9 @@ export enum ApiOrderType {
   PERPETUAL_STOP_LIMIT = 'PERPETUAL_STOP_LIMIT',
 }
 
-export enum ApiMarketName {
-  PBTC_USDC = 'PBTC-USDC',
-  WETH_PUSD = 'WETH-PUSD',
-  PLINK_USDC = 'PLINK-USDC',
-}
+// The API uses the same market names as the contracts.
+export const ApiMarketName = PerpetualMarket;
+export type ApiMarketName = PerpetualMarket;
 
 export enum ApiSide {
   BUY = 'BUY',
@@ -478,7 +719,69 @@ export interface ApiOrder {
   quoteAmount: string;
   filledAmount: string;
   price: string;
+  triggerPrice: string | null;
   cancelReason: ApiOrderCancelReason;
+  clientId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export enum ApiLiquidity {
+  MAKER = 'MAKER',
+  TAKER = 'TAKER',
+}
+
+export interface ApiFill {
+  uuid: string;
+  orderId: string;
+  market: ApiMarketName;
+  side: ApiSide;
+  liquidity: ApiLiquidity;
+  amount: string;
+  price: string;
+  fee: string;
+  transactionHash: string;
+  createdAt: string;
+}
+
+export interface ApiTrade {
+  uuid: string;
+  market: ApiMarketName;
+  side: ApiSide;
+  amount: string;
+  price: string;
+  createdAt: string;
+}
+
+export enum ApiTransferType {
+  DEPOSIT = 'DEPOSIT',
+  WITHDRAWAL = 'WITHDRAWAL',
+}
+
+export interface ApiTransfer {
+  uuid: string;
+  type: ApiTransferType;
+  market: ApiMarketName;
+  amount: string;
+  transactionHash: string;
+  confirmedAt: string | null;
+  createdAt: string;
+}
+
+export interface ApiFundingPayment {
+  uuid: string;
+  market: ApiMarketName;
+  payment: string; // positive if received by the account
+  rate: string;
+  position: string;
+  price: string;
+  createdAt: string;
+}
+
+// Paginated endpoints return results newest first, at most `limit` at a time.
+export interface ApiPaginationParams {
+  limit?: number;
+  startingBefore?: Date;
 }
 
 export interface ApiOrderOnOrderbook {
@@ -488,6 +791,29 @@ export interface ApiOrderOnOrderbook {
   price: string;
 }
 
+export interface ApiOrderbook {
+  bids: ApiOrderOnOrderbook[];
+  asks: ApiOrderOnOrderbook[];
+}
+
+// A change to one order on the orderbook. An amount of zero removes the order.
+export interface ApiOrderbookUpdate {
+  id: string;
+  side: ApiSide;
+  amount: string;
+  price: string;
+}
+
+// The total amount of all orders at one price.
+export interface OrderbookLevel {
+  price: BigNumber;
+  amount: BigNumber;
+}
+
+export interface OrderbookModelOptions {
+  staleAfter?: number; // milliseconds without updates after which the book is stale
+}
+
 export interface ApiBalance {
   margin: string;
   position: string;
@@ -542,8 +868,754 @@ export interface ApiIndexPrice {
   price: string;
 }
 
+// ============ WebSocket API ============
+
+export enum WsChannel {
+  MARKETS = 'markets',
+  ORDERBOOK = 'orderbook',
+  TRADES = 'trades',
+  BALANCES = 'balances',
+  ORDERS = 'orders',
+}
+
+export enum WsMessageType {
+  SUBSCRIBE = 'subscribe',
+  UNSUBSCRIBE = 'unsubscribe',
+  SUBSCRIBED = 'subscribed',
+  UNSUBSCRIBED = 'unsubscribed',
+  CHANNEL_DATA = 'channel_data',
+  PING = 'ping',
+  PONG = 'pong',
+  ERROR = 'error',
+}
+
+// The first message on the orderbook channel contains a snapshot, and later messages updates.
+export interface WsOrderbookContents {
+  bids?: ApiOrderOnOrderbook[];
+  asks?: ApiOrderOnOrderbook[];
+  updates?: ApiOrderbookUpdate[];
+}
+
+export interface WsChannelContents {
+  [WsChannel.MARKETS]: { markets: ApiMarketMessage[] };
+  [WsChannel.ORDERBOOK]: WsOrderbookContents;
+  [WsChannel.TRADES]: { trades: ApiTrade[] };
+  [WsChannel.BALANCES]: { balances: { [market: string]: ApiBalance } };
+  [WsChannel.ORDERS]: { orders: ApiOrder[] };
+}
+
+export interface WsChannelMessage<C extends WsChannel = WsChannel> {
+  type: WsMessageType.SUBSCRIBED | WsMessageType.CHANNEL_DATA;
+  channel: C;
+  id?: string; // the market, or the account for the balances and orders channels
+  contents: WsChannelContents[C];
+}
+
+// The subset of the WebSocket interface used by WsApi, implemented by browsers and the ws package.
+export interface WebSocketLike {
+  readyState: number;
+  onopen: (event: any) => void;
+  onclose: (event: any) => void;
+  onerror: (event: any) => void;
+  onmessage: (event: { data: any }) => void;
+  send(data: string): void;
+  close(): void;
+}
+
+export interface WsApiOptions {
+  endpoint?: string;
+  reconnectDelay?: number; // milliseconds before the first reconnect attempt
+  maxReconnectDelay?: number; // the delay doubles after each failed attempt, up to this value
+  heartbeatInterval?: number; // milliseconds between pings
+  heartbeatTimeout?: number; // milliseconds without messages after which to reconnect
+  createWebSocket?: (url: string) => WebSocketLike;
+  onOpen?: () => void;
+  onClose?: () => void;
+  onError?: (error: Error) => void;
+}
+
 export enum RequestMethod {
   GET = 'get',
   POST = 'post',
   DELETE = 'delete',
 }
+
+export interface ApiRequest {
+  url: string;
+  method: RequestMethod;
+  headers?: { [name: string]: string };
+  data?: any;
+  params?: any;
+  timeout: number; // milliseconds
+}
+
+export interface ApiResponse {
+  status: number;
+  data: any;
+  headers?: { [name: string]: string }; // lower-case header names
+}
+
+// Resolves with the response whatever its status, and rejects only if no response was received.
+export type ApiTransport = (request: ApiRequest) => Promise<ApiResponse>;
+
+export type ApiRequestInterceptor = (request: ApiRequest) => ApiRequest | Promise<ApiRequest>;
+
+export type ApiResponseInterceptor = (
+  response: ApiResponse,
+  request: ApiRequest,
+) => ApiResponse | Promise<ApiResponse>;
+
+// Only GET requests are retried, after network errors, timeouts, rate limits and server errors.
+export interface ApiRetryOptions {
+  retries?: number;
+  minDelay?: number; // milliseconds, doubled after each attempt and randomized with full jitter
+  maxDelay?: number; // milliseconds
+}
+
+export interface ApiRateLimitOptions {
+  requestsPerSecond: number;
+  burst?: number; // the number of requests which can be sent at once, defaults to 1
+}
+
+// ============ Order Manager ============
+
+export enum BracketStatus {
+  PENDING_ENTRY = 'PENDING_ENTRY', // waiting for the entry order to be filled
+  OPEN = 'OPEN', // the stop-loss and take-profit orders have been placed
+  CLOSED = 'CLOSED', // one exit order has been filled or canceled, and the other canceled
+  CANCELED = 'CANCELED', // canceled before the entry order was filled
+}
+
+export interface BracketStopLoss {
+  triggerPrice: string;
+  price: string; // the limit price once triggered
+}
+
+export interface BracketTakeProfit {
+  price: string; // the limit price of a reduce-only order
+}
+
+// A one-cancels-other pair of exit orders, placed once the entry order is filled.
+export interface Bracket {
+  id: string;
+  market: ApiMarketName;
+  side: ApiSide; // the side of the entry order
+  amount: string;
+  price: string;
+  maker: address;
+  taker: address;
+  stopLoss: BracketStopLoss;
+  takeProfit: BracketTakeProfit;
+  status: BracketStatus;
+  entryOrderId: string | null;
+  stopLossOrderId: string | null;
+  takeProfitOrderId: string | null;
+  createdAt: number; // milliseconds
+  updatedAt: number; // milliseconds
+}
+
+export interface BracketStore {
+  get(id: string): Promise<Bracket | null>;
+  getAll(): Promise<Bracket[]>;
+  save(bracket: Bracket): Promise<void>;
+}
+
+export interface OrderManagerOptions {
+  maker: address;
+  taker: address;
+  store?: BracketStore;
+  signer?: Signer;
+  pollInterval?: number; // milliseconds between reconciliations
+  onError?: (error: Error, bracket: Bracket | null) => void; // bracket is null outside of a bracket
+}
+
+// ============ Transaction Manager ============
+
+// A transaction which has been broadcast but not yet mined. Replacements use the same nonce.
+export interface PendingTransaction {
+  from: address;
+  nonce: number;
+  to: address;
+  data: string;
+  value: string;
+  gas: number;
+  gasPrice?: string; // of the latest broadcast
+  maxFeePerGas?: string; // of the latest broadcast
+  maxPriorityFeePerGas?: string; // of the latest broadcast
+  transactionHashes: string[]; // of every broadcast, in order
+  sentAt: number; // milliseconds, of the latest broadcast
+}
+
+export interface TxStore {
+  get(from: address, nonce: number): Promise<PendingTransaction | null>;
+  getAll(): Promise<PendingTransaction[]>;
+  save(tx: PendingTransaction): Promise<void>;
+  remove(from: address, nonce: number): Promise<void>;
+}
+
+export interface TxManagerOptions {
+  store?: TxStore;
+  pollInterval?: number; // milliseconds between checks of pending transactions
+  resendTimeout?: number; // milliseconds before rebroadcasting with a higher gas price
+  gasPriceBump?: number; // multiplier for the fees of a replacement, at least 1.1
+  maxGasPrice?: BigNumberable; // also limits maxFeePerGas
+  onError?: (error: Error, tx: PendingTransaction) => void;
+}
+
+// ============ Admin Proposals ============
+
+export enum AdminAction {
+  SET_ORACLE = 'SET_ORACLE',
+  SET_FUNDER = 'SET_FUNDER',
+  ENABLE_FINAL_SETTLEMENT = 'ENABLE_FINAL_SETTLEMENT',
+  UPGRADE_TO_AND_CALL = 'UPGRADE_TO_AND_CALL',
+  SET_INSURANCE_FEE = 'SET_INSURANCE_FEE',
+  SET_FUNDING_RATE_PROVIDER = 'SET_FUNDING_RATE_PROVIDER',
+  SET_ROUTE = 'SET_ROUTE',
+}
+
+// One call of a multisig transaction batch.
+export interface AdminCall {
+  action: AdminAction;
+  args: { [name: string]: string }; // addresses, hex data, or decimal values in human units
+  description: string;
+  to: address;
+  value: string; // in wei
+  data: string;
+}
+
+export interface AdminProposalJson {
+  version: number;
+  market: PerpetualMarket;
+  networkId: number;
+  calls: AdminCall[];
+}
+
+export interface AdminCallSimulation {
+  call: AdminCall;
+  success: boolean;
+  error: Error | null;
+}
+
+export interface AdminCallVerification {
+  call: AdminCall;
+  verified: boolean;
+  expected: string;
+  actual: string;
+}
+
+// ============ Logs ============
+
+export interface LoggedOrderFlags {
+  rawValue: string;
+  isBuy: boolean;
+  isDecreaseOnly: boolean;
+  isNegativeLimitFee: boolean;
+}
+
+export interface LoggedFill extends Fill {
+  isNegativeFee: boolean;
+}
+
+/**
+ * A log parsed by the Logs module. Each event emitted by the protocol contracts is described by
+ * an interface extending this one, and PerpetualLog is the union of all of them.
+ */
+export interface ParsedLog extends Log {
+  name: string;
+  args: { [arg: string]: any };
+}
+
+// PerpetualV1
+
+export interface LogIndex extends ParsedLog {
+  name: 'LogIndex';
+  args: {
+    index: Index;
+  };
+}
+
+export interface LogAccountSettled extends ParsedLog {
+  name: 'LogAccountSettled';
+  args: {
+    account: address;
+    isPositive: boolean;
+    amount: BigNumber;
+    balance: Balance;
+  };
+}
+
+export interface LogDeposit extends ParsedLog {
+  name: 'LogDeposit';
+  args: {
+    account: address;
+    amount: BigNumber;
+    balance: Balance;
+  };
+}
+
+export interface LogWithdraw extends ParsedLog {
+  name: 'LogWithdraw';
+  args: {
+    account: address;
+    destination: address;
+    amount: BigNumber;
+    balance: Balance;
+  };
+}
+
+export interface LogTrade extends ParsedLog {
+  name: 'LogTrade';
+  args: {
+    maker: address;
+    taker: address;
+    trader: address;
+    marginAmount: BigNumber;
+    positionAmount: BigNumber;
+    isBuy: boolean;
+    makerBalance: Balance;
+    takerBalance: Balance;
+  };
+}
+
+export interface LogWithdrawFinalSettlement extends ParsedLog {
+  name: 'LogWithdrawFinalSettlement';
+  args: {
+    account: address;
+    amount: BigNumber;
+    balance: Balance;
+  };
+}
+
+export interface LogSetLocalOperator extends ParsedLog {
+  name: 'LogSetLocalOperator';
+  args: {
+    sender: address;
+    operator: address;
+    approved: boolean;
+  };
+}
+
+export interface LogSetGlobalOperator extends ParsedLog {
+  name: 'LogSetGlobalOperator';
+  args: {
+    operator: address;
+    approved: boolean;
+  };
+}
+
+export interface LogSetOracle extends ParsedLog {
+  name: 'LogSetOracle';
+  args: {
+    oracle: address;
+  };
+}
+
+export interface LogSetFunder extends ParsedLog {
+  name: 'LogSetFunder';
+  args: {
+    funder: address;
+  };
+}
+
+export interface LogSetMinCollateral extends ParsedLog {
+  name: 'LogSetMinCollateral';
+  args: {
+    minCollateral: BigNumber;
+  };
+}
+
+export interface LogFinalSettlementEnabled extends ParsedLog {
+  name: 'LogFinalSettlementEnabled';
+  args: {
+    settlementPrice: Price;
+  };
+}
+
+// PerpetualProxy
+
+export interface AdminChanged extends ParsedLog {
+  name: 'AdminChanged';
+  args: {
+    previousAdmin: address;
+    newAdmin: address;
+  };
+}
+
+export interface Upgraded extends ParsedLog {
+  name: 'Upgraded';
+  args: {
+    implementation: address;
+  };
+}
+
+// Ownable contracts
+
+export interface OwnershipTransferred extends ParsedLog {
+  name: 'OwnershipTransferred';
+  args: {
+    previousOwner: address;
+    newOwner: address;
+  };
+}
+
+// P1Orders and P1InverseOrders
+
+export interface LogOrderCanceled extends ParsedLog {
+  name: 'LogOrderCanceled';
+  args: {
+    maker: address;
+    orderHash: string;
+  };
+}
+
+export interface LogOrderApproved extends ParsedLog {
+  name: 'LogOrderApproved';
+  args: {
+    maker: address;
+    orderHash: string;
+  };
+}
+
+export interface LogOrderFilled extends ParsedLog {
+  name: 'LogOrderFilled';
+  args: {
+    orderHash: string;
+    flags: LoggedOrderFlags;
+    triggerPrice: Price;
+    fill: LoggedFill;
+  };
+}
+
+// P1Liquidation
+
+export interface LogLiquidated extends ParsedLog {
+  name: 'LogLiquidated';
+  args: {
+    maker: address;
+    taker: address;
+    amount: BigNumber;
+    isBuy: boolean;
+    oraclePrice: Price;
+  };
+}
+
+// P1Deleveraging
+
+export interface LogDeleveraged extends ParsedLog {
+  name: 'LogDeleveraged';
+  args: {
+    maker: address;
+    taker: address;
+    amount: BigNumber;
+    isBuy: boolean;
+    oraclePrice: Price;
+  };
+}
+
+export interface LogMarkedForDeleveraging extends ParsedLog {
+  name: 'LogMarkedForDeleveraging';
+  args: {
+    account: address;
+  };
+}
+
+export interface LogUnmarkedForDeleveraging extends ParsedLog {
+  name: 'LogUnmarkedForDeleveraging';
+  args: {
+    account: address;
+  };
+}
+
+export interface LogDeleveragingOperatorSet extends ParsedLog {
+  name: 'LogDeleveragingOperatorSet';
+  args: {
+    deleveragingOperator: address;
+  };
+}
+
+// P1CurrencyConverterProxy
+
+export interface LogConvertedDeposit extends ParsedLog {
+  name: 'LogConvertedDeposit';
+  args: {
+    account: address;
+    source: address;
+    perpetual: address;
+    exchangeWrapper: address;
+    tokenFrom: address;
+    tokenTo: address;
+    tokenFromAmount: BigNumber;
+    tokenToAmount: BigNumber;
+  };
+}
+
+export interface LogConvertedWithdrawal extends ParsedLog {
+  name: 'LogConvertedWithdrawal';
+  args: {
+    account: address;
+    destination: address;
+    perpetual: address;
+    exchangeWrapper: address;
+    tokenFrom: address;
+    tokenTo: address;
+    tokenFromAmount: BigNumber;
+    tokenToAmount: BigNumber;
+  };
+}
+
+// P1LiquidatorProxy
+
+export interface LogLiquidatorProxyUsed extends ParsedLog {
+  name: 'LogLiquidatorProxyUsed';
+  args: {
+    liquidatee: address;
+    liquidator: address;
+    isBuy: boolean;
+    liquidationAmount: BigNumber;
+    feeAmount: BigNumber;
+  };
+}
+
+export interface LogInsuranceFundSet extends ParsedLog {
+  name: 'LogInsuranceFundSet';
+  args: {
+    insuranceFund: address;
+  };
+}
+
+export interface LogInsuranceFeeSet extends ParsedLog {
+  name: 'LogInsuranceFeeSet';
+  args: {
+    insuranceFee: BigNumber;
+  };
+}
+
+// P1SoloBridgeProxy
+
+export interface LogTransferred extends ParsedLog {
+  name: 'LogTransferred';
+  args: {
+    account: address;
+    perpetual: address;
+    soloAccountNumber: BigNumber;
+    soloMarketId: BigNumber;
+    toPerpetual: boolean;
+    amount: BigNumber;
+  };
+}
+
+export interface LogSignatureInvalidated extends ParsedLog {
+  name: 'LogSignatureInvalidated';
+  args: {
+    account: address;
+    transferHash: string;
+  };
+}
+
+// P1FundingOracle and P1InverseFundingOracle
+
+export interface LogFundingRateUpdated extends ParsedLog {
+  name: 'LogFundingRateUpdated';
+  args: {
+    fundingRate: LoggedFundingRate;
+  };
+}
+
+export interface LogFundingRateProviderSet extends ParsedLog {
+  name: 'LogFundingRateProviderSet';
+  args: {
+    fundingRateProvider: address;
+  };
+}
+
+// P1MakerOracle
+
+export interface LogRouteSet extends ParsedLog {
+  name: 'LogRouteSet';
+  args: {
+    sender: address;
+    oracle: address;
+  };
+}
+
+export interface LogAdjustmentSet extends ParsedLog {
+  name: 'LogAdjustmentSet';
+  args: {
+    oracle: address;
+    adjustment: BigNumber;
+  };
+}
+
+// P1MirrorOracle
+
+export interface LogMedianPrice extends ParsedLog {
+  name: 'LogMedianPrice';
+  args: {
+    val: BigNumber;
+    age: BigNumber;
+  };
+}
+
+export interface LogSetSigner extends ParsedLog {
+  name: 'LogSetSigner';
+  args: {
+    signer: address;
+    authorized: boolean;
+  };
+}
+
+export interface LogSetBar extends ParsedLog {
+  name: 'LogSetBar';
+  args: {
+    bar: BigNumber;
+  };
+}
+
+export interface LogSetReader extends ParsedLog {
+  name: 'LogSetReader';
+  args: {
+    reader: address;
+    authorized: boolean;
+  };
+}
+
+export type PerpetualLog =
+  LogIndex |
+  LogAccountSettled |
+  LogDeposit |
+  LogWithdraw |
+  LogTrade |
+  LogWithdrawFinalSettlement |
+  LogSetLocalOperator |
+  LogSetGlobalOperator |
+  LogSetOracle |
+  LogSetFunder |
+  LogSetMinCollateral |
+  LogFinalSettlementEnabled |
+  AdminChanged |
+  Upgraded |
+  OwnershipTransferred |
+  LogOrderCanceled |
+  LogOrderApproved |
+  LogOrderFilled |
+  LogLiquidated |
+  LogDeleveraged |
+  LogMarkedForDeleveraging |
+  LogUnmarkedForDeleveraging |
+  LogDeleveragingOperatorSet |
+  LogConvertedDeposit |
+  LogConvertedWithdrawal |
+  LogLiquidatorProxyUsed |
+  LogInsuranceFundSet |
+  LogInsuranceFeeSet |
+  LogTransferred |
+  LogSignatureInvalidated |
+  LogFundingRateUpdated |
+  LogFundingRateProviderSet |
+  LogRouteSet |
+  LogAdjustmentSet |
+  LogMedianPrice |
+  LogSetSigner |
+  LogSetBar |
+  LogSetReader;
+
+export type PerpetualLogName = PerpetualLog['name'];
+
+export interface GetEventsOptions {
+  fromBlock: number;
+  toBlock?: number; // defaults to the latest block
+  accounts?: address[];
+  eventNames?: PerpetualLogName[];
+  blockWindow?: number; // max number of blocks per eth_getLogs request
+}
+
+export interface SubscribeEventsOptions {
+  fromBlock?: number; // defaults to the block after the latest block
+  accounts?: address[];
+  eventNames?: PerpetualLogName[];
+  blockWindow?: number;
+  pollInterval?: number; // milliseconds
+  reorgDepth?: number; // number of recent blocks re-checked on each poll
+}
+
+export interface PerpetualLogEvent {
+  removed: boolean;
+  log: PerpetualLog;
+}
+
+// ============ Keepers ============
+
+export interface LiquidationKeeperOptions {
+  liquidator: address;
+  dryRun?: boolean;
+  maxConcurrency?: number; // max number of liquidations submitted at once
+  maxGasPrice?: BigNumberable; // skip submitting while the network gas price is higher
+  collateralBuffer?: BaseValue; // required collateralization above the minimum for the liquidator
+  pollInterval?: number; // milliseconds
+  sendOptions?: SendOptions;
+  onError?: (error: Error) => void; // called when a polling iteration fails
+}
+
+export interface LiquidationResult {
+  liquidatee: address;
+  isBuy: boolean;
+  maxPosition: BigNumber;
+  liquidationAmount: BigNumber;
+  txResult?: TxResult;
+  error?: Error;
+  skipped?: boolean; // not submitted, since the gas price was above maxGasPrice
+}
+
+export enum DeleveragingAction {
+  Mark = 'Mark',
+  Unmark = 'Unmark',
+  Deleverage = 'Deleverage',
+}
+
+export interface DeleveragingKeeperOptions {
+  sender: address;
+  dryRun?: boolean;
+  pollInterval?: number; // milliseconds
+  sendOptions?: SendOptions;
+  onError?: (error: Error) => void; // called when a polling iteration fails
+}
+
+export interface DeleveragingAuditEntry {
+  action: DeleveragingAction;
+  account: address;
+  timestamp: number; // unix seconds of the block used to evaluate the account
+  balance: Balance;
+  price: Price;
+  counterparty?: address;
+  amount?: BigNumber;
+  dryRun: boolean;
+  transactionHash?: string;
+  error?: Error;
+}
+
+/**
+ * Provides the premium of the perpetual price over the index price, as a fraction of the index
+ * price, which is paid as funding over eight hours. The premium is measured on the protocol's
+ * oracle price, so a positive premium means that positive positions pay negative positions.
+ */
+export interface FundingPremiumSource {
+  getPremium(): Promise<BaseValue>;
+}
+
+export interface FundingRateUpdaterOptions {
+  fundingRateProvider: address;
+  interval?: number; // milliseconds between updates
+  searchBlockWindow?: number; // blocks per eth_getLogs request when finding the last update
+  sendOptions?: SendOptions;
+  onError?: (error: Error) => void; // called when an update fails before it is sent
+}
+
+export interface FundingRateUpdate {
+  requestedRate: FundingRate; // the rate passed to setFundingRate()
+  predictedRate: FundingRate; // the rate after the contract bounds are applied
+  timestamp: number; // unix seconds used for the prediction
+  rate?: FundingRate; // the rate set on-chain, read from the transaction logs
+  txResult?: TxResult;
+  error?: Error;
+}
@@ -0,0 +1,352 @@
+/*
+
+    Copyright 2020 dYdX Trading Inc.
+
+    Licensed under the Apache License, Version 2.0 (the "License");
+    you may not use this file except in compliance with the License.
+    You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+    Unless required by applicable law or agreed to in writing, software
+    distributed under the License is distributed on an "AS IS" BASIS,
+    WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+    See the License for the specific language governing permissions and
+    limitations under the License.
+
+*/
+
+import {
+  Contract,
+  ContractSendMethod,
+} from 'web3-eth-contract';
+
+import { Contracts } from './Contracts';
+import { getMarketConfig } from '../lib/MarketConfig';
+import {
+  AdminAction,
+  AdminCall,
+  AdminCallSimulation,
+  AdminCallVerification,
+  AdminProposalJson,
+  BaseValue,
+  CallOptions,
+  Fee,
+  Price,
+  address,
+} from '../lib/types';
+
+const PROPOSAL_VERSION = 1;
+
+/**
+ * Builds a batch of admin calls to be executed by a multisig.
+ *
+ * Each call can be simulated against the current state before the proposal is submitted, and the
+ * state of the contracts can be verified against the proposal after it has been executed. The
+ * proposal can be exported as JSON, e.g. to be reviewed by the other signers, and re-imported.
+ */
+export class AdminProposal {
+  private contracts: Contracts;
+  private calls: AdminCall[] = [];
+
+  constructor(
+    contracts: Contracts,
+    json?: AdminProposalJson,
+  ) {
+    this.contracts = contracts;
+    if (json) {
+      this.load(json);
+    }
+  }
+
+  // ============ Builder Functions ============
+
+  public setOracle(
+    oracle: address,
+  ): AdminProposal {
+    return this.addCall(
+      AdminAction.SET_ORACLE,
+      { oracle },
+      `Set the oracle of PerpetualV1 to ${oracle}`,
+    );
+  }
+
+  public setFunder(
+    funder: address,
+  ): AdminProposal {
+    return this.addCall(
+      AdminAction.SET_FUNDER,
+      { funder },
+      `Set the funder of PerpetualV1 to ${funder}`,
+    );
+  }
+
+  public enableFinalSettlement(
+    priceLowerBound: Price,
+    priceUpperBound: Price,
+  ): AdminProposal {
+    const lower = priceLowerBound.value.toFixed();
+    const upper = priceUpperBound.value.toFixed();
+    return this.addCall(
+      AdminAction.ENABLE_FINAL_SETTLEMENT,
+      { priceLowerBound: lower, priceUpperBound: upper },
+      `Enable final settlement of PerpetualV1 if the oracle price is between ${lower} and ${upper}`,
+    );
+  }
+
+  public upgradeToAndCall(
+    newImplementation: address,
+    data: string,
+  ): AdminProposal {
+    return this.addCall(
+      AdminAction.UPGRADE_TO_AND_CALL,
+      { newImplementation, data },
+      `Upgrade PerpetualProxy to ${newImplementation} and call it with ${data}`,
+    );
+  }
+
+  public setInsuranceFee(
+    insuranceFee: BaseValue,
+  ): AdminProposal {
+    const fee = insuranceFee.value.toFixed();
+    return this.addCall(
+      AdminAction.SET_INSURANCE_FEE,
+      { insuranceFee: fee },
+      `Set the insurance fee of P1LiquidatorProxy to ${fee}`,
+    );
+  }
+
+  public setFundingRateProvider(
+    fundingRateProvider: address,
+  ): AdminProposal {
+    return this.addCall(
+      AdminAction.SET_FUNDING_RATE_PROVIDER,
+      { fundingRateProvider },
+      `Set the funding rate provider of the funding oracle to ${fundingRateProvider}`,
+    );
+  }
+
+  public setRoute(
+    sender: address,
+    oracle: address,
+  ): AdminProposal {
+    return this.addCall(
+      AdminAction.SET_ROUTE,
+      { sender, oracle },
+      `Route price requests from ${sender} to the Maker oracle ${oracle}`,
+    );
+  }
+
+  // ============ Proposal Functions ============
+
+  public getCalls(): AdminCall[] {
+    return this.calls.map(call => ({ ...call, args: { ...call.args } }));
+  }
+
+  public toJSON(): AdminProposalJson {
+    return {
+      version: PROPOSAL_VERSION,
+      market: this.contracts.market,
+      networkId: this.contracts.networkId,
+      calls: this.getCalls(),
+    };
+  }
+
+  /**
+   * Simulate each call using `eth_call` from the admin address, against the current state.
+   *
+   * Calls are simulated independently, so a call which depends on an earlier call of the proposal
+   * may fail in simulation but succeed when the proposal is executed.
+   */
+  public async simulate(
+    admin: address,
+    options: CallOptions = {},
+  ): Promise<AdminCallSimulation[]> {
+    return Promise.all(this.calls.map(async (call) => {
+      try {
+        await this.contracts.call(
+          this.getMethod(call.action, call.args),
+          { ...options, from: admin },
+        );
+        return { call, success: true, error: null };
+      } catch (error) {
+        return { call, error, success: false };
+      }
+    }));
+  }
+
+  /**
+   * Check that the state of the contracts reflects each call, e.g. after the proposal has been
+   * executed.
+   */
+  public async verify(
+    options: CallOptions = {},
+  ): Promise<AdminCallVerification[]> {
+    return Promise.all(this.calls.map(async (call) => {
+      const expected = this.getExpectedState(call);
+      const actual = await this.getActualState(call, options);
+      return {
+        call,
+        expected,
+        actual,
+        verified: actual === expected,
+      };
+    }));
+  }
+
+  // ============ Helper Functions ============
+
+  private load(
+    json: AdminProposalJson,
+  ): void {
+    if (json.version !== PROPOSAL_VERSION) {
+      throw new Error(`Unsupported admin proposal version: ${json.version}`);
+    }
+    if (json.market !== this.contracts.market || json.networkId !== this.contracts.networkId) {
+      throw new Error(
+        `Admin proposal is for ${json.market} on network ${json.networkId}, not ` +
+        `${this.contracts.market} on network ${this.contracts.networkId}`,
+      );
+    }
+    json.calls.forEach((call, i) => {
+      const method = this.getMethod(call.action, call.args);
+      const to: address = (method as any)._parent.options.address;
+      if (
+        call.to.toLowerCase() !== to.toLowerCase()
+        || call.data.toLowerCase() !== method.encodeABI().toLowerCase()
+        || call.value !== '0'
+      ) {
+        throw new Error(`Call ${i} of the admin proposal does not match its action and args`);
+      }
+      this.calls.push({ ...call, args: { ...call.args } });
+    });
+  }
+
+  private addCall(
+    action: AdminAction,
+    args: { [name: string]: string },
+    description: string,
+  ): AdminProposal {
+    const method = this.getMethod(action, args);
+    this.calls.push({
+      action,
+      args,
+      description,
+      to: (method as any)._parent.options.address,
+      value: '0',
+      data: method.encodeABI(),
+    });
+    return this;
+  }
+
+  private getMethod(
+    action: AdminAction,
+    args: { [name: string]: string },
+  ): ContractSendMethod {
+    const perpetual = this.contracts.perpetualV1;
+    switch (action) {
+      case AdminAction.SET_ORACLE:
+        return perpetual.methods.setOracle(args.oracle);
+      case AdminAction.SET_FUNDER:
+        return perpetual.methods.setFunder(args.funder);
+      case AdminAction.ENABLE_FINAL_SETTLEMENT:
+        return perpetual.methods.enableFinalSettlement(
+          new Price(args.priceLowerBound).toSolidity(),
+          new Price(args.priceUpperBound).toSolidity(),
+        );
+      case AdminAction.UPGRADE_TO_AND_CALL:
+        return this.contracts.perpetualProxy.methods.upgradeToAndCall(
+          args.newImplementation,
+          args.data,
+        );
+      case AdminAction.SET_INSURANCE_FEE:
+        return this.contracts.p1LiquidatorProxy.methods.setInsuranceFee(
+          new Fee(args.insuranceFee).toSolidity(),
+        );
+      case AdminAction.SET_FUNDING_RATE_PROVIDER:
+        return this.getFundingOracle().methods.setFundingRateProvider(args.fundingRateProvider);
+      case AdminAction.SET_ROUTE:
+        return this.contracts.p1MakerOracle.methods.setRoute(args.sender, args.oracle);
+      default:
+        throw new Error(`Invalid admin action: ${action}`);
+    }
+  }
+
+  private getExpectedState(
+    call: AdminCall,
+  ): string {
+    switch (call.action) {
+      case AdminAction.SET_ORACLE:
+        return call.args.oracle.toLowerCase();
+      case AdminAction.SET_FUNDER:
+        return call.args.funder.toLowerCase();
+      case AdminAction.ENABLE_FINAL_SETTLEMENT:
+        return 'true';
+      case AdminAction.UPGRADE_TO_AND_CALL:
+        return call.args.newImplementation.toLowerCase();
+      case AdminAction.SET_INSURANCE_FEE:
+        return new Fee(call.args.insuranceFee).toSolidity();
+      case AdminAction.SET_FUNDING_RATE_PROVIDER:
+        return call.args.fundingRateProvider.toLowerCase();
+      case AdminAction.SET_ROUTE:
+        return call.args.oracle.toLowerCase();
+      default:
+        throw new Error(`Invalid admin action: ${call.action}`);
+    }
+  }
+
+  private async getActualState(
+    call: AdminCall,
+    options: CallOptions,
+  ): Promise<string> {
+    const perpetual = this.contracts.perpetualV1;
+    let result: string | boolean;
+    switch (call.action) {
+      case AdminAction.SET_ORACLE:
+        result = await this.contracts.call(perpetual.methods.getOracleContract(), options);
+        break;
+      case AdminAction.SET_FUNDER:
+        result = await this.contracts.call(perpetual.methods.getFunderContract(), options);
+        break;
+      case AdminAction.ENABLE_FINAL_SETTLEMENT:
+        result = await this.contracts.call(perpetual.methods.getFinalSettlementEnabled(), options);
+        break;
+      case AdminAction.UPGRADE_TO_AND_CALL: {
+        // The proxy only exposes its implementation to the admin.
+        const admin: address = await this.contracts.call(perpetual.methods.getAdmin(), options);
+        result = await this.contracts.call(
+          this.contracts.perpetualProxy.methods.implementation(),
+          { ...options, from: admin },
+        );
+        break;
+      }
+      case AdminAction.SET_INSURANCE_FEE:
+        result = await this.contracts.call(
+          this.contracts.p1LiquidatorProxy.methods._INSURANCE_FEE_(),
+          options,
+        );
+        break;
+      case AdminAction.SET_FUNDING_RATE_PROVIDER:
+        result = await this.contracts.call(
+          this.getFundingOracle().methods._FUNDING_RATE_PROVIDER_(),
+          options,
+        );
+        break;
+      case AdminAction.SET_ROUTE:
+        result = await this.contracts.call(
+          this.contracts.p1MakerOracle.methods._ROUTER_(call.args.sender),
+          options,
+        );
+        break;
+      default:
+        throw new Error(`Invalid admin action: ${call.action}`);
+    }
+    return `${result}`.toLowerCase();
+  }
+
+  private getFundingOracle(): Contract {
+    return getMarketConfig(this.contracts.market).isInverse
+      ? this.contracts.p1InverseFundingOracle
+      : this.contracts.p1FundingOracle;
+  }
+}
@@ -1,7 +1,20 @@
 import { default as axios } from 'axios';
 import BigNumber from 'bignumber.js';
+import {
+  ApiError,
+  ApiNetworkError,
+  ApiRateLimitError,
+  ApiTimeoutError,
+  apiErrorFromResponse,
+  isRetryableApiError,
+} from '../lib/ApiErrors';
+import { validateFeeSchedule } from '../lib/FeeSchedules';
+import { TokenBucket } from '../lib/TokenBucket';
+import { Units } from '../lib/Units';
 import {
   ApiAccount,
+  ApiFill,
+  ApiFundingPayment,
   ApiFundingRates,
   ApiHistoricalFundingRates,
   ApiIndexPrice,
@@ -9,13 +22,27 @@ import {
   ApiMarketName,
   ApiOptions,
   ApiOrder,
-  ApiOrderOnOrderbook,
+  ApiOrderbook,
+  ApiOrderStatus,
+  ApiOrderType,
+  ApiPaginationParams,
+  ApiRequest,
+  ApiRequestInterceptor,
+  ApiResponse,
+  ApiResponseInterceptor,
+  ApiRetryOptions,
   ApiSide,
+  ApiTrade,
+  ApiTransfer,
+  ApiTransferType,
+  ApiTransport,
   BigNumberable,
   Fee,
+  FeeSchedule,
   Order,
   Price,
   SignedOrder,
+  Signer,
   SigningMethod,
   address,
   RequestMethod,
@@ -25,11 +52,41 @@ import { Orders } from './Orders';
 const FOUR_WEEKS_IN_SECONDS = 60 * 60 * 24 * 28;
 const DEFAULT_API_ENDPOINT = 'https://api.dydx.exchange';
 const DEFAULT_API_TIMEOUT = 10000;
+const DEFAULT_PAGE_SIZE = 100;
+
+const OPEN_ORDER_STATUSES = [
+  ApiOrderStatus.PENDING,
+  ApiOrderStatus.OPEN,
+  ApiOrderStatus.UNTRIGGERED,
+];
+const DEFAULT_RETRY_OPTIONS: ApiRetryOptions = {
+  retries: 2,
+  minDelay: 250,
+  maxDelay: 4000,
+};
+
+interface PerpetualOrderParams {
+  side: ApiSide;
+  amount: BigNumberable;
+  price: BigNumberable;
+  maker: address;
+  taker: address;
+  expiration?: BigNumberable;
+  limitFee?: BigNumberable;
+  salt?: BigNumberable;
+  tradingVolume?: BigNumberable; // used for volume discounts if limitFee is not given
+  humanUnits?: boolean; // amounts and prices are in the human units of the market (see Units)
+}
 
 export class Api {
   private endpoint: String;
   private perpetualOrders: Orders;
   private timeout: number;
+  private transport: ApiTransport;
+  private retryOptions: ApiRetryOptions;
+  private rateLimiter: TokenBucket | null;
+  private requestInterceptors: ApiRequestInterceptor[];
+  private responseInterceptors: ApiResponseInterceptor[];
 
   constructor(
     perpetualOrders: Orders,
@@ -38,6 +95,16 @@ export class Api {
     this.endpoint = apiOptions.endpoint || DEFAULT_API_ENDPOINT;
     this.timeout = apiOptions.timeout || DEFAULT_API_TIMEOUT;
     this.perpetualOrders = perpetualOrders;
+    this.transport = apiOptions.transport || axiosTransport;
+    this.retryOptions = {
+      ...DEFAULT_RETRY_OPTIONS,
+      ...apiOptions.retry,
+    };
+    this.rateLimiter = apiOptions.rateLimit
+      ? new TokenBucket(apiOptions.rateLimit.requestsPerSecond, apiOptions.rateLimit.burst)
+      : null;
+    this.requestInterceptors = apiOptions.requestInterceptors || [];
+    this.responseInterceptors = apiOptions.responseInterceptors || [];
   }
 
   // ============ Managing Orders ============
@@ -52,6 +119,8 @@ export class Api {
       expiration = new BigNumber(FOUR_WEEKS_IN_SECONDS),
       limitFee,
       salt,
+      tradingVolume,
+      humanUnits,
     },
     market,
     fillOrKill,
@@ -59,6 +128,7 @@ export class Api {
     clientId,
     cancelId,
     cancelAmountOnRevert,
+    signer,
   }: {
     order: {
       side: ApiSide,
@@ -66,9 +136,11 @@ export class Api {
       price: BigNumberable,
       maker: address,
       taker: address,
-      expiration: BigNumberable,
+      expiration?: BigNumberable,
       limitFee?: BigNumberable,
       salt?: BigNumberable,
+      tradingVolume?: BigNumberable,
+      humanUnits?: boolean,
     },
     market: ApiMarketName,
     fillOrKill?: boolean,
@@ -76,6 +148,7 @@ export class Api {
     clientId?: string,
     cancelId?: string,
     cancelAmountOnRevert?: boolean,
+    signer?: Signer,
   }): Promise<{ order: ApiOrder }> {
     const order: SignedOrder = await this.createPerpetualOrder({
       market,
@@ -88,6 +161,9 @@ export class Api {
       postOnly,
       limitFee,
       salt,
+      tradingVolume,
+      humanUnits,
+      signer,
     });
 
     return this.submitPerpetualOrder({
@@ -101,6 +177,124 @@ export class Api {
     });
   }
 
+  /**
+   * Places a stop-limit order, which can only be filled once the oracle price reaches the trigger
+   * price. The trigger price is enforced by the orders contract: a buy is triggered when the
+   * oracle price is at or above the trigger price, and a sell when it is at or below.
+   *
+   * Params:
+   * - triggerPrice: Must not have been reached at the current oracle price.
+   * - reduceOnly (optional): Only allow fills which decrease the position of the maker.
+   * - oraclePrice (optional): The current oracle price. Fetched from getMarkets() if not given.
+   *
+   * If order.humanUnits is set, triggerPrice and oraclePrice are also in human units.
+   */
+  public async placeStopLimitOrder({
+    order,
+    market,
+    triggerPrice,
+    reduceOnly = false,
+    oraclePrice,
+    clientId,
+    signer,
+  }: {
+    order: PerpetualOrderParams,
+    market: ApiMarketName,
+    triggerPrice: BigNumberable,
+    reduceOnly?: boolean,
+    oraclePrice?: BigNumberable,
+    clientId?: string,
+    signer?: Signer,
+  }): Promise<{ order: ApiOrder }> {
+    const perpetualOrder: Order = {
+      ...this.buildPerpetualOrder({ ...order, market, postOnly: false }),
+      isDecreaseOnly: reduceOnly,
+      triggerPrice: this.getTriggerPrice(triggerPrice, market, order.humanUnits),
+    };
+    await this.validateTriggerPrice(perpetualOrder, market, oraclePrice, order.humanUnits);
+
+    return this.submitPerpetualOrder({
+      market,
+      clientId,
+      order: await this.signPerpetualOrder(perpetualOrder, signer),
+      orderType: ApiOrderType.PERPETUAL_STOP_LIMIT,
+    });
+  }
+
+  /**
+   * Places a take-profit order: a limit order which can only be filled to decrease the position of
+   * the maker, with a limit price on the profitable side of the current oracle price. A sell must
+   * be priced above the oracle price, and a buy below it.
+   *
+   * Params:
+   * - oraclePrice (optional): The current oracle price. Fetched from getMarkets() if not given.
+   *
+   * If order.humanUnits is set, oraclePrice is also in human units.
+   */
+  public async placeTakeProfitOrder({
+    order,
+    market,
+    oraclePrice,
+    postOnly,
+    clientId,
+    signer,
+  }: {
+    order: PerpetualOrderParams,
+    market: ApiMarketName,
+    oraclePrice?: BigNumberable,
+    postOnly?: boolean,
+    clientId?: string,
+    signer?: Signer,
+  }): Promise<{ order: ApiOrder }> {
+    const perpetualOrder: Order = {
+      ...this.buildPerpetualOrder({ ...order, market, postOnly }),
+      isDecreaseOnly: true,
+    };
+    await this.validateTakeProfitPrice(perpetualOrder, market, oraclePrice, order.humanUnits);
+
+    return this.submitPerpetualOrder({
+      market,
+      postOnly,
+      clientId,
+      order: await this.signPerpetualOrder(perpetualOrder, signer),
+    });
+  }
+
+  /**
+   * Places a limit order which can only be filled to decrease the position of the maker.
+   */
+  public async placeReduceOnlyOrder({
+    order,
+    market,
+    fillOrKill,
+    postOnly,
+    clientId,
+    cancelId,
+    signer,
+  }: {
+    order: PerpetualOrderParams,
+    market: ApiMarketName,
+    fillOrKill?: boolean,
+    postOnly?: boolean,
+    clientId?: string,
+    cancelId?: string,
+    signer?: Signer,
+  }): Promise<{ order: ApiOrder }> {
+    const perpetualOrder: Order = {
+      ...this.buildPerpetualOrder({ ...order, market, postOnly }),
+      isDecreaseOnly: true,
+    };
+
+    return this.submitPerpetualOrder({
+      market,
+      fillOrKill,
+      postOnly,
+      clientId,
+      cancelId,
+      order: await this.signPerpetualOrder(perpetualOrder, signer),
+    });
+  }
+
   /**
    * Creates but does not place a signed perpetualOrder
    */
@@ -115,6 +309,9 @@ export class Api {
     postOnly,
     limitFee,
     salt,
+    tradingVolume,
+    humanUnits,
+    signer,
   }: {
     market: ApiMarketName,
     side: ApiSide,
@@ -126,42 +323,25 @@ export class Api {
     postOnly: boolean,
     limitFee?: BigNumberable,
     salt?: BigNumberable,
+    tradingVolume?: BigNumberable,
+    humanUnits?: boolean,
+    signer?: Signer,
   }): Promise<SignedOrder> {
-    if (!Object.values(ApiMarketName).includes(market)) {
-      throw new Error(`market: ${market} is invalid`);
-    }
-    if (!Object.values(ApiSide).includes(side)) {
-      throw new Error(`side: ${side} is invalid`);
-    }
-
-    const amountNumber: BigNumber = new BigNumber(amount);
-    const perpetualLimitFee: Fee = limitFee
-      ? new Fee(limitFee)
-      : this.perpetualOrders.getFeeForOrder(amountNumber, !postOnly);
-
-    const realExpiration: BigNumber = getRealExpiration(expiration);
-    const order: Order = {
+    const order: Order = this.buildPerpetualOrder({
+      market,
+      side,
+      amount,
+      price,
       maker,
       taker,
-      limitFee: perpetualLimitFee,
-      isBuy: side === ApiSide.BUY,
-      isDecreaseOnly: false,
-      amount: amountNumber,
-      limitPrice: new Price(price),
-      triggerPrice: new Price('0'),
-      expiration: realExpiration,
-      salt: salt ? new BigNumber(salt) : generatePseudoRandom256BitNumber(),
-    };
-
-    const typedSignature: string = await this.perpetualOrders.signOrder(
-      order,
-      SigningMethod.Hash,
-    );
-
-    return {
-      ...order,
-      typedSignature,
-    };
+      expiration,
+      postOnly,
+      limitFee,
+      salt,
+      tradingVolume,
+      humanUnits,
+    });
+    return this.signPerpetualOrder(order, signer);
   }
 
   /**
@@ -175,6 +355,7 @@ export class Api {
     cancelId,
     clientId,
     cancelAmountOnRevert,
+    orderType,
   }: {
     order: SignedOrder,
     market: ApiMarketName,
@@ -183,6 +364,7 @@ export class Api {
     cancelId?: string,
     clientId?: string,
     cancelAmountOnRevert?: boolean,
+    orderType?: ApiOrderType,
   }): Promise<{ order: ApiOrder }> {
     const jsonOrder = jsonifyPerpetualOrder(order);
 
@@ -193,10 +375,11 @@ export class Api {
       cancelId,
       cancelAmountOnRevert,
       market,
+      orderType,
       order: jsonOrder,
     };
 
-    return this.axiosRequest({
+    return this.request({
       data,
       method: RequestMethod.POST,
       url: `${this.endpoint}/v2/orders`,
@@ -206,17 +389,20 @@ export class Api {
   public async cancelOrder({
     orderId,
     maker,
+    signer,
   }: {
     orderId: string,
     maker: address,
+    signer?: Signer,
   }): Promise<{ order: ApiOrder }> {
     const signature = await this.perpetualOrders.signCancelOrderByHash(
       orderId,
       maker,
       SigningMethod.Hash,
+      signer,
     );
 
-    return this.axiosRequest({
+    return this.request({
       url: `${this.endpoint}/v2/orders/${orderId}`,
       method: RequestMethod.DELETE,
       headers: {
@@ -225,11 +411,272 @@ export class Api {
     });
   }
 
+  /**
+   * Cancels several orders with a single signature.
+   *
+   * The orders are canceled by one DELETE request to /v2/orders, with the order hashes in the body
+   * and the signature of all of them as the bearer token. Unlike the cancelation of a single order
+   * (see cancelOrder), this request is not part of the public v2 API, and requires an endpoint
+   * which accepts it.
+   *
+   * Params:
+   * - orderIds: The hashes of the orders to cancel. The maker of every order must be the same,
+   *   and every order must be in the market of the Orders module of this instance, since the
+   *   signature is made with the EIP-712 domain of its contract.
+   */
+  public async cancelOrders({
+    orderIds,
+    maker,
+    signer,
+  }: {
+    orderIds: string[],
+    maker: address,
+    signer?: Signer,
+  }): Promise<{ orders: ApiOrder[] }> {
+    const signature = await this.perpetualOrders.signCancelOrders(
+      orderIds,
+      maker,
+      SigningMethod.Hash,
+      signer,
+    );
+
+    return this.request({
+      url: `${this.endpoint}/v2/orders`,
+      method: RequestMethod.DELETE,
+      headers: {
+        authorization: `Bearer ${signature}`,
+      },
+      data: { orderIds },
+    });
+  }
+
+  /**
+   * Cancels all open orders of a maker in a market with a single signature, using cancelOrders.
+   *
+   * Params:
+   * - market: The market of the orders, which must be the market of the Orders module of this
+   *   instance. Orders in other markets are signed for with the domain of a different contract.
+   * - side (optional): Only cancel orders on this side of the book.
+   */
+  public async cancelAllOrders({
+    market,
+    side,
+    maker,
+    signer,
+  }: {
+    market: ApiMarketName,
+    side?: ApiSide,
+    maker: address,
+    signer?: Signer,
+  }): Promise<{ orders: ApiOrder[] }> {
+    const orders: ApiOrder[] = [];
+    const openOrders = this.iterateOrders({
+      market,
+      side,
+      accountOwner: maker,
+      status: OPEN_ORDER_STATUSES,
+    });
+    for await (const order of openOrders) {
+      orders.push(order);
+    }
+    if (orders.length === 0) {
+      return { orders: [] };
+    }
+    return this.cancelOrders({
+      maker,
+      signer,
+      orderIds: orders.map(order => order.id),
+    });
+  }
+
   // ============ Getters ============
 
+  /**
+   * Get the orders of an account. The most recently created orders are returned first.
+   *
+   * Params:
+   * - market (optional): Limit results to the specified market.
+   * - side (optional): Limit results to the specified side of the book.
+   * - status (optional): Limit results to orders with one of the specified statuses.
+   * - limit (optional): The maximum number of orders. The default, and maximum, is 100.
+   * - startingBefore (optional): Return orders created before this date.
+   */
+  public async getOrders({
+    accountOwner,
+    market,
+    side,
+    status,
+    limit,
+    startingBefore,
+  }: {
+    accountOwner: address,
+    market?: ApiMarketName,
+    side?: ApiSide,
+    status?: ApiOrderStatus[],
+  } & ApiPaginationParams): Promise<{ orders: ApiOrder[] }> {
+    return this.request({
+      url: `${this.endpoint}/v2/orders`,
+      method: RequestMethod.GET,
+      params: {
+        accountOwner,
+        market,
+        side,
+        status,
+        limit,
+        startingBefore: startingBefore && startingBefore.toISOString(),
+      },
+    });
+  }
+
+  /**
+   * Get all orders of an account, one page at a time.
+   */
+  public iterateOrders(
+    params: {
+      accountOwner: address,
+      market?: ApiMarketName,
+      side?: ApiSide,
+      status?: ApiOrderStatus[],
+    } & ApiPaginationParams,
+  ): AsyncIterableIterator<ApiOrder> {
+    return this.paginate(
+      params,
+      async pageParams => (await this.getOrders({ ...params, ...pageParams })).orders,
+    );
+  }
+
+  /**
+   * Get the orders of an account which are pending, open or untriggered.
+   */
+  public async getOpenOrders({
+    accountOwner,
+    market,
+    side,
+  }: {
+    accountOwner: address,
+    market?: ApiMarketName,
+    side?: ApiSide,
+  }): Promise<{ orders: ApiOrder[] }> {
+    return this.getOrders({
+      accountOwner,
+      market,
+      side,
+      status: OPEN_ORDER_STATUSES,
+    });
+  }
+
+  public async getOrder({
+    orderId,
+  }: {
+    orderId: string,
+  }): Promise<{ order: ApiOrder }> {
+    return this.request({
+      url: `${this.endpoint}/v2/orders/${orderId}`,
+      method: RequestMethod.GET,
+    });
+  }
+
+  /**
+   * Get an order by the clientId it was placed with.
+   */
+  public async getOrderByClientId({
+    clientId,
+    accountOwner,
+  }: {
+    clientId: string,
+    accountOwner: address,
+  }): Promise<{ order: ApiOrder }> {
+    return this.request({
+      url: `${this.endpoint}/v2/orders/client/${clientId}`,
+      method: RequestMethod.GET,
+      params: { accountOwner },
+    });
+  }
+
+  /**
+   * Get the fills of an account. The most recent fills are returned first.
+   *
+   * Params:
+   * - market (optional): Limit results to the specified market.
+   * - orderId (optional): Limit results to fills of the specified order.
+   * - limit (optional): The maximum number of fills. The default, and maximum, is 100.
+   * - startingBefore (optional): Return fills created before this date.
+   */
+  public async getFills({
+    accountOwner,
+    market,
+    orderId,
+    limit,
+    startingBefore,
+  }: {
+    accountOwner: address,
+    market?: ApiMarketName,
+    orderId?: string,
+  } & ApiPaginationParams): Promise<{ fills: ApiFill[] }> {
+    return this.request({
+      url: `${this.endpoint}/v2/fills`,
+      method: RequestMethod.GET,
+      params: {
+        accountOwner,
+        market,
+        orderId,
+        limit,
+        startingBefore: startingBefore && startingBefore.toISOString(),
+      },
+    });
+  }
+
+  public iterateFills(
+    params: {
+      accountOwner: address,
+      market?: ApiMarketName,
+      orderId?: string,
+    } & ApiPaginationParams,
+  ): AsyncIterableIterator<ApiFill> {
+    return this.paginate(
+      params,
+      async pageParams => (await this.getFills({ ...params, ...pageParams })).fills,
+    );
+  }
+
+  /**
+   * Get the trades in a market. The most recent trades are returned first.
+   *
+   * Params:
+   * - limit (optional): The maximum number of trades. The default, and maximum, is 100.
+   * - startingBefore (optional): Return trades created before this date.
+   */
+  public async getTrades({
+    market,
+    limit,
+    startingBefore,
+  }: {
+    market: ApiMarketName,
+  } & ApiPaginationParams): Promise<{ trades: ApiTrade[] }> {
+    return this.request({
+      url: `${this.endpoint}/v1/trades/${market}`,
+      method: RequestMethod.GET,
+      params: {
+        limit,
+        startingBefore: startingBefore && startingBefore.toISOString(),
+      },
+    });
+  }
+
+  public iterateTrades(
+    params: {
+      market: ApiMarketName,
+    } & ApiPaginationParams,
+  ): AsyncIterableIterator<ApiTrade> {
+    return this.paginate(
+      params,
+      async pageParams => (await this.getTrades({ ...params, ...pageParams })).trades,
+    );
+  }
+
   public async getMarkets():
     Promise<{ markets: ApiMarketMessage[] }> {
-    return this.axiosRequest({
+    return this.request({
       url: `${this.endpoint}/v1/perpetual-markets`,
       method: RequestMethod.GET,
     });
@@ -240,7 +687,7 @@ export class Api {
   }: {
     accountOwner: address,
   }): Promise<ApiAccount> {
-    return this.axiosRequest({
+    return this.request({
       url: `${this.endpoint}/v1/perpetual-accounts/${accountOwner}`,
       method: RequestMethod.GET,
     });
@@ -250,13 +697,73 @@ export class Api {
     market,
   }: {
     market: ApiMarketName,
-  }): Promise<{ bids: ApiOrderOnOrderbook[], asks: ApiOrderOnOrderbook[] }> {
-    return this.axiosRequest({
+  }): Promise<ApiOrderbook> {
+    return this.request({
       url: `${this.endpoint}/v1/orderbook/${market}`,
       method: RequestMethod.GET,
     });
   }
 
+  /**
+   * Get the fee schedule of a market from GET /v1/fee-schedules/:market, which responds with
+   * { feeSchedule }. The schedule is validated, and can be passed to Orders.setFeeSchedule().
+   */
+  public async getFeeSchedule({
+    market,
+  }: {
+    market: ApiMarketName,
+  }): Promise<FeeSchedule> {
+    const { feeSchedule }: { feeSchedule: FeeSchedule } = await this.request({
+      url: `${this.endpoint}/v1/fee-schedules/${market}`,
+      method: RequestMethod.GET,
+    });
+    if (!feeSchedule) {
+      throw new Error(`No fee schedule was returned for ${market}`);
+    }
+    validateFeeSchedule(feeSchedule, market);
+    return feeSchedule;
+  }
+
+  /**
+   * Get the deposits and withdrawals of an account. The most recent transfers are returned first.
+   *
+   * Params:
+   * - type (optional): Limit results to deposits or withdrawals.
+   * - limit (optional): The maximum number of transfers. The default, and maximum, is 100.
+   * - startingBefore (optional): Return transfers created before this date.
+   */
+  public async getTransfers({
+    accountOwner,
+    type,
+    limit,
+    startingBefore,
+  }: {
+    accountOwner: address,
+    type?: ApiTransferType,
+  } & ApiPaginationParams): Promise<{ transfers: ApiTransfer[] }> {
+    return this.request({
+      url: `${this.endpoint}/v1/perpetual-accounts/${accountOwner}/transfers`,
+      method: RequestMethod.GET,
+      params: {
+        type,
+        limit,
+        startingBefore: startingBefore && startingBefore.toISOString(),
+      },
+    });
+  }
+
+  public iterateTransfers(
+    params: {
+      accountOwner: address,
+      type?: ApiTransferType,
+    } & ApiPaginationParams,
+  ): AsyncIterableIterator<ApiTransfer> {
+    return this.paginate(
+      params,
+      async pageParams => (await this.getTransfers({ ...params, ...pageParams })).transfers,
+    );
+  }
+
   // ============ Funding Getters ============
 
   /**
@@ -278,7 +785,7 @@ export class Api {
   }: {
     markets?: ApiMarketName[],
   } = {}): Promise<{ [market: string]: ApiFundingRates }> {
-    return this.axiosRequest({
+    return this.request({
       url: `${this.endpoint}/v1/funding-rates`,
       method: RequestMethod.GET,
       params: { markets },
@@ -302,7 +809,7 @@ export class Api {
     limit?: number,
     startingBefore?: Date,
   } = {}): Promise<{ [market: string]: ApiHistoricalFundingRates }> {
-    return this.axiosRequest({
+    return this.request({
       url: `${this.endpoint}/v1/historical-funding-rates`,
       method: RequestMethod.GET,
       params: {
@@ -324,14 +831,248 @@ export class Api {
   }: {
     markets?: ApiMarketName[],
   } = {}): Promise<{ [market: string]: ApiIndexPrice }> {
-    return this.axiosRequest({
+    return this.request({
       url: `${this.endpoint}/v1/index-price`,
       method: RequestMethod.GET,
       params: { markets },
     });
   }
 
-  private async axiosRequest(
+  /**
+   * Get the funding payments settled by an account. The most recent payments are returned first.
+   *
+   * Params:
+   * - market (optional): Limit results to the specified market.
+   * - limit (optional): The maximum number of payments. The default, and maximum, is 100.
+   * - startingBefore (optional): Return payments created before this date.
+   */
+  public async getFundingPayments({
+    accountOwner,
+    market,
+    limit,
+    startingBefore,
+  }: {
+    accountOwner: address,
+    market?: ApiMarketName,
+  } & ApiPaginationParams): Promise<{ fundingPayments: ApiFundingPayment[] }> {
+    return this.request({
+      url: `${this.endpoint}/v1/perpetual-accounts/${accountOwner}/funding-payments`,
+      method: RequestMethod.GET,
+      params: {
+        market,
+        limit,
+        startingBefore: startingBefore && startingBefore.toISOString(),
+      },
+    });
+  }
+
+  public iterateFundingPayments(
+    params: {
+      accountOwner: address,
+      market?: ApiMarketName,
+    } & ApiPaginationParams,
+  ): AsyncIterableIterator<ApiFundingPayment> {
+    return this.paginate(
+      params,
+      async pageParams => (
+        await this.getFundingPayments({ ...params, ...pageParams })
+      ).fundingPayments,
+    );
+  }
+
+  // ============ Helper Functions ============
+
+  /**
+   * Iterate over the results of a paginated endpoint, starting with the most recent.
+   *
+   * Each page starts just after the creation time of the last result of the previous page, so that
+   * results created at the same time are not skipped, and the results already returned are
+   * filtered out. Throws if a page contains no new results, i.e. if at least `limit` results were
+   * created at the same time.
+   */
+  private async *paginate<T extends { uuid: string, createdAt: string }>(
+    {
+      limit = DEFAULT_PAGE_SIZE,
+      startingBefore,
+    }: ApiPaginationParams,
+    getPage: (pageParams: ApiPaginationParams) => Promise<T[]>,
+  ): AsyncIterableIterator<T> {
+    let pageStartingBefore = startingBefore;
+    let returnedUuids = new Set<string>();
+
+    while (true) {
+      const page = await getPage({ limit, startingBefore: pageStartingBefore });
+      const results = page.filter(result => !returnedUuids.has(result.uuid));
+      for (const result of results) {
+        yield result;
+      }
+
+      if (page.length < limit) {
+        return;
+      }
+
+      // A full page of results which have all been returned would be returned again.
+      if (results.length === 0) {
+        throw new Error(
+          `Cannot paginate past ${page[page.length - 1].createdAt}, since at least ${limit} ` +
+          'results were created at that time. Use a larger limit',
+        );
+      }
+
+      const lastCreatedAt = new Date(page[page.length - 1].createdAt).getTime();
+      pageStartingBefore = new Date(lastCreatedAt + 1);
+      returnedUuids = new Set(
+        page
+          .filter(result => new Date(result.createdAt).getTime() === lastCreatedAt)
+          .map(result => result.uuid),
+      );
+    }
+  }
+
+  private buildPerpetualOrder({
+    market,
+    side,
+    amount,
+    price,
+    maker,
+    taker,
+    expiration = new BigNumber(FOUR_WEEKS_IN_SECONDS),
+    postOnly,
+    limitFee,
+    salt,
+    tradingVolume,
+    humanUnits,
+  }: PerpetualOrderParams & {
+    market: ApiMarketName,
+    postOnly: boolean,
+  }): Order {
+    const units = new Units(market);
+    if (!Object.values(ApiSide).includes(side)) {
+      throw new Error(`side: ${side} is invalid`);
+    }
+
+    const amountNumber: BigNumber = humanUnits ? units.toAmount(amount) : new BigNumber(amount);
+    const perpetualLimitFee: Fee = limitFee
+      ? new Fee(limitFee)
+      : this.perpetualOrders.getFeeForOrder(
+        amountNumber,
+        !postOnly,
+        humanUnits && tradingVolume !== undefined ? units.toAmount(tradingVolume) : tradingVolume,
+      );
+
+    const realExpiration: BigNumber = getRealExpiration(expiration);
+    return {
+      maker,
+      taker,
+      limitFee: perpetualLimitFee,
+      isBuy: side === ApiSide.BUY,
+      isDecreaseOnly: false,
+      amount: amountNumber,
+      limitPrice: humanUnits ? units.toPrice(price) : new Price(price),
+      triggerPrice: new Price('0'),
+      expiration: realExpiration,
+      salt: salt ? new BigNumber(salt) : generatePseudoRandom256BitNumber(),
+    };
+  }
+
+  private async signPerpetualOrder(
+    order: Order,
+    signer?: Signer,
+  ): Promise<SignedOrder> {
+    const typedSignature: string = await this.perpetualOrders.signOrder(
+      order,
+      SigningMethod.Hash,
+      signer,
+    );
+
+    return {
+      ...order,
+      typedSignature,
+    };
+  }
+
+  private getTriggerPrice(
+    triggerPrice: BigNumberable,
+    market: ApiMarketName,
+    humanUnits?: boolean,
+  ): Price {
+    const price = humanUnits ? new Units(market).toPrice(triggerPrice) : new Price(triggerPrice);
+    if (!price.value.gt(0)) {
+      throw new Error(`triggerPrice: ${price.value.toFixed()} must be positive`);
+    }
+    return price;
+  }
+
+  /**
+   * Throws if the trigger price of the order has already been reached at the oracle price.
+   */
+  private async validateTriggerPrice(
+    order: Order,
+    market: ApiMarketName,
+    oraclePrice?: BigNumberable,
+    humanUnits?: boolean,
+  ): Promise<void> {
+    const currentPrice = await this.getCurrentPrice(market, oraclePrice, humanUnits);
+    if (this.perpetualOrders.isTriggerPriceReached(order, currentPrice)) {
+      throw new Error(
+        `triggerPrice: ${order.triggerPrice.value.toFixed()} has already been reached at ` +
+        `the oracle price ${currentPrice.value.toFixed()}`,
+      );
+    }
+  }
+
+  /**
+   * Throws unless the limit price of the order is on the profitable side of the oracle price: above
+   * it for a sell, and below it for a buy.
+   */
+  private async validateTakeProfitPrice(
+    order: Order,
+    market: ApiMarketName,
+    oraclePrice?: BigNumberable,
+    humanUnits?: boolean,
+  ): Promise<void> {
+    const currentPrice = await this.getCurrentPrice(market, oraclePrice, humanUnits);
+    const limitPrice = order.limitPrice.value;
+    if (order.isBuy ? limitPrice.gte(currentPrice.value) : limitPrice.lte(currentPrice.value)) {
+      throw new Error(
+        `price: ${limitPrice.toFixed()} must be ${order.isBuy ? 'below' : 'above'} the oracle ` +
+        `price ${currentPrice.value.toFixed()} for a take-profit ${order.isBuy ? 'buy' : 'sell'}`,
+      );
+    }
+  }
+
+  /**
+   * Get the oracle price in the units of the contracts, from the given price if any.
+   */
+  private async getCurrentPrice(
+    market: ApiMarketName,
+    oraclePrice?: BigNumberable,
+    humanUnits?: boolean,
+  ): Promise<Price> {
+    // The API returns the oracle price in human units.
+    const units = new Units(market);
+    if (oraclePrice === undefined) {
+      return units.toPrice(await this.getOraclePrice(market));
+    }
+    return humanUnits ? units.toPrice(oraclePrice) : new Price(oraclePrice);
+  }
+
+  private async getOraclePrice(
+    market: ApiMarketName,
+  ): Promise<string> {
+    const { markets } = await this.getMarkets();
+    const marketMessage = markets.find(m => m.market === market);
+    if (!marketMessage) {
+      throw new Error(`market: ${market} was not returned by the API`);
+    }
+    return marketMessage.oraclePrice;
+  }
+
+  /**
+   * Send a request and return the body of the response. GET requests are retried according to
+   * the retry options. Throws an ApiError if the request fails.
+   */
+  private async request(
     {
       url,
       method,
@@ -345,26 +1086,99 @@ export class Api {
       data?: any,
       params?: any,
     }): Promise<any> {
+    const request: ApiRequest = {
+      url,
+      method,
+      headers,
+      data,
+      params,
+      timeout: this.timeout,
+    };
+    const retries = method === RequestMethod.GET ? this.retryOptions.retries : 0;
+
+    for (let attempt = 0; ; attempt += 1) {
+      try {
+        return await this.send(request);
+      } catch (error) {
+        if (attempt >= retries || !isRetryableApiError(error)) {
+          throw error;
+        }
+        await new Promise(resolve => setTimeout(resolve, this.getRetryDelay(attempt, error)));
+      }
+    }
+  }
+
+  private async send(
+    originalRequest: ApiRequest,
+  ): Promise<any> {
+    if (this.rateLimiter) {
+      await this.rateLimiter.take();
+    }
+
+    let request = originalRequest;
+    for (const interceptor of this.requestInterceptors) {
+      request = await interceptor(request);
+    }
+
+    let response: ApiResponse;
     try {
-      const response = await axios({
-        url,
-        method,
-        headers,
-        data,
-        params,
-        timeout: this.timeout,
-      });
-
-      return response.data;
+      response = await this.transport(request);
     } catch (error) {
-      if (error.response) {
-        throw new Error(error.response.data.errors[0].msg);
-      } else {
-        const newError = new Error(error.message);
-        newError.stack = error.stack;
-        throw new Error;
+      if (error instanceof ApiError) {
+        throw error;
       }
+      const newError = new ApiNetworkError(error.message);
+      newError.stack = error.stack;
+      throw newError;
+    }
+
+    for (const interceptor of this.responseInterceptors) {
+      response = await interceptor(response, request);
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+      throw apiErrorFromResponse(response);
     }
+    return response.data;
+  }
+
+  /**
+   * Get the delay before retrying, using exponential backoff with full jitter. If the server
+   * asked to wait for longer, its delay is used instead.
+   */
+  private getRetryDelay(
+    attempt: number,
+    error: ApiError,
+  ): number {
+    const { minDelay, maxDelay } = this.retryOptions;
+    const delay = Math.random() * Math.min(maxDelay, minDelay * (2 ** attempt));
+    const retryAfter = (error as ApiRateLimitError).retryAfter;
+    return retryAfter ? Math.max(delay, retryAfter) : delay;
+  }
+}
+
+/**
+ * Send requests with axios.
+ */
+async function axiosTransport(
+  request: ApiRequest,
+): Promise<ApiResponse> {
+  try {
+    const response = await axios({
+      ...request,
+      validateStatus: () => true,
+    });
+    return {
+      status: response.status,
+      data: response.data,
+      headers: response.headers,
+    };
+  } catch (error) {
+    const newError = error.code === 'ECONNABORTED'
+      ? new ApiTimeoutError(error.message)
+      : new ApiNetworkError(error.message);
+    newError.stack = error.stack;
+    throw newError;
   }
 }
 
@@ -17,6 +17,7 @@
 */
 
 import _ from 'lodash';
+import BigNumber from 'bignumber.js';
 import Web3 from 'web3';
 import {
   PromiEvent,
@@ -27,16 +28,25 @@ import {
   Contract,
 } from 'web3-eth-contract';
 import {
+  BigNumberable,
   CallOptions,
   ConfirmationType,
+  FeeStrategy,
   NativeSendOptions,
   PerpetualMarket,
   Provider,
   SendOptions,
   TxOptions,
   TxResult,
+  UnsignedTransaction,
   address,
 } from '../lib/types';
+import {
+  parseRevertError,
+  PerpetualRevertError,
+} from '../lib/RevertErrors';
+import { sendEip1559Transaction } from '../lib/TransactionHelper';
+import { TxManager } from './TxManager';
 
 // JSON
 import perpetualProxyJson from '../../build/contracts/PerpetualProxy.json';
@@ -59,6 +69,9 @@ import erc20Json from '../../build/contracts/ERC20.json';
 import makerOracleJson from '../../build/contracts/I_MakerOracle.json';
 import wethJson from '../../build/contracts/WETH9.json';
 
+const FEE_OPTIONS = ['gasPrice', 'maxFeePerGas', 'maxPriorityFeePerGas'];
+const RECEIPT_POLL_INTERVAL_MS = 1000;
+
 enum OUTCOMES {
   INITIAL = 0,
   RESOLVED = 1,
@@ -82,6 +95,7 @@ export class Contracts {
   private _cumulativeGasUsed: number = 0;
   private _gasUsedByFunction: { name: string, gasUsed: number }[] = [];
   private _countGasUsage: boolean = false;
+  private txManager: TxManager | null = null;
 
   protected web3: Web3;
 
@@ -192,6 +206,15 @@ export class Contracts {
     );
   }
 
+  /**
+   * Send transactions through a TxManager, unless a nonce is given in the send options.
+   */
+  public setTxManager(
+    txManager: TxManager | null,
+  ): void {
+    this.txManager = txManager;
+  }
+
   public setDefaultAccount(
     account: address,
   ): void {
@@ -211,18 +234,53 @@ export class Contracts {
       ...this.defaultOptions,
       ...specificOptions,
     });
-    return (method as any).call(otherOptions, blockNumber || 'latest');
+    try {
+      return await (method as any).call(
+        otherOptions,
+        _.isNil(blockNumber) ? 'latest' : blockNumber,
+      );
+    } catch (error) {
+      throw parseRevertError(error, method);
+    }
+  }
+
+  /**
+   * Make several calls using a single JSON-RPC batch request. Results are returned in the same
+   * order as the methods.
+   */
+  public async callBatch(
+    methods: ContractSendMethod[],
+    specificOptions: CallOptions = {},
+  ): Promise<any[]> {
+    if (methods.length === 0) {
+      return [];
+    }
+    const {
+      blockNumber,
+      ...otherOptions
+    } = this.toCallOptions({
+      ...this.defaultOptions,
+      ...specificOptions,
+    });
+    const batch = new this.web3.BatchRequest();
+    const results = methods.map(method => new Promise((resolve, reject) => {
+      batch.add((method as any).call.request(
+        otherOptions,
+        _.isNil(blockNumber) ? 'latest' : blockNumber,
+        (error: Error, result: any) => (
+          error ? reject(parseRevertError(error, method)) : resolve(result)
+        ),
+      ));
+    }));
+    batch.execute();
+    return Promise.all(results);
   }
 
   public async send(
     method: ContractSendMethod,
     specificOptions: SendOptions = {},
   ): Promise<TxResult> {
-    const sendOptions: SendOptions = {
-      ...this.defaultOptions,
-      ...specificOptions,
-    };
-
+    const sendOptions = this.getSendOptions(specificOptions);
     const result = await this._send(method, sendOptions);
 
     if (
@@ -245,6 +303,81 @@ export class Contracts {
     return result;
   }
 
+  /**
+   * Build an unsigned transaction for a contract method, e.g. to sign it with a cold wallet and
+   * submit it using sendSignedTransaction. The gas, fees and nonce are filled in unless given. If
+   * no fees are given and there is no fee strategy, the gas price of the node is used.
+   */
+  public async buildTransaction(
+    method: ContractSendMethod,
+    specificOptions: SendOptions = {},
+  ): Promise<UnsignedTransaction> {
+    const {
+      gasMultiplier,
+      feeStrategy,
+      ...txOptions
+    } = this.getSendOptions(specificOptions);
+    const contract: Contract = (method as any)._parent;
+    const from: address = txOptions.from || contract.options.from;
+    if (!from) {
+      throw new Error('A from address is required to build a transaction');
+    }
+
+    if (!txOptions.gas) {
+      const gasEstimate = await this.estimateGas(method, { ...txOptions, from });
+      txOptions.gas = Math.floor(gasEstimate * gasMultiplier);
+    }
+    await this.setFees(txOptions, feeStrategy);
+    if (!hasFees(txOptions)) {
+      // Unlike web3 when sending, a signer does not fill in the gas price.
+      txOptions.gasPrice = await this.web3.eth.getGasPrice();
+    }
+    const nonce = txOptions.nonce === undefined
+      ? await this.web3.eth.getTransactionCount(from, 'pending')
+      : Number(txOptions.nonce);
+    const chainId = await this.web3.eth.getChainId();
+
+    return _.omitBy(
+      {
+        from,
+        nonce,
+        chainId,
+        to: contract.options.address,
+        data: method.encodeABI(),
+        value: new BigNumber(txOptions.value || 0).toFixed(0),
+        gas: Number(txOptions.gas),
+        gasPrice: toOptionalString(txOptions.gasPrice),
+        maxFeePerGas: toOptionalString(txOptions.maxFeePerGas),
+        maxPriorityFeePerGas: toOptionalString(txOptions.maxPriorityFeePerGas),
+      },
+      _.isUndefined,
+    ) as UnsignedTransaction;
+  }
+
+  /**
+   * Submit a transaction signed outside of web3, e.g. one built using buildTransaction. The
+   * confirmationType and confirmations options are handled the same way as in send.
+   */
+  public async sendSignedTransaction(
+    rawTransaction: string,
+    specificOptions: SendOptions = {},
+  ): Promise<TxResult> {
+    const {
+      confirmations,
+      confirmationType,
+    } = this.getSendOptions(specificOptions);
+
+    if (
+      !Object.values(ConfirmationType).includes(confirmationType)
+      || confirmationType === ConfirmationType.Simulate
+    ) {
+      throw new Error(`Invalid confirmation type: ${confirmationType}`);
+    }
+
+    const promi = this.web3.eth.sendSignedTransaction(rawTransaction);
+    return this.handlePromiEvent(promi, confirmationType, confirmations);
+  }
+
   // ============ Helper Functions ============
 
   protected addContract(
@@ -282,6 +415,7 @@ export class Contracts {
       confirmations,
       confirmationType,
       gasMultiplier,
+      feeStrategy,
       ...txOptions
     } = sendOptions;
 
@@ -301,8 +435,40 @@ export class Contracts {
       }
     }
 
+    await this.setFees(txOptions, feeStrategy);
+
+    if (this.txManager && txOptions.nonce === undefined) {
+      if (!hasFees(txOptions)) {
+        // The TxManager needs a gas price to send and to bump, which web3 would otherwise fill in.
+        txOptions.gasPrice = await this.web3.eth.getGasPrice();
+      }
+      return this.sendWithTxManager(method, txOptions, confirmationType, confirmations);
+    }
+    if (txOptions.maxFeePerGas !== undefined || txOptions.maxPriorityFeePerGas !== undefined) {
+      return this.sendEip1559(method, txOptions, confirmationType, confirmations);
+    }
+
     const promi: PromiEvent<Contract> = method.send(this.toNativeSendOptions(txOptions) as any);
+    return this.handlePromiEvent(
+      promi,
+      confirmationType,
+      confirmations,
+      txOptions.gasPrice,
+      method,
+    );
+  }
 
+  /**
+   * Wait for the transaction hash and/or the receipt of a sent transaction, depending on the
+   * confirmation type.
+   */
+  private async handlePromiEvent(
+    promi: PromiEvent<any>,
+    confirmationType: ConfirmationType,
+    confirmations: number,
+    gasPrice?: BigNumberable,
+    method?: ContractSendMethod,
+  ): Promise<TxResult> {
     let hashOutcome = OUTCOMES.INITIAL;
     let confirmationOutcome = OUTCOMES.INITIAL;
 
@@ -319,7 +485,7 @@ export class Contracts {
           promi.on('error', (error: Error) => {
             if (hashOutcome === OUTCOMES.INITIAL) {
               hashOutcome = OUTCOMES.REJECTED;
-              reject(error);
+              reject(parseRevertError(error, method));
               (promi as any).off();
             }
           });
@@ -342,7 +508,7 @@ export class Contracts {
       ConfirmationType.Confirmed,
       ConfirmationType.Both,
     ].includes(confirmationType)) {
-      confirmationPromise = new Promise(
+      confirmationPromise = new Promise<TransactionReceipt>(
         (resolve, reject) => {
           promi.on('error', (error: Error) => {
             if (
@@ -353,7 +519,7 @@ export class Contracts {
               )
             ) {
               confirmationOutcome = OUTCOMES.REJECTED;
-              reject(error);
+              reject(parseRevertError(error, method));
               (promi as any).off();
             }
           });
@@ -376,7 +542,7 @@ export class Contracts {
             });
           }
         },
-      );
+      ).then(receipt => this.addEffectiveGasPrice(receipt, gasPrice));
     }
 
     if (confirmationType === ConfirmationType.Hash) {
@@ -393,6 +559,170 @@ export class Contracts {
     });
   }
 
+  private async sendWithTxManager(
+    method: ContractSendMethod,
+    txOptions: NativeSendOptions,
+    confirmationType: ConfirmationType,
+    confirmations: number,
+  ): Promise<TxResult> {
+    const contract: Contract = (method as any)._parent;
+    const tx = await this.txManager.send({
+      from: txOptions.from || contract.options.from,
+      to: contract.options.address,
+      data: method.encodeABI(),
+      value: txOptions.value,
+      gas: Number(txOptions.gas),
+      gasPrice: txOptions.gasPrice,
+      maxFeePerGas: txOptions.maxFeePerGas,
+      maxPriorityFeePerGas: txOptions.maxPriorityFeePerGas,
+    });
+    const transactionHash = _.last(tx.transactionHashes);
+
+    if (confirmationType === ConfirmationType.Hash) {
+      return { transactionHash, nonce: tx.nonce };
+    }
+
+    // The transaction may have been replaced with a higher gas price.
+    const confirmation = this.txManager.waitForReceipt(tx, confirmations)
+      .then((receipt) => {
+        if (!receipt.status) {
+          throw new PerpetualRevertError('Transaction has been reverted by the EVM', null, method);
+        }
+        return this.addEffectiveGasPrice(receipt);
+      });
+    if (confirmationType === ConfirmationType.Confirmed) {
+      return confirmation;
+    }
+
+    return {
+      transactionHash,
+      confirmation,
+      nonce: tx.nonce,
+    };
+  }
+
+  /**
+   * Send a transaction with EIP-1559 fees, which web3 cannot send, and poll for its receipt.
+   */
+  private async sendEip1559(
+    method: ContractSendMethod,
+    txOptions: NativeSendOptions,
+    confirmationType: ConfirmationType,
+    confirmations: number,
+  ): Promise<TxResult> {
+    if (txOptions.maxFeePerGas === undefined || txOptions.maxPriorityFeePerGas === undefined) {
+      throw new Error('maxFeePerGas and maxPriorityFeePerGas must be given together');
+    }
+    const contract: Contract = (method as any)._parent;
+    let transactionHash: string;
+    try {
+      transactionHash = await sendEip1559Transaction(this.web3, {
+        from: txOptions.from || contract.options.from,
+        to: contract.options.address,
+        data: method.encodeABI(),
+        value: txOptions.value,
+        gas: txOptions.gas,
+        nonce: txOptions.nonce,
+        maxFeePerGas: txOptions.maxFeePerGas,
+        maxPriorityFeePerGas: txOptions.maxPriorityFeePerGas,
+      });
+    } catch (error) {
+      throw parseRevertError(error, method);
+    }
+
+    if (confirmationType === ConfirmationType.Hash) {
+      return { transactionHash };
+    }
+
+    const confirmation = this.waitForReceipt(transactionHash, confirmations)
+      .then((receipt) => {
+        if (!receipt.status) {
+          throw new PerpetualRevertError('Transaction has been reverted by the EVM', null, method);
+        }
+        return this.addEffectiveGasPrice(receipt);
+      });
+    if (confirmationType === ConfirmationType.Confirmed) {
+      return confirmation;
+    }
+
+    return {
+      transactionHash,
+      confirmation,
+    };
+  }
+
+  private async waitForReceipt(
+    transactionHash: string,
+    confirmations: number = 0,
+  ): Promise<TransactionReceipt> {
+    const sleep = () => new Promise(resolve => setTimeout(resolve, RECEIPT_POLL_INTERVAL_MS));
+    let receipt: TransactionReceipt = await this.web3.eth.getTransactionReceipt(transactionHash);
+    while (!receipt) {
+      await sleep();
+      receipt = await this.web3.eth.getTransactionReceipt(transactionHash);
+    }
+    while (await this.web3.eth.getBlockNumber() - receipt.blockNumber < confirmations) {
+      await sleep();
+    }
+    return receipt;
+  }
+
+  private getSendOptions(
+    specificOptions: SendOptions,
+  ): SendOptions {
+    const sendOptions: SendOptions = {
+      ...this.defaultOptions,
+      ...specificOptions,
+    };
+
+    // Fees given for this transaction take precedence over the fee strategy, which takes precedence
+    // over the default fees.
+    if (hasFees(specificOptions) || sendOptions.feeStrategy) {
+      FEE_OPTIONS.forEach((key) => {
+        if (specificOptions[key] === undefined) {
+          delete sendOptions[key];
+        }
+      });
+    }
+    if (hasFees(specificOptions)) {
+      delete sendOptions.feeStrategy;
+    }
+    return sendOptions;
+  }
+
+  /**
+   * Use the fees of the fee strategy, if any, and send an EIP-1559 transaction if any EIP-1559
+   * fees are set.
+   */
+  private async setFees(
+    txOptions: NativeSendOptions,
+    feeStrategy?: FeeStrategy,
+  ): Promise<void> {
+    if (feeStrategy) {
+      Object.assign(txOptions, await feeStrategy.getFees());
+    }
+    if (txOptions.maxFeePerGas !== undefined || txOptions.maxPriorityFeePerGas !== undefined) {
+      delete txOptions.gasPrice;
+    }
+  }
+
+  /**
+   * Report the effectiveGasPrice of the receipt, or the gas price of the transaction on networks
+   * without EIP-1559.
+   */
+  private async addEffectiveGasPrice(
+    receipt: TransactionReceipt,
+    gasPrice?: BigNumberable,
+  ): Promise<TransactionReceipt> {
+    const effectiveGasPrice = (receipt as any).effectiveGasPrice
+      || gasPrice
+      || (await this.web3.eth.getTransaction(receipt.transactionHash)).gasPrice;
+    return {
+      ...receipt,
+      effectiveGasPrice: new BigNumber(effectiveGasPrice).toFixed(0),
+    } as TransactionReceipt;
+  }
+
   private async estimateGas(
     method: ContractSendMethod,
     txOptions: SendOptions,
@@ -407,7 +737,7 @@ export class Contracts {
         data: method.encodeABI(),
         to: (method as any)._parent._address,
       };
-      throw error;
+      throw parseRevertError(error, method);
     }
   }
 
@@ -463,3 +793,15 @@ export class Contracts {
     return txResult;
   }
 }
+
+function toOptionalString(
+  value?: BigNumberable,
+): string | undefined {
+  return value === undefined || value === null ? undefined : new BigNumber(value).toFixed(0);
+}
+
+function hasFees(
+  options: NativeSendOptions,
+): boolean {
+  return FEE_OPTIONS.some(key => options[key] !== undefined && options[key] !== null);
+}
@@ -105,6 +105,20 @@ export class Deleveraging {
     );
   }
 
+  /**
+   * Get the timestamp at which an account was marked for deleveraging, or zero if it is not marked.
+   */
+  public async getMarkedTimestamp(
+    account: address,
+    options?: CallOptions,
+  ): Promise<number> {
+    const timestamp: string = await this.contracts.call(
+      this.deleveraging.methods._MARKED_TIMESTAMP_(account),
+      options,
+    );
+    return Number.parseInt(timestamp, 10);
+  }
+
   // ============ State-Changing Functions ============
 
   public async mark(
@@ -0,0 +1,372 @@
+import BigNumber from 'bignumber.js';
+import _ from 'lodash';
+
+import { Perpetual } from '../Perpetual';
+import { addressesAreEqual } from '../lib/BytesHelper';
+import {
+  Balance,
+  DeleveragingAction,
+  DeleveragingAuditEntry,
+  DeleveragingKeeperOptions,
+  Price,
+  SendOptions,
+  TxResult,
+  address,
+} from '../lib/types';
+
+const DEFAULT_POLL_INTERVAL_MS = 60000;
+
+interface Counterparty {
+  account: address;
+  balance: Balance;
+  collateralization: BigNumber;
+}
+
+/**
+ * Runs the deleveraging process for a set of tracked accounts.
+ *
+ * Underwater accounts are marked, and accounts which are no longer underwater are unmarked. Once
+ * an account has been marked for the timelock period, it is deleveraged against tracked accounts
+ * holding opposite positions. Counterparties are ranked by collateralization, so that the most
+ * profitable, least leveraged positions are used first. If the sender is the privileged
+ * deleveraging operator, accounts are deleveraged without marking.
+ *
+ * Every mark, unmark, and deleverage is recorded in the audit log.
+ */
+export class DeleveragingKeeper {
+  private perpetual: Perpetual;
+  private options: DeleveragingKeeperOptions;
+  private accounts: Set<address> = new Set();
+  private markedTimestamps: { [account: string]: number } = {};
+  private auditLog: DeleveragingAuditEntry[] = [];
+  private running: boolean = false;
+
+  constructor(
+    perpetual: Perpetual,
+    options: DeleveragingKeeperOptions,
+  ) {
+    this.perpetual = perpetual;
+    this.options = {
+      dryRun: false,
+      pollInterval: DEFAULT_POLL_INTERVAL_MS,
+      ...options,
+    };
+  }
+
+  // ============ Getters ============
+
+  public getAccounts(): address[] {
+    return Array.from(this.accounts);
+  }
+
+  public getAuditLog(): DeleveragingAuditEntry[] {
+    return this.auditLog.slice();
+  }
+
+  /**
+   * Get the timestamp at which an account was marked for deleveraging, or null if not marked.
+   */
+  public getMarkedTimestamp(
+    account: address,
+  ): number | null {
+    const timestamp = this.markedTimestamps[account.toLowerCase()];
+    return _.isNil(timestamp) ? null : timestamp;
+  }
+
+  /**
+   * Mirrors P1Deleveraging._isAccountUnderwater(). Note that the contract uses the account
+   * balance without applying unsettled funding.
+   */
+  public isUnderwater(
+    balance: Balance,
+    price: Price,
+  ): boolean {
+    const { positiveValue, negativeValue } = balance.getPositiveAndNegativeValues(price);
+    return positiveValue.lt(negativeValue);
+  }
+
+  // ============ Tracking ============
+
+  public addAccounts(accounts: address[]): void {
+    for (const account of accounts) {
+      this.accounts.add(account.toLowerCase());
+    }
+  }
+
+  public removeAccounts(accounts: address[]): void {
+    for (const account of accounts) {
+      this.accounts.delete(account.toLowerCase());
+    }
+  }
+
+  /**
+   * Track the accounts from balance-updating events, and the mark timestamps from
+   * LogMarkedForDeleveraging and LogUnmarkedForDeleveraging events, in a block range.
+   */
+  public async sync(
+    fromBlock: number,
+    toBlock?: number,
+  ): Promise<void> {
+    const logs = await this.perpetual.logs.getEvents({
+      fromBlock,
+      toBlock,
+      eventNames: [
+        'LogTrade',
+        'LogDeposit',
+        'LogMarkedForDeleveraging',
+        'LogUnmarkedForDeleveraging',
+      ],
+    });
+    for (const log of logs) {
+      switch (log.name) {
+        case 'LogMarkedForDeleveraging':
+          this.markedTimestamps[log.args.account.toLowerCase()] = (
+            await this.getBlockTimestamp(log.blockNumber)
+          );
+          break;
+        case 'LogUnmarkedForDeleveraging':
+          delete this.markedTimestamps[log.args.account.toLowerCase()];
+          break;
+        default:
+          this.addAccounts(this.perpetual.logs.getBalanceUpdateAccounts(log));
+      }
+    }
+  }
+
+  // ============ Process ============
+
+  /**
+   * Evaluate every tracked account once, marking, unmarking, and deleveraging as needed. Returns
+   * the audit log entries created during this run.
+   *
+   * The mark timestamps are read from the contract first, so that accounts marked before the keeper
+   * started, or outside of the synced blocks, are not marked again. Marking again would restart
+   * the timelock.
+   */
+  public async run(): Promise<DeleveragingAuditEntry[]> {
+    const blockNumber = await this.perpetual.web3.eth.getBlockNumber();
+    const callOptions = { blockNumber };
+    const accounts = this.getAccounts();
+    const [
+      timestamp,
+      price,
+      timelockSeconds,
+      operator,
+      balances,
+      markedTimestamps,
+    ] = await Promise.all([
+      this.getBlockTimestamp(blockNumber),
+      this.perpetual.getters.getOraclePrice(callOptions),
+      this.perpetual.deleveraging.getDeleveragingTimelockSeconds(callOptions),
+      this.perpetual.deleveraging.getDeleveragingOperator(callOptions),
+      Promise.all(accounts.map(a => this.perpetual.getters.getAccountBalance(a, callOptions))),
+      Promise.all(
+        accounts.map(a => this.perpetual.deleveraging.getMarkedTimestamp(a, callOptions)),
+      ),
+    ]);
+    const balanceByAccount = _.zipObject(accounts, balances);
+    accounts.forEach((account, i) => {
+      if (markedTimestamps[i] === 0) {
+        delete this.markedTimestamps[account];
+      } else {
+        this.markedTimestamps[account] = markedTimestamps[i];
+      }
+    });
+    const isOperator = addressesAreEqual(operator, this.options.sender);
+
+    const entries: DeleveragingAuditEntry[] = [];
+    for (const account of accounts) {
+      const balance = balanceByAccount[account];
+      const underwater = this.isUnderwater(balance, price);
+      const markedTimestamp = this.getMarkedTimestamp(account);
+      const base = { account, timestamp, balance, price };
+
+      if (!underwater) {
+        if (markedTimestamp !== null) {
+          entries.push(await this.unmark(base));
+        }
+        continue;
+      }
+
+      if (!isOperator && markedTimestamp === null) {
+        entries.push(await this.mark(base));
+        continue;
+      }
+
+      if (isOperator || timestamp - markedTimestamp >= timelockSeconds) {
+        const counterparties = this.getCounterparties(account, balanceByAccount, price);
+        entries.push(...await this.deleverage(base, counterparties));
+      }
+    }
+
+    this.auditLog.push(...entries);
+    return entries;
+  }
+
+  /**
+   * Run the process on a fixed interval until stop() is called. Errors are reported through the
+   * onError option, and the block range which failed to sync is retried on the next interval.
+   */
+  public async start(
+    fromBlock?: number,
+  ): Promise<void> {
+    let nextBlock = _.isNil(fromBlock) ? null : fromBlock;
+    this.running = true;
+    while (this.running) {
+      try {
+        const latestBlock = await this.perpetual.web3.eth.getBlockNumber();
+        if (nextBlock !== null && latestBlock >= nextBlock) {
+          await this.sync(nextBlock, latestBlock);
+        }
+        nextBlock = latestBlock + 1;
+        await this.run();
+      } catch (error) {
+        if (this.options.onError) {
+          this.options.onError(error);
+        }
+      }
+      await new Promise(resolve => setTimeout(resolve, this.options.pollInterval));
+    }
+  }
+
+  public stop(): void {
+    this.running = false;
+  }
+
+  // ============ Helper Functions ============
+
+  private async mark(
+    base: Pick<DeleveragingAuditEntry, 'account' | 'timestamp' | 'balance' | 'price'>,
+  ): Promise<DeleveragingAuditEntry> {
+    return this.execute(
+      { ...base, action: DeleveragingAction.Mark },
+      () => this.perpetual.deleveraging.mark(base.account, this.getSendOptions()),
+      async (txResult: TxResult) => {
+        // The timelock starts at the timestamp of the block including the mark transaction.
+        this.markedTimestamps[base.account] = _.isNil(txResult.blockNumber)
+          ? base.timestamp
+          : await this.getBlockTimestamp(txResult.blockNumber);
+      },
+    );
+  }
+
+  private async unmark(
+    base: Pick<DeleveragingAuditEntry, 'account' | 'timestamp' | 'balance' | 'price'>,
+  ): Promise<DeleveragingAuditEntry> {
+    return this.execute(
+      { ...base, action: DeleveragingAction.Unmark },
+      () => this.perpetual.deleveraging.unmark(base.account, this.getSendOptions()),
+      async () => {
+        delete this.markedTimestamps[base.account];
+      },
+    );
+  }
+
+  /**
+   * Deleverage an account against the given counterparties, in order, until its position is
+   * fully offset.
+   *
+   * Each trade is submitted in its own transaction, since P1Deleveraging rejects a trade that
+   * follows any other trade in the same transaction. Stops at the first failed transaction.
+   */
+  private async deleverage(
+    base: Pick<DeleveragingAuditEntry, 'account' | 'timestamp' | 'balance' | 'price'>,
+    counterparties: Counterparty[],
+  ): Promise<DeleveragingAuditEntry[]> {
+    const isBuy = base.balance.position.isPositive();
+    const entries: DeleveragingAuditEntry[] = [];
+
+    let remaining = base.balance.position.abs();
+    for (const counterparty of counterparties) {
+      if (remaining.isZero()) {
+        break;
+      }
+      const amount = BigNumber.min(remaining, counterparty.balance.position.abs());
+      const entry = await this.execute(
+        {
+          ...base,
+          amount,
+          action: DeleveragingAction.Deleverage,
+          counterparty: counterparty.account,
+        },
+        () => this.perpetual.trade.initiate()
+          .deleverage(base.account, counterparty.account, amount, isBuy, false)
+          .commit(this.getSendOptions()),
+        async () => {},
+      );
+      entries.push(entry);
+      if (entry.error) {
+        return entries;
+      }
+      remaining = remaining.minus(amount);
+    }
+
+    if (remaining.isZero() && !this.options.dryRun) {
+      // The contract unmarks accounts which are fully deleveraged.
+      delete this.markedTimestamps[base.account];
+    }
+    return entries;
+  }
+
+  /**
+   * Get the tracked accounts which can take on the opposite side of an account's position,
+   * ranked by collateralization, highest first.
+   */
+  private getCounterparties(
+    account: address,
+    balanceByAccount: { [account: string]: Balance },
+    price: Price,
+  ): Counterparty[] {
+    const makerIsPositive = balanceByAccount[account].position.isPositive();
+    const counterparties: Counterparty[] = [];
+    for (const [other, balance] of Object.entries(balanceByAccount)) {
+      if (
+        other === account ||
+        balance.position.isZero() ||
+        balance.position.isPositive() === makerIsPositive ||
+        this.isUnderwater(balance, price)
+      ) {
+        continue;
+      }
+      counterparties.push({
+        balance,
+        account: other,
+        collateralization: balance.getCollateralization(price),
+      });
+    }
+    return _.orderBy(counterparties, c => c.collateralization.toNumber(), 'desc');
+  }
+
+  private async execute(
+    entry: Omit<DeleveragingAuditEntry, 'dryRun'>,
+    send: () => Promise<TxResult>,
+    onSuccess: (txResult: TxResult) => Promise<void>,
+  ): Promise<DeleveragingAuditEntry> {
+    const result: DeleveragingAuditEntry = { ...entry, dryRun: this.options.dryRun };
+    if (this.options.dryRun) {
+      return result;
+    }
+    try {
+      const txResult = await send();
+      result.transactionHash = txResult.transactionHash;
+      await onSuccess(txResult);
+    } catch (error) {
+      result.error = error;
+    }
+    return result;
+  }
+
+  private async getBlockTimestamp(
+    blockNumber: number,
+  ): Promise<number> {
+    const block = await this.perpetual.web3.eth.getBlock(blockNumber);
+    return Number(block.timestamp);
+  }
+
+  private getSendOptions(): SendOptions {
+    return {
+      from: this.options.sender,
+      ...this.options.sendOptions,
+    };
+  }
+}
@@ -0,0 +1,225 @@
+import BigNumber from 'bignumber.js';
+import _ from 'lodash';
+
+import { Perpetual } from '../Perpetual';
+import { addressesAreEqual } from '../lib/BytesHelper';
+import {
+  BaseValue,
+  FundingPremiumSource,
+  FundingRate,
+  FundingRateBounds,
+  FundingRateUpdate,
+  FundingRateUpdaterOptions,
+  LoggedFundingRate,
+  SendOptions,
+} from '../lib/types';
+
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+const DEFAULT_SEARCH_BLOCK_WINDOW = 10000;
+
+/**
+ * Computes funding rates from a premium source and posts them to the funding oracle.
+ *
+ * The rate is bounded exactly as P1FundingOracle._boundRate() bounds it, so that the predicted
+ * rate equals the rate that is set on-chain when the transaction is mined at the predicted
+ * timestamp.
+ *
+ * The inverse funding oracle flips the sign of the stored rate when funding is applied. On inverse
+ * markets the rate is therefore negated before it is posted, so that a positive premium always
+ * means that positive positions pay negative positions. All rates returned by this class are the
+ * rates as stored by the contract.
+ */
+export class FundingRateUpdater {
+  private perpetual: Perpetual;
+  private source: FundingPremiumSource;
+  private options: FundingRateUpdaterOptions;
+  private lastUpdate: LoggedFundingRate | null = null;
+  private lastSearchedBlock: number | null = null;
+  private running: boolean = false;
+
+  constructor(
+    perpetual: Perpetual,
+    source: FundingPremiumSource,
+    options: FundingRateUpdaterOptions,
+  ) {
+    this.perpetual = perpetual;
+    this.source = source;
+    this.options = {
+      interval: DEFAULT_INTERVAL_MS,
+      searchBlockWindow: DEFAULT_SEARCH_BLOCK_WINDOW,
+      ...options,
+    };
+  }
+
+  // ============ Getters ============
+
+  /**
+   * Get the rate to pass to setFundingRate() for a premium, before the contract bounds apply.
+   */
+  public getRequestedRate(
+    premium: BaseValue,
+  ): FundingRate {
+    const rate = FundingRate.fromEightHourRate(premium.value);
+    return this.perpetual.isInverse() ? new FundingRate(rate.value.negated()) : rate;
+  }
+
+  /**
+   * Get the funding rate most recently set on the funding oracle, and the timestamp at which it
+   * was set, from LogFundingRateUpdated events. The oracle emits this event when it is deployed,
+   * so an update will always be found.
+   */
+  public async getLastUpdate(): Promise<LoggedFundingRate> {
+    const latestBlock = await this.perpetual.web3.eth.getBlockNumber();
+    const oldestBlock = this.lastSearchedBlock === null ? 0 : this.lastSearchedBlock + 1;
+
+    // Search backwards from the latest block until an update is found.
+    let toBlock = latestBlock;
+    while (toBlock >= oldestBlock) {
+      const fromBlock = Math.max(toBlock - this.options.searchBlockWindow + 1, oldestBlock);
+      const logs = this.perpetual.logs.filterLogs(
+        await this.perpetual.logs.getEvents({
+          fromBlock,
+          toBlock,
+          eventNames: ['LogFundingRateUpdated'],
+        }),
+        'LogFundingRateUpdated',
+      ).filter(log => addressesAreEqual(log.address, this.perpetual.fundingOracle.address));
+      if (logs.length > 0) {
+        this.lastUpdate = _.last(logs).args.fundingRate;
+        break;
+      }
+      toBlock = fromBlock - 1;
+    }
+
+    if (this.lastUpdate === null) {
+      throw new Error('No LogFundingRateUpdated event was found for the funding oracle');
+    }
+    this.lastSearchedBlock = latestBlock;
+    return this.lastUpdate;
+  }
+
+  /**
+   * Mirrors P1FundingOracle._boundRate(). The new rate may differ from the last rate by at most
+   * maxAbsDiffPerSecond for every second since the last update, and its absolute value may be at
+   * most maxAbsValue.
+   */
+  public boundRate(
+    newRate: FundingRate,
+    lastUpdate: LoggedFundingRate,
+    timestamp: number,
+    bounds: FundingRateBounds,
+  ): FundingRate {
+    // Round the new rate in the same way as it is converted when passed to the contract.
+    const rate = BaseValue.fromSolidity(newRate.toSolidity(), newRate.isPositive()).value;
+    const oldRate = lastUpdate.baseValue.value;
+    const timeDelta = new BigNumber(timestamp).minus(lastUpdate.timestamp);
+    if (timeDelta.isNegative()) {
+      throw new Error('The timestamp must not be before the timestamp of the last update');
+    }
+    const maxDiff = bounds.maxAbsDiffPerSecond.value.times(timeDelta);
+    const maxAbsValue = bounds.maxAbsValue.value;
+
+    if (rate.gt(oldRate)) {
+      const upperBound = BigNumber.min(oldRate.plus(maxDiff), maxAbsValue);
+      return new FundingRate(BigNumber.min(rate, upperBound));
+    }
+    const lowerBound = BigNumber.max(oldRate.minus(maxDiff), maxAbsValue.negated());
+    return new FundingRate(BigNumber.max(rate, lowerBound));
+  }
+
+  /**
+   * Predict the rate that the contract will set if setFundingRate() is called with the given
+   * rate in a block with the given timestamp. Defaults to the timestamp of the latest block.
+   */
+  public async predictRate(
+    rate: FundingRate,
+    timestamp?: number,
+  ): Promise<FundingRate> {
+    const [lastUpdate, bounds, blockTimestamp] = await Promise.all([
+      this.getLastUpdate(),
+      this.perpetual.fundingOracle.getBounds(),
+      _.isNil(timestamp) ? this.getLatestBlockTimestamp() : Promise.resolve(timestamp),
+    ]);
+    return this.boundRate(rate, lastUpdate, blockTimestamp, bounds);
+  }
+
+  // ============ Updates ============
+
+  /**
+   * Read the premium from the source, and post the resulting rate to the funding oracle.
+   */
+  public async update(): Promise<FundingRateUpdate> {
+    const premium = await this.source.getPremium();
+    const requestedRate = this.getRequestedRate(premium);
+    const timestamp = await this.getLatestBlockTimestamp();
+    const predictedRate = await this.predictRate(requestedRate, timestamp);
+    const result: FundingRateUpdate = { requestedRate, predictedRate, timestamp };
+
+    try {
+      result.txResult = await this.perpetual.fundingOracle.setFundingRate(
+        requestedRate,
+        this.getSendOptions(),
+      );
+    } catch (error) {
+      result.error = error;
+      return result;
+    }
+
+    const logs = this.perpetual.logs.filterLogs(
+      this.perpetual.logs.parseLogs(result.txResult),
+      'LogFundingRateUpdated',
+    );
+    if (logs.length > 0) {
+      this.lastUpdate = logs[0].args.fundingRate;
+      this.lastSearchedBlock = result.txResult.blockNumber;
+      result.rate = new FundingRate(this.lastUpdate.baseValue.value);
+    }
+    return result;
+  }
+
+  /**
+   * Post an update at the start of every interval until stop() is called. Errors are reported
+   * through the onError option, and the next update is posted at the start of the next interval.
+   */
+  public async start(
+    onUpdate?: (update: FundingRateUpdate) => void,
+  ): Promise<void> {
+    const { interval } = this.options;
+    this.running = true;
+    while (this.running) {
+      const delay = interval - (Date.now() % interval);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      if (!this.running) {
+        break;
+      }
+      try {
+        const update = await this.update();
+        if (onUpdate) {
+          onUpdate(update);
+        }
+      } catch (error) {
+        if (this.options.onError) {
+          this.options.onError(error);
+        }
+      }
+    }
+  }
+
+  public stop(): void {
+    this.running = false;
+  }
+
+  // ============ Helper Functions ============
+
+  private async getLatestBlockTimestamp(): Promise<number> {
+    const block = await this.perpetual.web3.eth.getBlock('latest');
+    return Number(block.timestamp);
+  }
+
+  private getSendOptions(): SendOptions {
+    return {
+      from: this.options.fundingRateProvider,
+      ...this.options.sendOptions,
+    };
+  }
+}
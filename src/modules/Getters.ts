@@ -17,26 +17,43 @@
 */
 
 import BigNumber from 'bignumber.js';
+import _ from 'lodash';
+import Web3 from 'web3';
 import { Contracts } from './Contracts';
+import { FundingOracle } from './FundingOracle';
+import { Logs } from './Logs';
 import {
   address,
   Balance,
   BaseValue,
   CallOptions,
+  FundingPayment,
+  FundingProjection,
+  GetEventsOptions,
   Index,
   Price,
   PosAndNegValues,
+  ProjectFundingOptions,
 } from '../lib/types';
 import { Contract } from 'web3-eth-contract';
 
+// Max number of accounts whose state is read in a single batch request.
+const ACCOUNT_BATCH_SIZE = 250;
+
 export class Getters {
   private contracts: Contracts;
+  private web3: Web3;
+  private logs: Logs;
   private perpetual: Contract;
 
   constructor(
     contracts: Contracts,
+    web3: Web3,
+    logs: Logs,
   ) {
     this.contracts = contracts;
+    this.web3 = web3;
+    this.logs = logs;
     this.perpetual = this.contracts.perpetualV1;
   }
 
@@ -55,15 +72,31 @@ export class Getters {
     // Calculate the unsettled interest.
     const globalIndex: Index = await this.getGlobalIndex(options);
     const localIndex: Index = await this.getAccountIndex(account, options);
-    const indexDiff: BaseValue = globalIndex.baseValue.minus(localIndex.baseValue.value);
-    const interest: BigNumber = indexDiff.times(balance.position.negated()).value;
-
-    // Follow P1Settlement rounding rules: round debits up and credits down.
-    const roundedInterest: BigNumber = interest.integerValue(BigNumber.ROUND_FLOOR);
+    return this.applyUnsettledInterest(balance, localIndex, globalIndex);
+  }
 
-    // Return the current balance with interest applied.
-    const netMargin = balance.margin.plus(roundedInterest);
-    return new Balance(netMargin, balance.position);
+  /**
+   * Get the margin and position for each of several accounts, taking into account unsettled
+   * interest.
+   *
+   * The global index is read once, and the account balances and indexes are read using batch
+   * requests. All values are read as of the same block.
+   */
+  public async getNetAccountBalances(
+    accounts: address[],
+    options?: CallOptions,
+  ): Promise<Balance[]> {
+    const blockOptions = await this.withBlockNumber(options);
+    const [
+      globalIndex,
+      accountStates,
+    ] = await Promise.all([
+      this.getGlobalIndex(blockOptions),
+      this.getAccountStates(accounts, blockOptions),
+    ]);
+    return accountStates.map(
+      ({ balance, index }) => this.applyUnsettledInterest(balance, index, globalIndex),
+    );
   }
 
   public async getNetAccountValues(
@@ -108,6 +141,122 @@ export class Getters {
     return collateralization.lt(minCollateralization.value);
   }
 
+  /**
+   * Get the subset of the given accounts which are undercollateralized, taking into account
+   * unsettled interest.
+   *
+   * The global index, oracle price, and minimum collateralization are read once, and all values
+   * are read as of the same block.
+   */
+  public async getLiquidatableAccounts(
+    accounts: address[],
+    options?: CallOptions,
+  ): Promise<address[]> {
+    const blockOptions = await this.withBlockNumber(options);
+    const [
+      balances,
+      price,
+      minCollateralization,
+    ] = await Promise.all([
+      this.getNetAccountBalances(accounts, blockOptions),
+      this.getOraclePrice(blockOptions),
+      this.getMinCollateral(blockOptions),
+    ]);
+    return accounts.filter(
+      (_account, i) => balances[i].getCollateralization(price).lt(minCollateralization.value),
+    );
+  }
+
+  // ============ Funding Getters ============
+
+  /**
+   * Project the funding that an account will pay or receive if it holds its current position
+   * until a given time and is then settled.
+   *
+   * The global index is projected by applying the funding from the funder contract (or the given
+   * per-second rate) over the time since the last index update, following the rounding rules of
+   * P1Settlement. The projection includes any funding which is already unsettled, and assumes that
+   * the oracle price does not change.
+   */
+  public async projectFunding(
+    account: address,
+    { until, rate }: ProjectFundingOptions,
+    options?: CallOptions,
+  ): Promise<FundingProjection> {
+    const blockOptions = await this.withBlockNumber(options);
+    const [
+      balance,
+      localIndex,
+      globalIndex,
+      price,
+    ] = await Promise.all([
+      this.getAccountBalance(account, blockOptions),
+      this.getAccountIndex(account, blockOptions),
+      this.getGlobalIndex(blockOptions),
+      this.getOraclePrice(blockOptions),
+    ]);
+
+    const timeDelta = new BigNumber(until).minus(globalIndex.timestamp);
+    if (timeDelta.isNegative()) {
+      throw new Error('Cannot project funding to before the last update of the global index');
+    }
+
+    let index = globalIndex;
+    if (timeDelta.gt(0)) {
+      const funding = _.isNil(rate)
+        ? await this.getFunderFunding(timeDelta, blockOptions)
+        : rate.times(timeDelta).roundedDown();
+
+      // Follow P1Settlement rounding rules: the funding is multiplied by the price, rounding down.
+      const indexDiff = funding.abs().times(price.value).roundedDown();
+      index = {
+        timestamp: new BigNumber(until),
+        baseValue: funding.isNegative()
+          ? globalIndex.baseValue.minus(indexDiff.value)
+          : globalIndex.baseValue.plus(indexDiff.value),
+      };
+    }
+
+    // The contract does not settle an account whose index was already updated at this timestamp.
+    const projectedBalance = localIndex.timestamp.eq(index.timestamp)
+      ? balance
+      : this.applyUnsettledInterest(balance, localIndex, index);
+    return {
+      index,
+      marginChange: projectedBalance.margin.minus(balance.margin),
+      balance: projectedBalance,
+    };
+  }
+
+  /**
+   * Get the funding that was settled for an account in a block range, from LogAccountSettled
+   * events.
+   */
+  public async getFundingHistory(
+    account: address,
+    options: Pick<GetEventsOptions, 'fromBlock' | 'toBlock' | 'blockWindow'>,
+  ): Promise<FundingPayment[]> {
+    const logs = this.logs.filterLogs(
+      await this.logs.getEvents({
+        ...options,
+        accounts: [account],
+        eventNames: ['LogAccountSettled'],
+      }),
+      'LogAccountSettled',
+    );
+    const blockNumbers = _.uniq(logs.map(log => log.blockNumber));
+    const blocks = await Promise.all(blockNumbers.map(b => this.web3.eth.getBlock(b)));
+    const timestamps = _.zipObject(blockNumbers, blocks.map(block => Number(block.timestamp)));
+
+    return logs.map(log => ({
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      timestamp: timestamps[log.blockNumber],
+      amount: log.args.isPositive ? log.args.amount : log.args.amount.negated(),
+      balance: log.args.balance,
+    }));
+  }
+
   // ============ Account Getters ============
 
   public async getAccountBalance(
@@ -258,6 +407,71 @@ export class Getters {
 
   // ============ Helper Functions ============
 
+  private applyUnsettledInterest(
+    balance: Balance,
+    localIndex: Index,
+    globalIndex: Index,
+  ): Balance {
+    const indexDiff: BaseValue = globalIndex.baseValue.minus(localIndex.baseValue.value);
+    const interest: BigNumber = indexDiff.times(balance.position.negated()).value;
+
+    // Follow P1Settlement rounding rules: round debits up and credits down.
+    const roundedInterest: BigNumber = interest.integerValue(BigNumber.ROUND_FLOOR);
+
+    // Return the current balance with interest applied.
+    const netMargin = balance.margin.plus(roundedInterest);
+    return new Balance(netMargin, balance.position);
+  }
+
+  private async getAccountStates(
+    accounts: address[],
+    options: CallOptions,
+  ): Promise<{ balance: Balance, index: Index }[]> {
+    const results: { balance: Balance, index: Index }[] = [];
+    for (const chunk of _.chunk(accounts, ACCOUNT_BATCH_SIZE)) {
+      const methods = _.flatMap(chunk, account => [
+        this.perpetual.methods.getAccountBalance(account),
+        this.perpetual.methods.getAccountIndex(account),
+      ]);
+      const chunkResults = await this.contracts.callBatch(methods, options);
+      for (const [balance, index] of _.chunk(chunkResults, 2)) {
+        results.push({
+          balance: Balance.fromSolidity(balance),
+          index: this.solidityIndexToIndex(index),
+        });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Get the funding over a period of time from the funder contract of the perpetual, with the sign
+   * used by the contract when updating the index.
+   */
+  private async getFunderFunding(
+    timeDelta: BigNumber,
+    options: CallOptions,
+  ): Promise<BaseValue> {
+    const funder = this.contracts.p1FundingOracle.clone();
+    funder.options.address = await this.getFunderContract(options);
+    return new FundingOracle(this.contracts, funder).getFunding(timeDelta, options);
+  }
+
+  /**
+   * Pin the options to the latest block, if no block number was specified.
+   */
+  private async withBlockNumber(
+    options: CallOptions = {},
+  ): Promise<CallOptions> {
+    if (options.blockNumber !== undefined) {
+      return options;
+    }
+    return {
+      ...options,
+      blockNumber: await this.web3.eth.getBlockNumber(),
+    };
+  }
+
   private solidityIndexToIndex(
     solidityIndex: any[],
   ): Index {
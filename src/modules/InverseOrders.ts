@@ -2,12 +2,14 @@ import BigNumber from 'bignumber.js';
 import Web3 from 'web3';
 
 import {
+  BASE_DECIMALS,
   Balance,
   BigNumberable,
   Fee,
   Order,
   Price,
 } from '../lib/types';
+import { INTEGERS } from '../lib/Constants';
 import { Contracts } from './Contracts';
 import { Orders } from './Orders';
 
@@ -102,20 +104,37 @@ export class InverseOrders extends Orders {
     };
   }
 
-  public getFeeForOrder(
-    amount: BigNumber,
-    isTaker: boolean = true,
-  ): Fee {
-    if (!isTaker) {
-      return Fee.fromBips('-2.5');
-    }
+  /**
+   * Check whether the oracle price has reached the trigger price of the order.
+   *
+   * Inverse perpetual: The trigger price is compared against the inverted oracle price.
+   */
+  public isTriggerPriceReached(
+    order: Order,
+    oraclePrice: Price,
+  ): boolean {
+    const invertedOraclePrice = new Price(
+      INTEGERS.ONE.div(oraclePrice.value).dp(BASE_DECIMALS, BigNumber.ROUND_DOWN),
+    );
+    return super.isTriggerPriceReached(order, invertedOraclePrice);
+  }
+
+  // ============ Protected Helper Functions ============
 
-    // WETH-PUSD: Small order size is 1000 USD.
-    //
-    // TODO: Address fees more generally on a per-market basis.
-    const isSmall = amount.lt('1000e6');
-    return isSmall
-      ? Fee.fromBips('50.0')
-      : Fee.fromBips('15');
+  /**
+   * Check whether filling the order would decrease the absolute position of the maker.
+   *
+   * Inverse perpetual: Buying the base currency means selling position and selling the base
+   * currency means buying position.
+   */
+  protected fillDecreasesPosition(
+    order: Order,
+    fillAmount: BigNumber,
+    makerBalance: Balance,
+  ): boolean {
+    return (
+      order.isBuy === makerBalance.position.isPositive()
+      && fillAmount.lte(makerBalance.position.abs())
+    );
   }
 }
@@ -0,0 +1,334 @@
+import BigNumber from 'bignumber.js';
+import _ from 'lodash';
+
+import { Perpetual } from '../Perpetual';
+import {
+  Balance,
+  BaseValue,
+  CallOptions,
+  LiquidationKeeperOptions,
+  LiquidationResult,
+  Price,
+  address,
+} from '../lib/types';
+
+const DEFAULT_MAX_CONCURRENCY = 1;
+const DEFAULT_POLL_INTERVAL_MS = 15000;
+
+/**
+ * Finds undercollateralized accounts and liquidates them through the LiquidatorProxy.
+ *
+ * Candidate accounts are collected from LogTrade and LogDeposit events, or added directly. Each
+ * liquidation is sized so that the liquidator's account remains collateralized (plus an optional
+ * buffer) after taking on the liquidated balance, and is simulated before being submitted.
+ */
+export class LiquidationKeeper {
+  private perpetual: Perpetual;
+  private options: LiquidationKeeperOptions;
+  private candidates: Set<address> = new Set();
+  private lastPrice: Price | null = null;
+  private nextBlock: number | null = null;
+  private hasSkipped: boolean = false;
+  private running: boolean = false;
+
+  constructor(
+    perpetual: Perpetual,
+    options: LiquidationKeeperOptions,
+  ) {
+    this.perpetual = perpetual;
+    this.options = {
+      dryRun: false,
+      maxConcurrency: DEFAULT_MAX_CONCURRENCY,
+      collateralBuffer: new BaseValue(0),
+      pollInterval: DEFAULT_POLL_INTERVAL_MS,
+      ...options,
+    };
+  }
+
+  // ============ Candidates ============
+
+  public getCandidates(): address[] {
+    return Array.from(this.candidates);
+  }
+
+  public addCandidates(accounts: address[]): void {
+    for (const account of accounts) {
+      if (account.toLowerCase() !== this.options.liquidator.toLowerCase()) {
+        this.candidates.add(account.toLowerCase());
+      }
+    }
+  }
+
+  public removeCandidates(accounts: address[]): void {
+    for (const account of accounts) {
+      this.candidates.delete(account.toLowerCase());
+    }
+  }
+
+  /**
+   * Add the accounts from all LogTrade and LogDeposit events in a block range to the candidates.
+   */
+  public async syncCandidates(
+    fromBlock: number,
+    toBlock?: number,
+  ): Promise<void> {
+    const logs = await this.perpetual.logs.getEvents({
+      fromBlock,
+      toBlock,
+      eventNames: ['LogTrade', 'LogDeposit'],
+    });
+    this.addCandidates(_.flatMap(logs, log => this.perpetual.logs.getBalanceUpdateAccounts(log)));
+  }
+
+  // ============ Liquidation ============
+
+  /**
+   * Liquidate all candidate accounts which are currently undercollateralized.
+   *
+   * In dry-run mode, the liquidations are simulated but not submitted. If the gas price is above
+   * maxGasPrice, the run stops, and the liquidations which were not submitted are marked skipped.
+   */
+  public async liquidateAll(
+    options?: CallOptions,
+  ): Promise<LiquidationResult[]> {
+    const isPinned = options && !_.isNil(options.blockNumber);
+    let callOptions = {
+      blockNumber: await this.perpetual.web3.eth.getBlockNumber(),
+      ...options,
+    };
+    const liquidatable = await this.perpetual.getters.getLiquidatableAccounts(
+      this.getCandidates(),
+      callOptions,
+    );
+
+    // Each liquidation changes the liquidator's balance, so every batch of up to maxConcurrency
+    // liquidations is sized against the liquidator's balance after the previous batch.
+    const results: LiquidationResult[] = [];
+    for (const chunk of _.chunk(liquidatable, this.options.maxConcurrency)) {
+      const chunkResults = _.compact(await Promise.all(
+        chunk.map(liquidatee => this.prepareLiquidation(liquidatee, callOptions)),
+      ));
+      results.push(...chunkResults);
+      if (this.options.dryRun) {
+        continue;
+      }
+      if (!await this.isGasPriceAcceptable()) {
+        chunkResults.filter(result => this.isSubmittable(result)).forEach((result) => {
+          result.skipped = true;
+        });
+        break;
+      }
+      await Promise.all(chunkResults.map(result => this.submitLiquidation(result)));
+      if (!isPinned) {
+        callOptions = {
+          ...callOptions,
+          blockNumber: await this.perpetual.web3.eth.getBlockNumber(),
+        };
+      }
+    }
+    return results;
+  }
+
+  // ============ Polling ============
+
+  /**
+   * Poll for new candidates and oracle price changes, liquidating accounts when either changes, or
+   * when liquidations were skipped for the gas price on the previous run. Runs until stop() is
+   * called. Errors are reported through the onError option, and polling continues with the next
+   * interval.
+   */
+  public async start(
+    onResults?: (results: LiquidationResult[]) => void,
+  ): Promise<void> {
+    this.running = true;
+    while (this.running) {
+      try {
+        const changed = await this.poll();
+        if (changed || this.hasSkipped) {
+          const results = await this.liquidateAll();
+          this.hasSkipped = results.some(result => result.skipped);
+          if (onResults && results.length > 0) {
+            onResults(results);
+          }
+        }
+      } catch (error) {
+        if (this.options.onError) {
+          this.options.onError(error);
+        }
+      }
+      await new Promise(resolve => setTimeout(resolve, this.options.pollInterval));
+    }
+  }
+
+  public stop(): void {
+    this.running = false;
+  }
+
+  /**
+   * Sync candidates from new blocks and read the oracle price. Returns true if there are new
+   * candidates or if the oracle price changed since the last poll.
+   */
+  public async poll(): Promise<boolean> {
+    const latestBlock = await this.perpetual.web3.eth.getBlockNumber();
+    const numCandidates = this.candidates.size;
+    if (this.nextBlock !== null && latestBlock >= this.nextBlock) {
+      await this.syncCandidates(this.nextBlock, latestBlock);
+    }
+    this.nextBlock = latestBlock + 1;
+
+    const price = await this.perpetual.getters.getOraclePrice({ blockNumber: latestBlock });
+    const priceChanged = !this.lastPrice || !this.lastPrice.value.eq(price.value);
+    this.lastPrice = price;
+
+    return priceChanged || this.candidates.size !== numCandidates;
+  }
+
+  // ============ Helper Functions ============
+
+  /**
+   * Size a liquidation against the liquidator's collateral and simulate it. Returns null if the
+   * liquidator cannot take on any of the position.
+   */
+  private async prepareLiquidation(
+    liquidatee: address,
+    options: CallOptions,
+  ): Promise<LiquidationResult | null> {
+    const { liquidator } = this.options;
+    const [
+      liquidateeBalance,
+      liquidatorBalance,
+      price,
+      minCollateral,
+      insuranceFee,
+    ] = await Promise.all([
+      this.perpetual.getters.getNetAccountBalance(liquidatee, options),
+      this.perpetual.getters.getNetAccountBalance(liquidator, options),
+      this.perpetual.getters.getOraclePrice(options),
+      this.perpetual.getters.getMinCollateral(options),
+      this.perpetual.liquidatorProxy.getInsuranceFee(options),
+    ]);
+    if (liquidateeBalance.position.isZero()) {
+      return null;
+    }
+
+    // The liquidator takes on the liquidatee's position, buying if the liquidatee is long.
+    const isBuy = liquidateeBalance.position.isPositive();
+    const requiredCollateral = minCollateral.plus(this.options.collateralBuffer.value);
+    const amount = this.getMaxLiquidationAmount(
+      liquidateeBalance,
+      liquidatorBalance,
+      price,
+      requiredCollateral,
+      insuranceFee,
+    );
+    if (amount.isZero()) {
+      return null;
+    }
+
+    const maxPosition = isBuy
+      ? liquidatorBalance.position.plus(amount)
+      : liquidatorBalance.position.minus(amount);
+    const result: LiquidationResult = {
+      liquidatee,
+      isBuy,
+      maxPosition,
+      liquidationAmount: new BigNumber(0),
+    };
+    try {
+      result.liquidationAmount = await this.perpetual.liquidatorProxy.getLiquidateReturnValue(
+        liquidatee,
+        liquidator,
+        isBuy,
+        maxPosition,
+        { ...options, from: this.getSender() },
+      );
+    } catch (e) {
+      result.error = e;
+    }
+    return result;
+  }
+
+  /**
+   * Get the largest position amount the liquidator can take from the liquidatee while keeping its
+   * own collateralization at or above the required value. The liquidator receives the same
+   * fraction of the liquidatee's margin as of its position, and the LiquidatorProxy then moves the
+   * insurance fee share of any value gained from the liquidator's margin to the insurance fund.
+   */
+  private getMaxLiquidationAmount(
+    liquidateeBalance: Balance,
+    liquidatorBalance: Balance,
+    price: Price,
+    requiredCollateral: BaseValue,
+    insuranceFee: BaseValue,
+  ): BigNumber {
+    const totalPosition = liquidateeBalance.position.abs();
+    const isCollateralized = (amount: BigNumber): boolean => {
+      const fraction = amount.div(totalPosition);
+      const marginDelta = liquidateeBalance.margin.times(fraction);
+      const positionDelta = liquidateeBalance.position.times(fraction);
+      const valueDelta = marginDelta.plus(positionDelta.times(price.value));
+      const fee = BigNumber.max(valueDelta, 0).times(insuranceFee.value);
+      const result = new Balance(
+        liquidatorBalance.margin.plus(marginDelta).minus(fee),
+        liquidatorBalance.position.plus(positionDelta),
+      );
+      return result.getCollateralization(price).gte(requiredCollateral.value);
+    };
+
+    if (isCollateralized(totalPosition)) {
+      return totalPosition;
+    }
+    let low = new BigNumber(0);
+    let high = totalPosition;
+    while (high.minus(low).gt(1)) {
+      const mid = low.plus(high).div(2).integerValue(BigNumber.ROUND_FLOOR);
+      if (isCollateralized(mid)) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  private isSubmittable(
+    result: LiquidationResult,
+  ): boolean {
+    return !result.error && !result.liquidationAmount.isZero();
+  }
+
+  private async submitLiquidation(
+    result: LiquidationResult,
+  ): Promise<void> {
+    if (!this.isSubmittable(result)) {
+      return;
+    }
+    try {
+      result.txResult = await this.perpetual.liquidatorProxy.liquidate(
+        result.liquidatee,
+        this.options.liquidator,
+        result.isBuy,
+        result.maxPosition,
+        {
+          from: this.getSender(),
+          ...this.options.sendOptions,
+        },
+      );
+    } catch (e) {
+      result.error = e;
+    }
+  }
+
+  private async isGasPriceAcceptable(): Promise<boolean> {
+    if (_.isNil(this.options.maxGasPrice)) {
+      return true;
+    }
+    const gasPrice = await this.perpetual.web3.eth.getGasPrice();
+    return new BigNumber(gasPrice).lte(this.options.maxGasPrice);
+  }
+
+  private getSender(): address {
+    const { sendOptions, liquidator } = this.options;
+    return (sendOptions && sendOptions.from) || liquidator;
+  }
+}
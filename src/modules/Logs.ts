@@ -10,13 +10,21 @@ import {
   Balance,
   BaseValue,
   Fee,
+  GetEventsOptions,
   Index,
   LoggedFundingRate,
+  LoggedOrderFlags,
+  MarketLegacyAddresses,
+  PerpetualLog,
+  PerpetualLogEvent,
+  PerpetualLogName,
   Price,
+  SubscribeEventsOptions,
   TxResult,
-  PerpetualMarket,
+  address,
 } from '../lib/types';
 import { ORDER_FLAGS } from '../lib/Constants';
+import { getMarketConfig } from '../lib/MarketConfig';
 import { addressesAreEqual } from '../lib/BytesHelper';
 
 type IContractsByAddress = { [address: string]: Contract };
@@ -26,14 +34,13 @@ const TUPLE_MAP = {
   'struct P1InverseOrders.Fill': ['amount', 'price', 'fee', 'isNegativeFee'],
 };
 
-// Old contracts used by PBTC-USDC.
-const OLD_LIQUIDATION_ADDRESSES = [
-  '0x1F8b4f89a5b8CA0BAa0eDbd0d928DD68B3357280',
-  '0x18Ba3F12f9d3699dE7D451cA97ED55Cd33DD0f80',
-].map(a => a.toLowerCase());
-const OLD_LIQUIDATOR_PROXY_ADDRESSES = [
-  '0x51C72bEfAe54D365A9D0C08C486aee4F99285e08',
-].map(a => a.toLowerCase());
+const DEFAULT_BLOCK_WINDOW = 10000;
+const DEFAULT_POLL_INTERVAL_MS = 15000;
+const DEFAULT_REORG_DEPTH = 12;
+
+function getLogKey(log: PerpetualLog): string {
+  return `${log.blockHash}-${log.logIndex}`;
+}
 
 export class Logs {
   private contracts: Contracts;
@@ -64,7 +71,7 @@ export class Logs {
     return this._contractsByAddress;
   }
 
-  public parseLogs(receipt: TxResult): any[] {
+  public parseLogs(receipt: TxResult): PerpetualLog[] {
     let events: any[];
 
     if (receipt.logs) {
@@ -89,7 +96,184 @@ export class Logs {
     throw new Error('Receipt has no logs');
   }
 
-  private parseEvent(event: EventLog): any {
+  /**
+   * Returns the logs with the given event name, with the type narrowed to that event.
+   */
+  public filterLogs<N extends PerpetualLogName>(
+    logs: PerpetualLog[],
+    name: N,
+  ): Extract<PerpetualLog, { name: N }>[] {
+    return logs.filter(log => log.name === name) as Extract<PerpetualLog, { name: N }>[];
+  }
+
+  /**
+   * Returns the accounts whose balances are updated by a PerpetualV1 log.
+   */
+  public getBalanceUpdateAccounts(log: PerpetualLog): address[] {
+    switch (log.name) {
+      case 'LogTrade':
+        return [log.args.maker, log.args.taker];
+      case 'LogAccountSettled':
+      case 'LogDeposit':
+      case 'LogWithdraw':
+      case 'LogWithdrawFinalSettlement':
+        return [log.args.account];
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Query and parse historical logs emitted by the protocol contracts.
+   *
+   * Requests to eth_getLogs are made in windows of at most `blockWindow` blocks. If a request
+   * fails (e.g. because the node limits the number of results), the window is halved and the
+   * request is retried.
+   */
+  public async getEvents({
+    fromBlock,
+    toBlock,
+    accounts,
+    eventNames,
+    blockWindow = DEFAULT_BLOCK_WINDOW,
+  }: GetEventsOptions): Promise<PerpetualLog[]> {
+    const lastBlock = _.isNil(toBlock) ? await this.web3.eth.getBlockNumber() : toBlock;
+    const result: PerpetualLog[] = [];
+
+    let window = blockWindow;
+    let start = fromBlock;
+    while (start <= lastBlock) {
+      const end = Math.min(start + window - 1, lastBlock);
+      let rawLogs: Log[];
+      try {
+        rawLogs = await this.getRawLogs(start, end, eventNames);
+      } catch (e) {
+        if (window === 1) {
+          throw e;
+        }
+        window = Math.ceil(window / 2);
+        continue;
+      }
+      result.push(...this.parseAndFilterLogs(rawLogs, accounts));
+      start = end + 1;
+
+      // Only a busy range needs a small window, so grow it back for the following ranges.
+      window = Math.min(window * 2, blockWindow);
+    }
+
+    return result;
+  }
+
+  /**
+   * Follow new blocks and yield protocol logs as they are mined.
+   *
+   * The last `reorgDepth` blocks are re-queried on every poll. Logs that were previously yielded
+   * but are no longer part of the chain are yielded again with `removed` set to true.
+   */
+  public async *subscribe({
+    fromBlock,
+    accounts,
+    eventNames,
+    blockWindow,
+    pollInterval = DEFAULT_POLL_INTERVAL_MS,
+    reorgDepth = DEFAULT_REORG_DEPTH,
+  }: SubscribeEventsOptions = {}): AsyncIterableIterator<PerpetualLogEvent> {
+    let nextBlock = _.isNil(fromBlock) ? await this.web3.eth.getBlockNumber() + 1 : fromBlock;
+    let recentLogs: { [key: string]: PerpetualLog } = {};
+
+    while (true) {
+      const latestBlock = await this.web3.eth.getBlockNumber();
+
+      if (latestBlock >= nextBlock) {
+        const recheckFrom = Math.max(
+          fromBlock || 0,
+          Math.min(nextBlock, latestBlock - reorgDepth + 1),
+        );
+        const logs = await this.getEvents({
+          accounts,
+          eventNames,
+          blockWindow,
+          fromBlock: recheckFrom,
+          toBlock: latestBlock,
+        });
+        const logsByKey = _.keyBy(logs, getLogKey);
+
+        // Previously seen logs within the re-checked range that are no longer on chain.
+        const removed = Object.values(recentLogs).filter(
+          log => log.blockNumber >= recheckFrom && !(getLogKey(log) in logsByKey),
+        );
+        for (const log of _.orderBy(removed, ['blockNumber', 'logIndex'], ['desc', 'desc'])) {
+          yield { log, removed: true };
+        }
+        for (const log of logs) {
+          if (!(getLogKey(log) in recentLogs)) {
+            yield { log, removed: false };
+          }
+        }
+
+        // Only keep logs which may still be affected by a reorg.
+        const oldestTracked = latestBlock - reorgDepth + 1;
+        recentLogs = _.pickBy<PerpetualLog>(
+          { ..._.omit(recentLogs, removed.map(getLogKey)), ...logsByKey },
+          log => log.blockNumber >= oldestTracked,
+        );
+        nextBlock = latestBlock + 1;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, pollInterval));
+    }
+  }
+
+  private async getRawLogs(
+    fromBlock: number,
+    toBlock: number,
+    eventNames?: PerpetualLogName[],
+  ): Promise<Log[]> {
+    const { liquidation, liquidatorProxy } = this.getLegacyAddresses();
+    const addresses = [...Object.keys(this.contractsByAddress), ...liquidation, ...liquidatorProxy];
+    const topics = eventNames ? [this.getEventSignatures(eventNames)] : undefined;
+    return this.web3.eth.getPastLogs({
+      fromBlock,
+      toBlock,
+      topics,
+      address: addresses,
+    });
+  }
+
+  private getLegacyAddresses(): MarketLegacyAddresses {
+    const { liquidation, liquidatorProxy } = getMarketConfig(this.contracts.market).legacyAddresses;
+    return {
+      liquidation: liquidation.map(a => a.toLowerCase()),
+      liquidatorProxy: liquidatorProxy.map(a => a.toLowerCase()),
+    };
+  }
+
+  private getEventSignatures(eventNames: PerpetualLogName[]): string[] {
+    const signatures: string[] = [];
+    for (const { contract, isTest } of this.contracts.contractsList) {
+      if (isTest) {
+        continue;
+      }
+      for (const e of contract.options.jsonInterface) {
+        if (e.type === 'event' && (eventNames as string[]).includes(e.name)) {
+          signatures.push((e as any).signature);
+        }
+      }
+    }
+    return _.uniq(signatures);
+  }
+
+  private parseAndFilterLogs(rawLogs: Log[], accounts?: address[]): PerpetualLog[] {
+    const logs = rawLogs.map(l => this.parseLog(l)).filter(l => !!l);
+    if (!accounts) {
+      return logs;
+    }
+    return logs.filter(log => Object.values(log.args).some(
+      arg => typeof arg === 'string' && accounts.some(a => addressesAreEqual(a, arg)),
+    ));
+  }
+
+  private parseEvent(event: EventLog): PerpetualLog {
     return this.parseLog({
       address: event.address,
       data: event.raw.data,
@@ -102,7 +286,7 @@ export class Logs {
     });
   }
 
-  private parseLog(log: Log): any {
+  private parseLog(log: Log): PerpetualLog {
     const logAddress = log.address.toLowerCase();
 
     // Check if the logs are coming from the proxy ABI.
@@ -113,19 +297,18 @@ export class Logs {
       }
     }
 
-    // PBTC-USDC: Check if the logs are coming from old contracts.
-    if (this.contracts.market === PerpetualMarket.PBTC_USDC) {
-      if (OLD_LIQUIDATION_ADDRESSES.includes(logAddress.toLowerCase())) {
-        const parsedLog = this.parseLogWithContract(this.contracts.p1Liquidation, log);
-        if (parsedLog) {
-          return parsedLog;
-        }
+    // Check if the logs are coming from contracts previously used by the market.
+    const legacyAddresses = this.getLegacyAddresses();
+    if (legacyAddresses.liquidation.includes(logAddress)) {
+      const parsedLog = this.parseLogWithContract(this.contracts.p1Liquidation, log);
+      if (parsedLog) {
+        return parsedLog;
       }
-      if (OLD_LIQUIDATOR_PROXY_ADDRESSES.includes(logAddress.toLowerCase())) {
-        const parsedLog = this.parseLogWithContract(this.contracts.p1LiquidatorProxy, log);
-        if (parsedLog) {
-          return parsedLog;
-        }
+    }
+    if (legacyAddresses.liquidatorProxy.includes(logAddress)) {
+      const parsedLog = this.parseLogWithContract(this.contracts.p1LiquidatorProxy, log);
+      if (parsedLog) {
+        return parsedLog;
       }
     }
 
@@ -136,7 +319,7 @@ export class Logs {
     return null;
   }
 
-  private parseLogWithContract(contract: Contract, log: Log): any {
+  private parseLogWithContract(contract: Contract, log: Log): PerpetualLog {
     const events = contract.options.jsonInterface.filter(
       (e: AbiItem) => e.type === 'event',
     );
@@ -159,7 +342,7 @@ export class Logs {
       ...log,
       name: eventJson.name,
       args: this.parseArgs(eventJson.inputs, eventArgs),
-    };
+    } as PerpetualLog;
   }
 
   private parseArgs(inputs: AbiInput[], eventArgs: any): any {
@@ -262,7 +445,7 @@ export class Logs {
     } as Index;
   }
 
-  private parseOrderFlags(flags: string): any {
+  private parseOrderFlags(flags: string): LoggedOrderFlags {
     const flagsNumber = new BigNumber(flags, 16).mod(8).toNumber();
     return {
       rawValue: flags,
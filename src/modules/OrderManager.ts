@@ -0,0 +1,452 @@
+import BigNumber from 'bignumber.js';
+
+import { ApiError } from '../lib/ApiErrors';
+import {
+  ApiMarketName,
+  ApiOrder,
+  ApiOrderStatus,
+  ApiSide,
+  BigNumberable,
+  Bracket,
+  BracketStatus,
+  BracketStore,
+  OrderManagerOptions,
+  WsChannel,
+} from '../lib/types';
+import { Api } from './Api';
+import { WsApi } from './WsApi';
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+const FINAL_ORDER_STATUSES = [ApiOrderStatus.FILLED, ApiOrderStatus.CANCELED];
+
+/**
+ * Keeps brackets in memory. Brackets are lost when the process exits.
+ */
+export class MemoryBracketStore implements BracketStore {
+  private brackets: { [id: string]: Bracket } = {};
+
+  public async get(
+    id: string,
+  ): Promise<Bracket | null> {
+    const bracket = this.brackets[id];
+    return bracket ? { ...bracket } : null;
+  }
+
+  public async getAll(): Promise<Bracket[]> {
+    return Object.values(this.brackets).map(bracket => ({ ...bracket }));
+  }
+
+  public async save(
+    bracket: Bracket,
+  ): Promise<void> {
+    this.brackets[bracket.id] = { ...bracket };
+  }
+}
+
+/**
+ * Manages bracket orders: an entry order, and a one-cancels-other pair of decrease-only exit
+ * orders which are placed once the entry order has been filled. The exits are a stop-limit order
+ * (the stop-loss) and a take-profit order. When either exit is filled, the other is canceled.
+ *
+ * Brackets are persisted in the store after every change, and every order is placed with a
+ * clientId derived from the bracket id. This allows reconcile() to pick up where it left off after
+ * a restart without placing any order twice.
+ */
+export class OrderManager {
+  private api: Api;
+  private options: OrderManagerOptions;
+  private store: BracketStore;
+  private queue: Promise<void> = Promise.resolve();
+  private running: boolean = false;
+  private wsApi: WsApi | null = null;
+
+  constructor(
+    api: Api,
+    options: OrderManagerOptions,
+  ) {
+    this.api = api;
+    this.options = {
+      pollInterval: DEFAULT_POLL_INTERVAL_MS,
+      ...options,
+    };
+    this.store = this.options.store || new MemoryBracketStore();
+  }
+
+  // ============ Brackets ============
+
+  /**
+   * Place an entry order, with a stop-loss and take-profit to be placed once it has been filled.
+   *
+   * Params:
+   * - side: The side of the entry order. The exit orders are on the other side.
+   * - amount: The amount of the entry order, and of each exit order.
+   * - price: The limit price of the entry order.
+   * - stopLoss: The trigger price and limit price of the stop-loss.
+   * - takeProfit: The limit price of the take-profit, a reduce-only limit order. It must be on the
+   *   profitable side of the oracle price once the entry order has been filled.
+   */
+  public async placeBracketOrder({
+    market,
+    side,
+    amount,
+    price,
+    stopLoss,
+    takeProfit,
+  }: {
+    market: ApiMarketName,
+    side: ApiSide,
+    amount: BigNumberable,
+    price: BigNumberable,
+    stopLoss: { triggerPrice: BigNumberable, price: BigNumberable },
+    takeProfit: { price: BigNumberable },
+  }): Promise<Bracket> {
+    const now = Date.now();
+    const bracket: Bracket = {
+      market,
+      side,
+      id: generateBracketId(),
+      amount: new BigNumber(amount).toFixed(),
+      price: new BigNumber(price).toFixed(),
+      maker: this.options.maker,
+      taker: this.options.taker,
+      stopLoss: {
+        triggerPrice: new BigNumber(stopLoss.triggerPrice).toFixed(),
+        price: new BigNumber(stopLoss.price).toFixed(),
+      },
+      takeProfit: {
+        price: new BigNumber(takeProfit.price).toFixed(),
+      },
+      status: BracketStatus.PENDING_ENTRY,
+      entryOrderId: null,
+      stopLossOrderId: null,
+      takeProfitOrderId: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    return this.withLock(async () => {
+      await this.save(bracket);
+      const { order } = await this.api.placePerpetualOrder({
+        market,
+        order: {
+          side,
+          amount,
+          price,
+          maker: bracket.maker,
+          taker: bracket.taker,
+        },
+        clientId: getClientId(bracket, 'entry'),
+        signer: this.options.signer,
+      });
+      bracket.entryOrderId = order.id;
+      await this.save(bracket);
+      return bracket;
+    });
+  }
+
+  /**
+   * Cancel all open orders of a bracket.
+   */
+  public async cancelBracket(
+    id: string,
+  ): Promise<Bracket> {
+    return this.withLock(async () => {
+      const bracket = await this.store.get(id);
+      if (!bracket) {
+        throw new Error(`No bracket with id ${id}`);
+      }
+      if (isFinalStatus(bracket.status)) {
+        return bracket;
+      }
+
+      const orders = await Promise.all([
+        this.findOrder(bracket, 'entry'),
+        this.findOrder(bracket, 'stop-loss'),
+        this.findOrder(bracket, 'take-profit'),
+      ]);
+      await Promise.all(orders.map(order => this.cancelIfOpen(order)));
+      bracket.status = bracket.status === BracketStatus.OPEN
+        ? BracketStatus.CLOSED
+        : BracketStatus.CANCELED;
+      await this.save(bracket);
+      return bracket;
+    });
+  }
+
+  public async getBracket(
+    id: string,
+  ): Promise<Bracket | null> {
+    return this.store.get(id);
+  }
+
+  public async getBrackets(): Promise<Bracket[]> {
+    return this.store.getAll();
+  }
+
+  // ============ Reconciliation ============
+
+  /**
+   * Check the orders of every active bracket and advance it: place the exits once the entry order
+   * has been filled, and cancel the remaining exit once the other has been filled or canceled.
+   *
+   * Errors are passed to the onError option, and the bracket is retried on the next call.
+   */
+  public async reconcile(): Promise<void> {
+    const brackets = await this.store.getAll();
+    for (const bracket of brackets) {
+      if (!isFinalStatus(bracket.status)) {
+        await this.reconcileBracket(bracket.id);
+      }
+    }
+  }
+
+  /**
+   * Reconcile the brackets which contain any of the given orders, e.g. from the orders channel of
+   * the WebSocket API.
+   */
+  public async handleOrderUpdates(
+    orders: ApiOrder[],
+  ): Promise<void> {
+    const orderIds = new Set(orders.map(order => order.id));
+    const brackets = await this.store.getAll();
+    for (const bracket of brackets) {
+      const bracketOrderIds = [
+        bracket.entryOrderId,
+        bracket.stopLossOrderId,
+        bracket.takeProfitOrderId,
+      ];
+      if (!isFinalStatus(bracket.status) && bracketOrderIds.some(id => orderIds.has(id))) {
+        await this.reconcileBracket(bracket.id);
+      }
+    }
+  }
+
+  // ============ Polling ============
+
+  /**
+   * Reconcile all brackets every pollInterval until stop() is called. If a WsApi is given, brackets
+   * are also reconciled as soon as updates to their orders are streamed. Errors are passed to the
+   * onError option without stopping the manager.
+   */
+  public async start(
+    wsApi?: WsApi,
+  ): Promise<void> {
+    this.running = true;
+    if (wsApi) {
+      this.wsApi = wsApi;
+      wsApi.subscribe(
+        WsChannel.ORDERS,
+        this.options.maker,
+        (message) => {
+          this.handleOrderUpdates(message.contents.orders || [])
+            .catch(error => this.reportError(error));
+        },
+      );
+    }
+    while (this.running) {
+      try {
+        await this.reconcile();
+      } catch (error) {
+        this.reportError(error);
+      }
+      await new Promise(resolve => setTimeout(resolve, this.options.pollInterval));
+    }
+  }
+
+  public stop(): void {
+    this.running = false;
+    if (this.wsApi) {
+      this.wsApi.unsubscribe(WsChannel.ORDERS, this.options.maker);
+      this.wsApi = null;
+    }
+  }
+
+  // ============ Helper Functions ============
+
+  private async reconcileBracket(
+    id: string,
+  ): Promise<void> {
+    await this.withLock(async () => {
+      const bracket = await this.store.get(id);
+      try {
+        if (bracket.status === BracketStatus.PENDING_ENTRY) {
+          await this.reconcileEntry(bracket);
+        } else if (bracket.status === BracketStatus.OPEN) {
+          await this.reconcileExits(bracket);
+        }
+      } catch (error) {
+        this.reportError(error, bracket);
+      }
+    });
+  }
+
+  private reportError(
+    error: Error,
+    bracket: Bracket = null,
+  ): void {
+    if (this.options.onError) {
+      this.options.onError(error, bracket);
+    }
+  }
+
+  private async reconcileEntry(
+    bracket: Bracket,
+  ): Promise<void> {
+    const entry = await this.findOrder(bracket, 'entry');
+    if (!entry) {
+      // The entry order was never placed.
+      bracket.status = BracketStatus.CANCELED;
+      await this.save(bracket);
+      return;
+    }
+    bracket.entryOrderId = entry.id;
+
+    const filledAmount = new BigNumber(entry.filledAmount || 0);
+    if (entry.status === ApiOrderStatus.FILLED) {
+      bracket.amount = filledAmount.isZero() ? bracket.amount : filledAmount.toFixed();
+    } else if (entry.status === ApiOrderStatus.CANCELED && !filledAmount.isZero()) {
+      // Protect the part of the entry order which was filled before it was canceled.
+      bracket.amount = filledAmount.toFixed();
+    } else if (entry.status === ApiOrderStatus.CANCELED) {
+      bracket.status = BracketStatus.CANCELED;
+      await this.save(bracket);
+      return;
+    } else {
+      await this.save(bracket);
+      return;
+    }
+
+    bracket.status = BracketStatus.OPEN;
+    await this.save(bracket);
+    await this.reconcileExits(bracket);
+  }
+
+  private async reconcileExits(
+    bracket: Bracket,
+  ): Promise<void> {
+    const stopLoss = await this.findOrder(bracket, 'stop-loss')
+      || await this.placeStopLoss(bracket);
+    bracket.stopLossOrderId = stopLoss.id;
+    await this.save(bracket);
+    const takeProfit = await this.findOrder(bracket, 'take-profit')
+      || await this.placeTakeProfit(bracket);
+    bracket.takeProfitOrderId = takeProfit.id;
+    await this.save(bracket);
+
+    const stopLossDone = FINAL_ORDER_STATUSES.includes(stopLoss.status);
+    const takeProfitDone = FINAL_ORDER_STATUSES.includes(takeProfit.status);
+    if (stopLossDone || takeProfitDone) {
+      await Promise.all([this.cancelIfOpen(stopLoss), this.cancelIfOpen(takeProfit)]);
+      bracket.status = BracketStatus.CLOSED;
+      await this.save(bracket);
+    }
+  }
+
+  private async placeStopLoss(
+    bracket: Bracket,
+  ): Promise<ApiOrder> {
+    const { order } = await this.api.placeStopLimitOrder({
+      market: bracket.market,
+      order: this.getExitOrder(bracket, bracket.stopLoss.price),
+      triggerPrice: bracket.stopLoss.triggerPrice,
+      reduceOnly: true,
+      clientId: getClientId(bracket, 'stop-loss'),
+      signer: this.options.signer,
+    });
+    return order;
+  }
+
+  private async placeTakeProfit(
+    bracket: Bracket,
+  ): Promise<ApiOrder> {
+    const { order } = await this.api.placeTakeProfitOrder({
+      market: bracket.market,
+      order: this.getExitOrder(bracket, bracket.takeProfit.price),
+      clientId: getClientId(bracket, 'take-profit'),
+      signer: this.options.signer,
+    });
+    return order;
+  }
+
+  private getExitOrder(
+    bracket: Bracket,
+    price: string,
+  ) {
+    return {
+      price,
+      side: bracket.side === ApiSide.BUY ? ApiSide.SELL : ApiSide.BUY,
+      amount: bracket.amount,
+      maker: bracket.maker,
+      taker: bracket.taker,
+    };
+  }
+
+  /**
+   * Get one of the orders of a bracket by its clientId. Returns null if it has not been placed.
+   */
+  private async findOrder(
+    bracket: Bracket,
+    type: string,
+  ): Promise<ApiOrder | null> {
+    try {
+      const { order } = await this.api.getOrderByClientId({
+        clientId: getClientId(bracket, type),
+        accountOwner: bracket.maker,
+      });
+      return order;
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async cancelIfOpen(
+    order: ApiOrder | null,
+  ): Promise<void> {
+    if (order && !FINAL_ORDER_STATUSES.includes(order.status)) {
+      await this.api.cancelOrder({
+        orderId: order.id,
+        maker: this.options.maker,
+        signer: this.options.signer,
+      });
+    }
+  }
+
+  private async save(
+    bracket: Bracket,
+  ): Promise<void> {
+    bracket.updatedAt = Date.now();
+    await this.store.save(bracket);
+  }
+
+  /**
+   * Run one change to the brackets at a time, so that no order is placed twice.
+   */
+  private withLock<T>(
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    const result = this.queue.then(fn);
+    this.queue = result.then(() => {}, () => {});
+    return result;
+  }
+}
+
+function getClientId(
+  bracket: Bracket,
+  type: string,
+): string {
+  return `bracket-${bracket.id}-${type}`;
+}
+
+function isFinalStatus(
+  status: BracketStatus,
+): boolean {
+  return status === BracketStatus.CLOSED || status === BracketStatus.CANCELED;
+}
+
+function generateBracketId(): string {
+  const random = Math.floor(Math.random() * Number.MAX_SAFE_INTEGER).toString(36);
+  return `${Date.now().toString(36)}${random}`;
+}
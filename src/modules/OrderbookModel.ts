@@ -0,0 +1,275 @@
+import BigNumber from 'bignumber.js';
+import _ from 'lodash';
+
+import {
+  ApiMarketName,
+  ApiOrderOnOrderbook,
+  ApiOrderbook,
+  ApiOrderbookUpdate,
+  ApiSide,
+  BigNumberable,
+  OrderbookLevel,
+  OrderbookModelOptions,
+} from '../lib/types';
+
+const DEFAULT_STALE_AFTER_MS = 30000;
+
+interface BookOrder {
+  price: BigNumber;
+  amount: BigNumber;
+}
+
+/**
+ * A client-side model of the orderbook of one market.
+ *
+ * The model is initialized from a snapshot returned by Api.getOrderbook(), and kept up to date by
+ * applying updates for individual orders. Updates can come from a streaming feed, or be derived
+ * by diffing successive snapshots with getUpdatesFromSnapshot().
+ *
+ * Orders are aggregated into price levels. Bids are sorted by descending price and asks by
+ * ascending price, so that the best price is always first.
+ */
+export class OrderbookModel {
+  public readonly market: ApiMarketName;
+  private options: OrderbookModelOptions;
+  private orders: { [side: string]: { [id: string]: BookOrder } } = {
+    [ApiSide.BUY]: {},
+    [ApiSide.SELL]: {},
+  };
+  private levels: { [side: string]: OrderbookLevel[] | null } = {
+    [ApiSide.BUY]: null,
+    [ApiSide.SELL]: null,
+  };
+  private lastUpdated: number | null = null;
+
+  constructor(
+    market: ApiMarketName,
+    options: OrderbookModelOptions = {},
+  ) {
+    this.market = market;
+    this.options = {
+      staleAfter: DEFAULT_STALE_AFTER_MS,
+      ...options,
+    };
+  }
+
+  // ============ Updates ============
+
+  /**
+   * Replace the contents of the book with a snapshot.
+   */
+  public applySnapshot(
+    snapshot: ApiOrderbook,
+    timestamp: number = Date.now(),
+  ): void {
+    this.orders = {
+      [ApiSide.BUY]: this.ordersFromSnapshot(snapshot.bids),
+      [ApiSide.SELL]: this.ordersFromSnapshot(snapshot.asks),
+    };
+    this.invalidateLevels();
+    this.lastUpdated = timestamp;
+  }
+
+  /**
+   * Apply changes to individual orders. An order is removed when its amount is zero.
+   */
+  public applyUpdates(
+    updates: ApiOrderbookUpdate[],
+    timestamp: number = Date.now(),
+  ): void {
+    for (const update of updates) {
+      if (!Object.values(ApiSide).includes(update.side)) {
+        throw new Error(`side: ${update.side} is invalid`);
+      }
+      const amount = new BigNumber(update.amount);
+      if (amount.isZero()) {
+        delete this.orders[update.side][update.id];
+      } else {
+        this.orders[update.side][update.id] = {
+          amount,
+          price: new BigNumber(update.price),
+        };
+      }
+    }
+    this.invalidateLevels();
+    this.lastUpdated = timestamp;
+  }
+
+  /**
+   * Get the updates which would bring the book to the state of a snapshot.
+   */
+  public getUpdatesFromSnapshot(
+    snapshot: ApiOrderbook,
+  ): ApiOrderbookUpdate[] {
+    const updates: ApiOrderbookUpdate[] = [];
+    const sides: [ApiSide, ApiOrderOnOrderbook[]][] = [
+      [ApiSide.BUY, snapshot.bids],
+      [ApiSide.SELL, snapshot.asks],
+    ];
+    for (const [side, snapshotOrders] of sides) {
+      const current = this.orders[side];
+      const next = this.ordersFromSnapshot(snapshotOrders);
+      for (const [id, order] of Object.entries(next)) {
+        const existing = current[id];
+        if (!existing || !existing.price.eq(order.price) || !existing.amount.eq(order.amount)) {
+          updates.push({
+            id,
+            side,
+            amount: order.amount.toFixed(),
+            price: order.price.toFixed(),
+          });
+        }
+      }
+      for (const [id, order] of Object.entries(current)) {
+        if (!next[id]) {
+          updates.push({
+            id,
+            side,
+            amount: '0',
+            price: order.price.toFixed(),
+          });
+        }
+      }
+    }
+    return updates;
+  }
+
+  // ============ Getters ============
+
+  public getBids(): OrderbookLevel[] {
+    return this.getLevels(ApiSide.BUY);
+  }
+
+  public getAsks(): OrderbookLevel[] {
+    return this.getLevels(ApiSide.SELL);
+  }
+
+  public getBestBid(): OrderbookLevel | null {
+    return this.getBids()[0] || null;
+  }
+
+  public getBestAsk(): OrderbookLevel | null {
+    return this.getAsks()[0] || null;
+  }
+
+  /**
+   * Get the difference between the best ask and best bid, or null if either side is empty.
+   */
+  public getSpread(): BigNumber | null {
+    const bestBid = this.getBestBid();
+    const bestAsk = this.getBestAsk();
+    if (!bestBid || !bestAsk) {
+      return null;
+    }
+    return bestAsk.price.minus(bestBid.price);
+  }
+
+  /**
+   * Get the total amount on one side of the book at prices at least as good as the given price,
+   * i.e. bids at or above the price, or asks at or below the price.
+   */
+  public getDepthAtPrice(
+    side: ApiSide,
+    price: BigNumberable,
+  ): BigNumber {
+    const limit = new BigNumber(price);
+    const levels = _.takeWhile(
+      this.getLevels(side),
+      level => (side === ApiSide.BUY ? level.price.gte(limit) : level.price.lte(limit)),
+    );
+    return levels.reduce((sum, level) => sum.plus(level.amount), new BigNumber(0));
+  }
+
+  /**
+   * Get the volume-weighted average price of taking an amount from the book. A buy takes from
+   * the asks and a sell takes from the bids. Returns null if the book does not have enough depth.
+   */
+  public getVwap(
+    side: ApiSide,
+    amount: BigNumberable,
+  ): BigNumber | null {
+    const total = new BigNumber(amount);
+    if (total.lte(0)) {
+      throw new Error(`amount: ${total.toFixed()} must be positive`);
+    }
+    const levels = this.getLevels(side === ApiSide.BUY ? ApiSide.SELL : ApiSide.BUY);
+
+    let remaining = total;
+    let cost = new BigNumber(0);
+    for (const level of levels) {
+      const filled = BigNumber.min(remaining, level.amount);
+      cost = cost.plus(filled.times(level.price));
+      remaining = remaining.minus(filled);
+      if (remaining.isZero()) {
+        return cost.div(total);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Returns true if the best bid is at or above the best ask.
+   */
+  public isCrossed(): boolean {
+    const spread = this.getSpread();
+    return spread !== null && spread.lte(0);
+  }
+
+  /**
+   * Returns true if the book has never been updated, or was last updated longer ago than the
+   * `staleAfter` option.
+   */
+  public isStale(
+    now: number = Date.now(),
+  ): boolean {
+    return this.lastUpdated === null || now - this.lastUpdated > this.options.staleAfter;
+  }
+
+  public getLastUpdated(): number | null {
+    return this.lastUpdated;
+  }
+
+  // ============ Helper Functions ============
+
+  private getLevels(
+    side: ApiSide,
+  ): OrderbookLevel[] {
+    if (!this.levels[side]) {
+      const amountByPrice: { [price: string]: BigNumber } = {};
+      for (const order of Object.values(this.orders[side])) {
+        const key = order.price.toFixed();
+        amountByPrice[key] = (amountByPrice[key] || new BigNumber(0)).plus(order.amount);
+      }
+      const levels = Object.entries(amountByPrice).map(([price, amount]) => ({
+        amount,
+        price: new BigNumber(price),
+      }));
+      this.levels[side] = levels.sort(
+        side === ApiSide.BUY
+          ? (a, b) => b.price.comparedTo(a.price)
+          : (a, b) => a.price.comparedTo(b.price),
+      );
+    }
+    return this.levels[side].slice();
+  }
+
+  private invalidateLevels(): void {
+    this.levels = {
+      [ApiSide.BUY]: null,
+      [ApiSide.SELL]: null,
+    };
+  }
+
+  private ordersFromSnapshot(
+    orders: ApiOrderOnOrderbook[],
+  ): { [id: string]: BookOrder } {
+    const result: { [id: string]: BookOrder } = {};
+    for (const order of orders) {
+      result[order.id] = {
+        price: new BigNumber(order.price),
+        amount: new BigNumber(order.amount),
+      };
+    }
+    return result;
+  }
+}
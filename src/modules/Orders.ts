@@ -1,8 +1,10 @@
 import BigNumber from 'bignumber.js';
+import _ from 'lodash';
 import Web3 from 'web3';
 import { Contract } from 'web3-eth-contract';
 
 import { Contracts } from './Contracts';
+import { Web3Signer } from '../lib/Signers';
 import {
   addressToBytes32,
   bnToBytes32,
@@ -16,7 +18,6 @@ import {
   EIP712_DOMAIN_STRUCT,
   createTypedSignature,
   ecRecoverTypedSignature,
-  ethSignTypedDataInternal,
   hashHasValidSignature,
   getEIP712Hash,
 } from '../lib/SignatureHelper';
@@ -25,16 +26,24 @@ import {
   BigNumberable,
   CallOptions,
   Fee,
+  FeeSchedule,
+  Fill,
+  FillValidationContext,
+  FillValidationError,
   Order,
   OrderState,
+  OrderStatus,
   Price,
   SendOptions,
   SignedOrder,
+  Signer,
   SigningMethod,
   TypedSignature,
   address,
 } from '../lib/types';
-import { ORDER_FLAGS } from '../lib/Constants';
+import { ADDRESSES, ORDER_FLAGS } from '../lib/Constants';
+import { validateFeeSchedule } from '../lib/FeeSchedules';
+import { getMarketConfig } from '../lib/MarketConfig';
 
 const EIP712_ORDER_STRUCT = [
   { type: 'bytes32', name: 'flags' },
@@ -77,6 +86,8 @@ export class Orders {
   private web3: Web3;
   private eip712DomainName: string;
   private orders: Contract;
+  private signer: Signer;
+  private feeSchedule: FeeSchedule;
 
   // ============ Constructor ============
 
@@ -90,6 +101,8 @@ export class Orders {
     this.web3 = web3;
     this.eip712DomainName = eip712DomainName;
     this.orders = orders;
+    this.signer = new Web3Signer(web3);
+    this.feeSchedule = getMarketConfig(contracts.market).feeSchedule;
   }
 
   get address(): address {
@@ -221,21 +234,135 @@ export class Orders {
     };
   }
 
+  /**
+   * Get the fee for an order from the fee schedule, using the tier with the largest minAmount which
+   * is at most the amount of the order. If the trading volume of the maker is given, the largest
+   * volume discount for which it qualifies is applied to positive fees.
+   */
   public getFeeForOrder(
     amount: BigNumber,
     isTaker: boolean = true,
+    tradingVolume?: BigNumberable,
   ): Fee {
-    if (!isTaker) {
-      return Fee.fromBips('-2.5');
+    const tier = _.findLast(
+      this.feeSchedule.tiers,
+      t => new BigNumber(t.minAmount).lte(amount),
+    );
+    const fee = Fee.fromBips(isTaker ? tier.takerFeeBips : tier.makerFeeBips);
+    if (tradingVolume === undefined || !fee.value.isPositive()) {
+      return fee;
+    }
+
+    const volumeDiscount = _.findLast(
+      this.feeSchedule.volumeDiscounts || [],
+      d => new BigNumber(d.minVolume).lte(tradingVolume),
+    );
+    return volumeDiscount
+      ? new Fee(fee.value.times(new BigNumber(1).minus(volumeDiscount.discount)))
+      : fee;
+  }
+
+  public getFeeSchedule(): FeeSchedule {
+    return this.feeSchedule;
+  }
+
+  /**
+   * Set the fee schedule used by getFeeForOrder(), e.g. from Api.getFeeSchedule() or a config
+   * file. The schedule must be for the market of this instance.
+   */
+  public setFeeSchedule(
+    feeSchedule: FeeSchedule,
+  ): void {
+    validateFeeSchedule(feeSchedule, this.contracts.market);
+    this.feeSchedule = feeSchedule;
+  }
+
+  /**
+   * Check whether a fill would be accepted by the orders contract, following the same checks as
+   * the smart contract trade() function. This function does not make any on-chain calls, so all
+   * information must be passed in through the context.
+   *
+   * The signature is only checked if the order has not been approved on-chain. Permissions of the
+   * sender with respect to the taker are not checked.
+   *
+   * Returns a list of every check that failed, or an empty list if the fill is valid.
+   */
+  public validateFill(
+    order: Order | SignedOrder,
+    fill: Fill,
+    context: FillValidationContext,
+  ): FillValidationError[] {
+    const errors: FillValidationError[] = [];
+
+    // Order state and signature.
+    const { status, filledAmount } = context.orderState;
+    if (status === OrderStatus.Canceled) {
+      errors.push(FillValidationError.ALREADY_CANCELED);
+    } else if (status === OrderStatus.Null) {
+      const { typedSignature } = order as SignedOrder;
+      if (!typedSignature || !this.orderHasValidSignature(order as SignedOrder)) {
+        errors.push(FillValidationError.INVALID_SIGNATURE);
+      }
+    }
+
+    // Order request.
+    if (!addressesAreEqual(order.maker, context.maker)) {
+      errors.push(FillValidationError.MAKER_MISMATCH);
+    }
+    if (
+      !addressesAreEqual(order.taker, context.taker)
+      && !addressesAreEqual(order.taker, ADDRESSES.ZERO)
+    ) {
+      errors.push(FillValidationError.TAKER_MISMATCH);
+    }
+    if (
+      !order.expiration.isZero()
+      && order.expiration.lt(context.timestamp)
+    ) {
+      errors.push(FillValidationError.EXPIRED);
+    }
+    const validPrice = order.isBuy
+      ? fill.price.value.lte(order.limitPrice.value)
+      : fill.price.value.gte(order.limitPrice.value);
+    if (!validPrice) {
+      errors.push(FillValidationError.INVALID_PRICE);
+    }
+    if (fill.fee.value.gt(order.limitFee.value)) {
+      errors.push(FillValidationError.INVALID_FEE);
+    }
+    if (
+      !order.triggerPrice.value.isZero()
+      && !this.isTriggerPriceReached(order, context.oraclePrice)
+    ) {
+      errors.push(FillValidationError.TRIGGER_NOT_REACHED);
+    }
+    if (
+      order.isDecreaseOnly
+      && !this.fillDecreasesPosition(order, fill.amount, context.makerBalance)
+    ) {
+      errors.push(FillValidationError.NOT_DECREASING);
+    }
+
+    // Filled amount.
+    if (filledAmount.plus(fill.amount).gt(order.amount)) {
+      errors.push(FillValidationError.OVERFILL);
     }
 
-    // PBTC-USDC: Small order size is 0.5 BTC.
-    //
-    // TODO: Address fees more generally on a per-market basis.
-    const isSmall = amount.lt('0.5e8');
-    return isSmall
-      ? Fee.fromBips('50.0')
-      : Fee.fromBips('15');
+    return errors;
+  }
+
+  /**
+   * Check whether the oracle price has reached the trigger price of the order, following the same
+   * check as the smart contract. A buy is triggered when the oracle price is at or above the
+   * trigger price, and a sell when it is at or below.
+   */
+  public isTriggerPriceReached(
+    order: Order,
+    oraclePrice: Price,
+  ): boolean {
+    return order.isBuy
+      ? order.triggerPrice.value.lte(oraclePrice.value)
+      : order.triggerPrice.value.gte(oraclePrice.value);
   }
 
   // ============ Signing Methods ============
@@ -243,8 +370,9 @@ export class Orders {
   public async getSignedOrder(
     order: Order,
     signingMethod: SigningMethod,
+    signer: Signer = this.signer,
   ): Promise<SignedOrder> {
-    const typedSignature = await this.signOrder(order, signingMethod);
+    const typedSignature = await this.signOrder(order, signingMethod, signer);
     return {
       ...order,
       typedSignature,
@@ -252,19 +380,20 @@ export class Orders {
   }
 
   /**
-   * Sends order to current provider for signing. Can sign locally if the signing account is
-   * loaded into web3 and SigningMethod.Hash is used.
+   * Sends order to the signer, which is the current provider by default. Can sign locally if the
+   * signing account is loaded into web3 and SigningMethod.Hash is used.
    */
   public async signOrder(
     order: Order,
     signingMethod: SigningMethod,
+    signer: Signer = this.signer,
   ): Promise<string> {
     switch (signingMethod) {
       case SigningMethod.Hash:
       case SigningMethod.UnsafeHash:
       case SigningMethod.Compatibility:
         const orderHash = this.getOrderHash(order);
-        const rawSignature = await this.web3.eth.sign(orderHash, order.maker);
+        const rawSignature = await signer.signHash(orderHash, order.maker);
         const hashSig = createTypedSignature(rawSignature, SIGNATURE_TYPES.DECIMAL);
         if (signingMethod === SigningMethod.Hash) {
           return hashSig;
@@ -285,6 +414,7 @@ export class Orders {
         return this.ethSignTypedOrderInternal(
           order,
           signingMethod,
+          signer,
         );
 
       default:
@@ -299,29 +429,55 @@ export class Orders {
   public async signCancelOrder(
     order: Order,
     signingMethod: SigningMethod,
+    signer: Signer = this.signer,
   ): Promise<string> {
     return this.signCancelOrderByHash(
       this.getOrderHash(order),
       order.maker,
       signingMethod,
+      signer,
     );
   }
 
   /**
-   * Sends orderHash to current provider for signing of a cancel message. Can sign locally if
-   * the signing account is loaded into web3 and SigningMethod.Hash is used.
+   * Sends orderHash to the signer, which is the current provider by default, for signing of a
+   * cancel message. Can sign locally if the signing account is loaded into web3 and
+   * SigningMethod.Hash is used.
    */
   public async signCancelOrderByHash(
     orderHash: string,
-    signer: string,
+    account: address,
+    signingMethod: SigningMethod,
+    signer: Signer = this.signer,
+  ): Promise<string> {
+    return this.signCancelOrders(
+      [orderHash],
+      account,
+      signingMethod,
+      signer,
+    );
+  }
+
+  /**
+   * Sends orderHashes to the signer, which is the current provider by default, for signing of a
+   * single cancel message which cancels all of the orders. Can sign locally if the signing account
+   * is loaded into web3 and SigningMethod.Hash is used.
+   */
+  public async signCancelOrders(
+    orderHashes: string[],
+    account: address,
     signingMethod: SigningMethod,
+    signer: Signer = this.signer,
   ): Promise<string> {
+    if (orderHashes.length === 0) {
+      throw new Error('At least one order hash must be canceled');
+    }
     switch (signingMethod) {
       case SigningMethod.Hash:
       case SigningMethod.UnsafeHash:
       case SigningMethod.Compatibility:
-        const cancelHash = this.orderHashToCancelOrderHash(orderHash);
-        const rawSignature = await this.web3.eth.sign(cancelHash, signer);
+        const cancelHash = this.orderHashesToCancelOrdersHash(orderHashes);
+        const rawSignature = await signer.signHash(cancelHash, account);
         const hashSig = createTypedSignature(rawSignature, SIGNATURE_TYPES.DECIMAL);
         if (signingMethod === SigningMethod.Hash) {
           return hashSig;
@@ -330,7 +486,7 @@ export class Orders {
         if (signingMethod === SigningMethod.UnsafeHash) {
           return unsafeHashSig;
         }
-        if (hashHasValidSignature(cancelHash, unsafeHashSig, signer)) {
+        if (hashHasValidSignature(cancelHash, unsafeHashSig, account)) {
           return unsafeHashSig;
         }
         return hashSig;
@@ -340,9 +496,10 @@ export class Orders {
       case SigningMethod.MetaMaskLatest:
       case SigningMethod.CoinbaseWallet:
         return this.ethSignTypedCancelOrderInternal(
-          orderHash,
-          signer,
+          orderHashes,
+          account,
           signingMethod,
+          signer,
         );
 
       default:
@@ -399,7 +556,41 @@ export class Orders {
     typedSignature: string,
     expectedSigner: address,
   ): boolean {
-    const cancelHash = this.orderHashToCancelOrderHash(orderHash);
+    return this.cancelOrdersByHashHaveValidSignature(
+      [orderHash],
+      typedSignature,
+      expectedSigner,
+    );
+  }
+
+  /**
+   * Returns true if the message canceling all of the orders has a valid signature from the maker
+   * of the orders. The `maker` of every order must be the same.
+   */
+  public cancelOrdersHaveValidSignature(
+    orders: Order[],
+    typedSignature: string,
+  ): boolean {
+    const makers = _.uniq(orders.map(order => order.maker.toLowerCase()));
+    if (makers.length !== 1) {
+      return false;
+    }
+    return this.cancelOrdersByHashHaveValidSignature(
+      orders.map(order => this.getOrderHash(order)),
+      typedSignature,
+      makers[0],
+    );
+  }
+
+  /**
+   * Returns true if the message canceling all of the order hashes has a valid signature.
+   */
+  public cancelOrdersByHashHaveValidSignature(
+    orderHashes: string[],
+    typedSignature: string,
+    expectedSigner: address,
+  ): boolean {
+    const cancelHash = this.orderHashesToCancelOrdersHash(orderHashes);
     const signer = ecRecoverTypedSignature(cancelHash, typedSignature);
     return addressesAreEqual(signer, expectedSigner);
   }
@@ -432,10 +623,25 @@ export class Orders {
   public orderHashToCancelOrderHash(
     orderHash: string,
   ): string {
+    return this.orderHashesToCancelOrdersHash([orderHash]);
+  }
+
+  /**
+   * Given some order hashes, returns the hash of a cancel-order message canceling all of them.
+   */
+  public orderHashesToCancelOrdersHash(
+    orderHashes: string[],
+  ): string {
+    if (orderHashes.length === 0) {
+      throw new Error('At least one order hash must be canceled');
+    }
+    const orderHashesHash = Web3.utils.soliditySha3(
+      ...orderHashes.map(orderHash => ({ t: 'bytes32', v: orderHash })),
+    );
     const structHash = Web3.utils.soliditySha3(
       { t: 'bytes32', v: hashString(EIP712_CANCEL_ORDER_STRUCT_STRING) },
       { t: 'bytes32', v: hashString('Cancel Orders') },
-      { t: 'bytes32', v: Web3.utils.soliditySha3({ t: 'bytes32', v: orderHash }) },
+      { t: 'bytes32', v: orderHashesHash },
     );
     return getEIP712Hash(this.getDomainHash(), structHash);
   }
@@ -490,6 +696,22 @@ export class Orders {
     return combineHexStrings(orderData, fillData, signatureData);
   }
 
+  // ============ Protected Helper Functions ============
+
+  /**
+   * Check whether filling the order would decrease the absolute position of the maker.
+   */
+  protected fillDecreasesPosition(
+    order: Order,
+    fillAmount: BigNumber,
+    makerBalance: Balance,
+  ): boolean {
+    return (
+      order.isBuy !== makerBalance.position.isPositive()
+      && fillAmount.lte(makerBalance.position.abs())
+    );
+  }
+
   // ============ Private Helper Functions ============
 
   private orderToSolidity(
@@ -519,6 +741,7 @@ export class Orders {
   private async ethSignTypedOrderInternal(
     order: Order,
     signingMethod: SigningMethod,
+    signer: Signer,
   ): Promise<TypedSignature> {
     const orderData = this.orderToSolidity(order);
     const data = {
@@ -530,18 +753,18 @@ export class Orders {
       primaryType: 'Order',
       message: orderData,
     };
-    return ethSignTypedDataInternal(
-      this.web3.currentProvider,
-      order.maker,
+    return signer.signTypedData(
       data,
+      order.maker,
       signingMethod,
     );
   }
 
   private async ethSignTypedCancelOrderInternal(
-    orderHash: string,
-    signer: string,
+    orderHashes: string[],
+    account: address,
     signingMethod: SigningMethod,
+    signer: Signer,
   ): Promise<TypedSignature> {
     const data = {
       types: {
@@ -551,14 +774,13 @@ export class Orders {
       domain: this.getDomainData(),
       primaryType: 'CancelLimitOrder',
       message: {
+        orderHashes,
         action: 'Cancel Orders',
-        orderHashes: [orderHash],
       },
     };
-    return ethSignTypedDataInternal(
-      this.web3.currentProvider,
-      signer,
+    return signer.signTypedData(
       data,
+      account,
       signingMethod,
     );
   }
@@ -21,6 +21,7 @@ import Web3 from 'web3';
 import { Contract } from 'web3-eth-contract';
 
 import { Contracts } from './Contracts';
+import { Web3Signer } from '../lib/Signers';
 import {
   hashString,
   addressToBytes32,
@@ -32,7 +33,6 @@ import {
   EIP712_DOMAIN_STRUCT,
   SIGNATURE_TYPES,
   createTypedSignature,
-  ethSignTypedDataInternal,
   getEIP712Hash,
   signatureToSolidityStruct,
   hashHasValidSignature,
@@ -42,6 +42,7 @@ import {
   SendOptions,
   SoloBridgeTransfer,
   SignedSoloBridgeTransfer,
+  Signer,
   TxResult,
   TypedSignature,
   address,
@@ -71,16 +72,16 @@ const EIP712_TRANSFER_STRUCT = [
 
 export class SoloBridgeProxy {
   private contracts: Contracts;
-  private web3: Web3;
   private proxy: Contract;
+  private signer: Signer;
 
   constructor(
     contracts: Contracts,
     web3: Web3,
   ) {
     this.contracts = contracts;
-    this.web3 = web3;
     this.proxy = this.contracts.p1SoloBridgeProxy;
+    this.signer = new Web3Signer(web3);
   }
 
   get address(): address {
@@ -146,8 +147,9 @@ export class SoloBridgeProxy {
   public async getSignedTransfer(
     transfer: SoloBridgeTransfer,
     signingMethod: SigningMethod,
+    signer: Signer = this.signer,
   ): Promise<SignedSoloBridgeTransfer> {
-    const typedSignature = await this.signTransfer(transfer, signingMethod);
+    const typedSignature = await this.signTransfer(transfer, signingMethod, signer);
     return {
       ...transfer,
       typedSignature,
@@ -155,19 +157,20 @@ export class SoloBridgeProxy {
   }
 
   /**
-   * Sends transfer to current provider for signing. Can sign locally if the signing account is
-   * loaded into web3 and SigningMethod.Hash is used.
+   * Sends transfer to the signer, which is the current provider by default. Can sign locally if
+   * the signing account is loaded into web3 and SigningMethod.Hash is used.
    */
   public async signTransfer(
     transfer: SoloBridgeTransfer,
     signingMethod: SigningMethod,
+    signer: Signer = this.signer,
   ): Promise<TypedSignature> {
     switch (signingMethod) {
       case SigningMethod.Hash:
       case SigningMethod.UnsafeHash:
       case SigningMethod.Compatibility:
         const transferHash = this.getTransferHash(transfer);
-        const rawSignature = await this.web3.eth.sign(transferHash, transfer.account);
+        const rawSignature = await signer.signHash(transferHash, transfer.account);
         const hashSig = createTypedSignature(rawSignature, SIGNATURE_TYPES.DECIMAL);
         if (signingMethod === SigningMethod.Hash) {
           return hashSig;
@@ -188,6 +191,7 @@ export class SoloBridgeProxy {
         return this.ethSignTypedTransferInternal(
           transfer,
           signingMethod,
+          signer,
         );
 
       default:
@@ -282,6 +286,7 @@ export class SoloBridgeProxy {
   private async ethSignTypedTransferInternal(
     transfer: SoloBridgeTransfer,
     signingMethod: SigningMethod,
+    signer: Signer,
   ): Promise<TypedSignature> {
     const transferData = this.transferToSolidity(transfer);
     const data = {
@@ -293,10 +298,9 @@ export class SoloBridgeProxy {
       primaryType: 'Transfer',
       message: transferData,
     };
-    return ethSignTypedDataInternal(
-      this.web3.currentProvider,
-      transfer.account,
+    return signer.signTypedData(
       data,
+      transfer.account,
       signingMethod,
     );
   }
@@ -0,0 +1,152 @@
+import _ from 'lodash';
+
+import {
+  Balance,
+  BaseValue,
+  Index,
+  PerpetualLog,
+  address,
+} from '../lib/types';
+import { INTEGERS } from '../lib/Constants';
+
+interface AccountSnapshot {
+  blockNumber: number;
+  balance: Balance;
+  index: Index;
+}
+
+const ZERO_INDEX: Index = {
+  timestamp: INTEGERS.ZERO,
+  baseValue: new BaseValue(0),
+};
+
+/**
+ * Reconstructs account balances and local indexes from PerpetualV1 events.
+ *
+ * Logs must be applied in the order in which they were emitted. Every event which touches an
+ * account balance also settles the account, so the account's local index is set to the most
+ * recently logged global index whenever such an event is applied. Accounts which are settled
+ * while having a position of zero, without any other balance update, do not emit a log, so their
+ * local index may lag the on-chain value. This never affects their balance.
+ */
+export class StateReplayer {
+  private globalIndex: Index = ZERO_INDEX;
+  private history: { [account: string]: AccountSnapshot[] } = {};
+  private lastBlockNumber: number = 0;
+  private lastLogIndex: number = -1;
+
+  // ============ Replay ============
+
+  public applyLogs(logs: PerpetualLog[]): void {
+    for (const log of logs) {
+      this.applyLog(log);
+    }
+  }
+
+  public applyLog(log: PerpetualLog): void {
+    if (
+      log.blockNumber < this.lastBlockNumber ||
+      (log.blockNumber === this.lastBlockNumber && log.logIndex <= this.lastLogIndex)
+    ) {
+      throw new Error(
+        `Log at block ${log.blockNumber} index ${log.logIndex} was applied out of order`,
+      );
+    }
+    this.lastBlockNumber = log.blockNumber;
+    this.lastLogIndex = log.logIndex;
+
+    switch (log.name) {
+      case 'LogIndex':
+        this.globalIndex = log.args.index;
+        break;
+      case 'LogAccountSettled':
+      case 'LogDeposit':
+      case 'LogWithdraw':
+      case 'LogWithdrawFinalSettlement':
+        this.updateAccount(log.args.account, log.args.balance, log.blockNumber);
+        break;
+      case 'LogTrade':
+        this.updateAccount(log.args.maker, log.args.makerBalance, log.blockNumber);
+        this.updateAccount(log.args.taker, log.args.takerBalance, log.blockNumber);
+        break;
+      default:
+        break; // Other logs do not affect account state.
+    }
+  }
+
+  // ============ Getters ============
+
+  public getGlobalIndex(): Index {
+    return this.globalIndex;
+  }
+
+  public getAccounts(): address[] {
+    return Object.keys(this.history);
+  }
+
+  /**
+   * Get the balance of an account, as returned by Getters.getAccountBalance(). If a block number
+   * is given, get the balance as of the end of that block.
+   */
+  public getAccountBalance(
+    account: address,
+    blockNumber?: number,
+  ): Balance {
+    const snapshot = this.getSnapshot(account, blockNumber);
+    return snapshot ? snapshot.balance.copy() : new Balance(0, 0);
+  }
+
+  /**
+   * Get the local index of an account, as returned by Getters.getAccountIndex(). If a block
+   * number is given, get the index as of the end of that block.
+   */
+  public getAccountIndex(
+    account: address,
+    blockNumber?: number,
+  ): Index {
+    const snapshot = this.getSnapshot(account, blockNumber);
+    return snapshot ? snapshot.index : ZERO_INDEX;
+  }
+
+  // ============ Helper Functions ============
+
+  private updateAccount(
+    account: address,
+    balance: Balance,
+    blockNumber: number,
+  ): void {
+    const key = account.toLowerCase();
+    if (!this.history[key]) {
+      this.history[key] = [];
+    }
+    const snapshots = this.history[key];
+    const snapshot: AccountSnapshot = {
+      blockNumber,
+      balance: balance.copy(),
+      index: this.globalIndex,
+    };
+
+    // Keep one snapshot per block, reflecting the state at the end of the block.
+    const last = _.last(snapshots);
+    if (last && last.blockNumber === blockNumber) {
+      snapshots[snapshots.length - 1] = snapshot;
+    } else {
+      snapshots.push(snapshot);
+    }
+  }
+
+  private getSnapshot(
+    account: address,
+    blockNumber?: number,
+  ): AccountSnapshot | undefined {
+    const snapshots = this.history[account.toLowerCase()];
+    if (!snapshots) {
+      return undefined;
+    }
+    if (_.isNil(blockNumber)) {
+      return _.last(snapshots);
+    }
+    const i = _.sortedLastIndexBy(snapshots, { blockNumber } as AccountSnapshot, 'blockNumber');
+    return i === 0 ? undefined : snapshots[i - 1];
+  }
+}
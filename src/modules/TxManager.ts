@@ -0,0 +1,506 @@
+import fs from 'fs';
+import _ from 'lodash';
+import BigNumber from 'bignumber.js';
+import Web3 from 'web3';
+import { TransactionReceipt } from 'web3-core';
+
+import { addressesAreEqual } from '../lib/BytesHelper';
+import { sendEip1559Transaction } from '../lib/TransactionHelper';
+import {
+  BigNumberable,
+  PendingTransaction,
+  TxFees,
+  TxManagerOptions,
+  TxStore,
+  address,
+} from '../lib/types';
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+const DEFAULT_RESEND_TIMEOUT_MS = 60000;
+const DEFAULT_GAS_PRICE_BUMP = 1.125;
+const CANCEL_GAS = 21000;
+
+function getKey(
+  from: address,
+  nonce: number,
+): string {
+  return `${from.toLowerCase()}-${nonce}`;
+}
+
+/**
+ * Keeps pending transactions in memory. They are lost when the process exits.
+ */
+export class MemoryTxStore implements TxStore {
+  private txs: { [key: string]: PendingTransaction } = {};
+
+  public async get(
+    from: address,
+    nonce: number,
+  ): Promise<PendingTransaction | null> {
+    const tx = this.txs[getKey(from, nonce)];
+    return tx ? copyTransaction(tx) : null;
+  }
+
+  public async getAll(): Promise<PendingTransaction[]> {
+    return Object.values(this.txs).map(copyTransaction);
+  }
+
+  public async save(
+    tx: PendingTransaction,
+  ): Promise<void> {
+    this.txs[getKey(tx.from, tx.nonce)] = copyTransaction(tx);
+  }
+
+  public async remove(
+    from: address,
+    nonce: number,
+  ): Promise<void> {
+    delete this.txs[getKey(from, nonce)];
+  }
+}
+
+/**
+ * Keeps pending transactions in a JSON file, so that they survive a restart of the process. The
+ * file must not be shared by several processes.
+ */
+export class FileTxStore implements TxStore {
+  private path: string;
+  private txs: Promise<{ [key: string]: PendingTransaction }> = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    path: string,
+  ) {
+    this.path = path;
+  }
+
+  public async get(
+    from: address,
+    nonce: number,
+  ): Promise<PendingTransaction | null> {
+    const tx = (await this.load())[getKey(from, nonce)];
+    return tx ? copyTransaction(tx) : null;
+  }
+
+  public async getAll(): Promise<PendingTransaction[]> {
+    return Object.values(await this.load()).map(copyTransaction);
+  }
+
+  public async save(
+    tx: PendingTransaction,
+  ): Promise<void> {
+    const txs = await this.load();
+    txs[getKey(tx.from, tx.nonce)] = copyTransaction(tx);
+    await this.write(txs);
+  }
+
+  public async remove(
+    from: address,
+    nonce: number,
+  ): Promise<void> {
+    const txs = await this.load();
+    delete txs[getKey(from, nonce)];
+    await this.write(txs);
+  }
+
+  private load(): Promise<{ [key: string]: PendingTransaction }> {
+    if (!this.txs) {
+      this.txs = fs.promises.readFile(this.path, 'utf8').then(
+        json => JSON.parse(json),
+        (error) => {
+          if (error.code === 'ENOENT') {
+            return {};
+          }
+          this.txs = null;
+          throw error;
+        },
+      );
+    }
+    return this.txs;
+  }
+
+  /**
+   * Write to a temporary file first and then rename it, so that a crash cannot leave a partially
+   * written file behind.
+   */
+  private write(
+    txs: { [key: string]: PendingTransaction },
+  ): Promise<void> {
+    const json = JSON.stringify(txs, null, 2);
+    const tmpPath = `${this.path}.tmp`;
+    const result = this.writes.then(async () => {
+      await fs.promises.writeFile(tmpPath, json);
+      await fs.promises.rename(tmpPath, this.path);
+    });
+    this.writes = result.catch(() => {});
+    return result;
+  }
+}
+
+/**
+ * Sends transactions with locally allocated nonces, so that many transactions can be sent from one
+ * account without waiting for each to be mined.
+ *
+ * Every transaction is kept in the store until it is mined. A transaction which has not been mined
+ * within resendTimeout is rebroadcast with the same nonce and a higher gas price, and a pending
+ * transaction can be canceled by replacing it with an empty transfer to the sender. If pending
+ * transactions are persisted, e.g. with a FileTxStore, a TxManager created with the same store
+ * after a restart continues to replace them, and does not reuse their nonces. The default
+ * MemoryTxStore does not persist them.
+ */
+export class TxManager {
+  private web3: Web3;
+  private options: TxManagerOptions;
+  private store: TxStore;
+  private queue: Promise<void> = Promise.resolve();
+  private running: boolean = false;
+
+  constructor(
+    web3: Web3,
+    options: TxManagerOptions = {},
+  ) {
+    this.web3 = web3;
+    this.options = {
+      pollInterval: DEFAULT_POLL_INTERVAL_MS,
+      resendTimeout: DEFAULT_RESEND_TIMEOUT_MS,
+      gasPriceBump: DEFAULT_GAS_PRICE_BUMP,
+      ...options,
+    };
+    this.store = this.options.store || new MemoryTxStore();
+  }
+
+  // ============ Sending ============
+
+  /**
+   * Broadcast a transaction with the next nonce of the sender, and store it as pending.
+   */
+  public async send({
+    from,
+    to,
+    data,
+    value = 0,
+    gas,
+    gasPrice,
+    maxFeePerGas,
+    maxPriorityFeePerGas,
+  }: {
+    from: address,
+    to: address,
+    data: string,
+    value?: BigNumberable,
+    gas: number,
+    gasPrice?: BigNumberable,
+    maxFeePerGas?: BigNumberable,
+    maxPriorityFeePerGas?: BigNumberable,
+  }): Promise<PendingTransaction> {
+    if (!from) {
+      throw new Error('A from address is required to send a transaction');
+    }
+    return this.withLock(async () => {
+      const tx: PendingTransaction = {
+        from,
+        to,
+        data,
+        gas,
+        nonce: await this.getNextNonce(from),
+        value: new BigNumber(value).toFixed(0),
+        ...getFees({ gasPrice, maxFeePerGas, maxPriorityFeePerGas }),
+        transactionHashes: [],
+        sentAt: null,
+      };
+      await this.broadcast(tx);
+      return tx;
+    });
+  }
+
+  /**
+   * Replace a pending transaction with an empty transfer from the sender to itself, using a higher
+   * gas price. Whichever of the two is mined first uses up the nonce.
+   */
+  public async cancel(
+    from: address,
+    nonce: number,
+  ): Promise<PendingTransaction> {
+    return this.withLock(async () => {
+      const tx = await this.store.get(from, nonce);
+      if (!tx) {
+        throw new Error(`No pending transaction from ${from} with nonce ${nonce}`);
+      }
+      const replacement = await this.replace({
+        ...tx,
+        to: tx.from,
+        data: '0x',
+        value: '0',
+        gas: CANCEL_GAS,
+      });
+      if (!replacement) {
+        throw new Error(
+          `Cannot cancel the transaction from ${from} with nonce ${nonce}, since its fees are ` +
+          'already at maxGasPrice',
+        );
+      }
+      return replacement;
+    });
+  }
+
+  /**
+   * Wait until a transaction sent by this manager (or any of its replacements) has been mined, and
+   * then for the given number of confirmations. Throws if the nonce was used up by a cancellation
+   * or by a transaction not sent through this manager.
+   */
+  public async waitForReceipt(
+    tx: PendingTransaction,
+    confirmations: number = 0,
+  ): Promise<TransactionReceipt> {
+    let transactionHashes = tx.transactionHashes;
+    let receipt: TransactionReceipt = null;
+    while (!receipt) {
+      const pendingTx = await this.store.get(tx.from, tx.nonce);
+      if (pendingTx) {
+        transactionHashes = _.union(transactionHashes, pendingTx.transactionHashes);
+        receipt = await this.checkTransaction(tx.from, tx.nonce);
+      } else {
+        // Checked by another caller, and no longer pending.
+        receipt = await this.getReceipt(transactionHashes);
+        if (!receipt) {
+          throw new Error(`Nonce ${tx.nonce} of ${tx.from} was used by another transaction`);
+        }
+      }
+      if (!receipt) {
+        await this.sleep();
+      }
+    }
+
+    if (!addressesAreEqual(receipt.to, tx.to)) {
+      throw new Error(`Transaction from ${tx.from} with nonce ${tx.nonce} was canceled`);
+    }
+    while (await this.web3.eth.getBlockNumber() - receipt.blockNumber < confirmations) {
+      await this.sleep();
+    }
+    return receipt;
+  }
+
+  public async getPendingTransactions(): Promise<PendingTransaction[]> {
+    return this.store.getAll();
+  }
+
+  // ============ Polling ============
+
+  /**
+   * Check every pending transaction: remove it from the store once it has been mined, and
+   * rebroadcast it with a higher gas price once resendTimeout has passed.
+   *
+   * Errors are passed to the onError option, and the transaction is checked again on the next call.
+   */
+  public async checkPendingTransactions(): Promise<void> {
+    const txs = await this.store.getAll();
+    for (const tx of txs) {
+      try {
+        await this.checkTransaction(tx.from, tx.nonce);
+      } catch (error) {
+        this.handleError(error, tx);
+      }
+    }
+  }
+
+  /**
+   * Check pending transactions every pollInterval until stop() is called.
+   */
+  public async start(): Promise<void> {
+    this.running = true;
+    while (this.running) {
+      await this.checkPendingTransactions();
+      await this.sleep();
+    }
+  }
+
+  public stop(): void {
+    this.running = false;
+  }
+
+  // ============ Helper Functions ============
+
+  /**
+   * Returns the receipt if the transaction has been mined, and otherwise rebroadcasts it if it has
+   * timed out.
+   */
+  private async checkTransaction(
+    from: address,
+    nonce: number,
+  ): Promise<TransactionReceipt | null> {
+    return this.withLock(async () => {
+      const tx = await this.store.get(from, nonce);
+      if (!tx) {
+        return null;
+      }
+
+      // Get the nonce first, so that a transaction mined in between is not missed.
+      const minedNonce = await this.web3.eth.getTransactionCount(from, 'latest');
+      const receipt = await this.getReceipt(tx.transactionHashes);
+      if (receipt) {
+        await this.store.remove(from, nonce);
+        return receipt;
+      }
+      if (minedNonce > nonce) {
+        await this.store.remove(from, nonce);
+        throw new Error(`Nonce ${nonce} of ${from} was used by another transaction`);
+      }
+
+      if (Date.now() - tx.sentAt >= this.options.resendTimeout) {
+        try {
+          await this.replace(tx);
+        } catch (error) {
+          this.handleError(error, tx);
+        }
+      }
+      return null;
+    });
+  }
+
+  /**
+   * Rebroadcast a transaction with a higher gas price. Does nothing and returns null if the gas
+   * price is already at maxGasPrice.
+   */
+  private async replace(
+    tx: PendingTransaction,
+  ): Promise<PendingTransaction | null> {
+    let replacement: PendingTransaction;
+    if (tx.maxFeePerGas !== undefined) {
+      const maxFeePerGas = this.bumpFee(tx.maxFeePerGas, this.options.maxGasPrice);
+      if (maxFeePerGas.lte(tx.maxFeePerGas)) {
+        return null;
+      }
+      replacement = {
+        ...tx,
+        maxFeePerGas: maxFeePerGas.toFixed(0),
+        maxPriorityFeePerGas: this.bumpFee(tx.maxPriorityFeePerGas, maxFeePerGas).toFixed(0),
+      };
+    } else {
+      const gasPrice = this.bumpFee(tx.gasPrice, this.options.maxGasPrice);
+      if (gasPrice.lte(tx.gasPrice)) {
+        return null;
+      }
+      replacement = { ...tx, gasPrice: gasPrice.toFixed(0) };
+    }
+    await this.broadcast(replacement);
+    return replacement;
+  }
+
+  private bumpFee(
+    fee: string,
+    maxFee?: BigNumberable,
+  ): BigNumber {
+    const bumpedFee = new BigNumber(fee)
+      .times(this.options.gasPriceBump)
+      .integerValue(BigNumber.ROUND_UP);
+    return maxFee === undefined ? bumpedFee : BigNumber.min(bumpedFee, maxFee);
+  }
+
+  private async broadcast(
+    tx: PendingTransaction,
+  ): Promise<void> {
+    const transactionHash: string = tx.maxFeePerGas === undefined
+      ? await this.sendLegacyTransaction(tx)
+      : await sendEip1559Transaction(this.web3, tx);
+    tx.transactionHashes = [...tx.transactionHashes, transactionHash];
+    tx.sentAt = Date.now();
+    await this.store.save(tx);
+  }
+
+  private sendLegacyTransaction(
+    tx: PendingTransaction,
+  ): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const promi = this.web3.eth.sendTransaction({
+        from: tx.from,
+        to: tx.to,
+        data: tx.data,
+        value: tx.value,
+        gas: tx.gas,
+        nonce: tx.nonce,
+        gasPrice: tx.gasPrice,
+      });
+      promi.on('transactionHash', resolve);
+      promi.on('error', reject);
+
+      // Receipts are checked by the manager, since the transaction may be replaced.
+      promi.catch(() => {});
+    });
+  }
+
+  private async getNextNonce(
+    from: address,
+  ): Promise<number> {
+    const pendingNonces = (await this.store.getAll())
+      .filter(tx => addressesAreEqual(tx.from, from))
+      .map(tx => tx.nonce + 1);
+    const nodeNonce = await this.web3.eth.getTransactionCount(from, 'pending');
+    return Math.max(nodeNonce, ...pendingNonces);
+  }
+
+  private async getReceipt(
+    transactionHashes: string[],
+  ): Promise<TransactionReceipt | null> {
+    for (const transactionHash of transactionHashes) {
+      const receipt = await this.web3.eth.getTransactionReceipt(transactionHash);
+      if (receipt) {
+        return receipt;
+      }
+    }
+    return null;
+  }
+
+  private handleError(
+    error: Error,
+    tx: PendingTransaction,
+  ): void {
+    if (this.options.onError) {
+      this.options.onError(error, tx);
+    }
+  }
+
+  private sleep(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, this.options.pollInterval));
+  }
+
+  /**
+   * Run one change to the pending transactions at a time, so that no nonce is used twice.
+   */
+  private withLock<T>(
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    const result = this.queue.then(fn);
+    this.queue = result.then(() => {}, () => {});
+    return result;
+  }
+}
+
+function copyTransaction(
+  tx: PendingTransaction,
+): PendingTransaction {
+  return { ...tx, transactionHashes: [...tx.transactionHashes] };
+}
+
+function getFees({
+  gasPrice,
+  maxFeePerGas,
+  maxPriorityFeePerGas,
+}: {
+  gasPrice?: BigNumberable,
+  maxFeePerGas?: BigNumberable,
+  maxPriorityFeePerGas?: BigNumberable,
+}): TxFees {
+  if (maxFeePerGas !== undefined || maxPriorityFeePerGas !== undefined) {
+    if (maxFeePerGas === undefined || maxPriorityFeePerGas === undefined) {
+      throw new Error('maxFeePerGas and maxPriorityFeePerGas must be given together');
+    }
+    return {
+      maxFeePerGas: new BigNumber(maxFeePerGas).toFixed(0),
+      maxPriorityFeePerGas: new BigNumber(maxPriorityFeePerGas).toFixed(0),
+    };
+  }
+  if (gasPrice === undefined || gasPrice === null) {
+    throw new Error('A gasPrice or maxFeePerGas is required to send a transaction');
+  }
+  return { gasPrice: new BigNumber(gasPrice).toFixed(0) };
+}
@@ -0,0 +1,276 @@
+import WebSocket from 'ws';
+
+import {
+  WebSocketLike,
+  WsApiOptions,
+  WsChannel,
+  WsChannelMessage,
+  WsMessageType,
+} from '../lib/types';
+
+const DEFAULT_WS_ENDPOINT = 'wss://api.dydx.exchange/v1/ws';
+const DEFAULT_RECONNECT_DELAY_MS = 1000;
+const DEFAULT_MAX_RECONNECT_DELAY_MS = 30000;
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 15000;
+const DEFAULT_HEARTBEAT_TIMEOUT_MS = 45000;
+const WEBSOCKET_OPEN = 1;
+
+interface Subscription {
+  channel: WsChannel;
+  id?: string;
+  handler: (message: WsChannelMessage) => void;
+}
+
+/**
+ * Streams market, orderbook, trade, balance and order updates from the dYdX WebSocket API.
+ *
+ * Subscriptions are kept across connections: if the connection drops, or no message (including
+ * responses to heartbeat pings) is received for `heartbeatTimeout` milliseconds, the client
+ * reconnects with exponential backoff and subscribes to every channel again.
+ */
+export class WsApi {
+  private options: WsApiOptions;
+  private socket: WebSocketLike | null = null;
+  private subscriptions: { [key: string]: Subscription } = {};
+  private shouldReconnect: boolean = false;
+  private reconnectAttempts: number = 0;
+  private reconnectTimer: any = null;
+  private heartbeatTimer: any = null;
+  private lastMessageAt: number = 0;
+  private rejectOpen: ((error: Error) => void) | null = null;
+
+  constructor(
+    options: WsApiOptions = {},
+  ) {
+    this.options = {
+      endpoint: DEFAULT_WS_ENDPOINT,
+      reconnectDelay: DEFAULT_RECONNECT_DELAY_MS,
+      maxReconnectDelay: DEFAULT_MAX_RECONNECT_DELAY_MS,
+      heartbeatInterval: DEFAULT_HEARTBEAT_INTERVAL_MS,
+      heartbeatTimeout: DEFAULT_HEARTBEAT_TIMEOUT_MS,
+      createWebSocket: (url: string) => new WebSocket(url),
+      ...options,
+    };
+  }
+
+  // ============ Connection ============
+
+  /**
+   * Open the connection. Resolves once the connection is open, and rejects if the first attempt
+   * fails or disconnect() is called first. Once connected, the client reconnects automatically
+   * until disconnect() is called.
+   */
+  public async connect(): Promise<void> {
+    this.shouldReconnect = true;
+    try {
+      await this.open();
+    } catch (error) {
+      this.shouldReconnect = false;
+      throw error;
+    }
+  }
+
+  public disconnect(): void {
+    this.shouldReconnect = false;
+    clearTimeout(this.reconnectTimer);
+    this.stopHeartbeat();
+    if (this.rejectOpen) {
+      this.rejectOpen(new Error(`Disconnected before connecting to ${this.options.endpoint}`));
+      this.rejectOpen = null;
+    }
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+      this.callback('onClose');
+    }
+  }
+
+  public isConnected(): boolean {
+    return this.socket !== null && this.socket.readyState === WEBSOCKET_OPEN;
+  }
+
+  // ============ Subscriptions ============
+
+  /**
+   * Subscribe to a channel. The id is the market for the orderbook and trades channels, and the
+   * account owner for the balances and orders channels. The markets channel takes no id.
+   */
+  public subscribe<C extends WsChannel>(
+    channel: C,
+    id: string | undefined,
+    handler: (message: WsChannelMessage<C>) => void,
+  ): void {
+    const key = getSubscriptionKey(channel, id);
+    if (this.subscriptions[key]) {
+      throw new Error(`Already subscribed to ${key}`);
+    }
+    this.subscriptions[key] = { channel, id, handler };
+    if (this.isConnected()) {
+      this.send({ channel, id, type: WsMessageType.SUBSCRIBE });
+    }
+  }
+
+  public unsubscribe(
+    channel: WsChannel,
+    id?: string,
+  ): void {
+    const key = getSubscriptionKey(channel, id);
+    if (!this.subscriptions[key]) {
+      return;
+    }
+    delete this.subscriptions[key];
+    if (this.isConnected()) {
+      this.send({ channel, id, type: WsMessageType.UNSUBSCRIBE });
+    }
+  }
+
+  // ============ Helper Functions ============
+
+  private open(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = this.options.createWebSocket(this.options.endpoint);
+      this.socket = socket;
+      this.rejectOpen = reject;
+      let opened = false;
+
+      socket.onopen = () => {
+        opened = true;
+        this.rejectOpen = null;
+        this.reconnectAttempts = 0;
+        this.lastMessageAt = Date.now();
+        this.startHeartbeat();
+        for (const { channel, id } of Object.values(this.subscriptions)) {
+          this.send({ channel, id, type: WsMessageType.SUBSCRIBE });
+        }
+        this.callback('onOpen');
+        resolve();
+      };
+      socket.onmessage = (event) => {
+        this.handleMessage(event.data);
+      };
+      socket.onerror = (event) => {
+        const message = event && event.message ? event.message : 'Unknown error';
+        this.callback('onError', new Error(`WebSocket error: ${message}`));
+      };
+      socket.onclose = () => {
+        if (this.socket !== socket) {
+          return;
+        }
+        this.handleClose();
+        if (!opened) {
+          this.rejectOpen = null;
+          reject(new Error(`Could not connect to ${this.options.endpoint}`));
+        }
+      };
+    });
+  }
+
+  private handleClose(): void {
+    const socket = this.socket;
+    this.socket = null;
+    this.stopHeartbeat();
+    if (socket) {
+      socket.onclose = () => {};
+      socket.close();
+    }
+    this.callback('onClose');
+    if (this.shouldReconnect && this.reconnectAttempts === 0) {
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(
+      this.options.reconnectDelay * (2 ** this.reconnectAttempts),
+      this.options.maxReconnectDelay,
+    );
+    this.reconnectAttempts += 1;
+    this.reconnectTimer = setTimeout(
+      async () => {
+        if (!this.shouldReconnect) {
+          return;
+        }
+        try {
+          await this.open();
+        } catch (error) {
+          if (this.shouldReconnect) {
+            this.scheduleReconnect();
+          }
+        }
+      },
+      delay,
+    );
+  }
+
+  private handleMessage(
+    data: any,
+  ): void {
+    this.lastMessageAt = Date.now();
+
+    let message: any;
+    try {
+      message = JSON.parse(data.toString());
+    } catch (error) {
+      this.callback('onError', new Error(`Invalid WebSocket message: ${data}`));
+      return;
+    }
+
+    switch (message.type) {
+      case WsMessageType.SUBSCRIBED:
+      case WsMessageType.CHANNEL_DATA:
+        const subscription = this.subscriptions[getSubscriptionKey(message.channel, message.id)];
+        if (subscription) {
+          subscription.handler(message);
+        }
+        break;
+      case WsMessageType.ERROR:
+        this.callback('onError', new Error(message.message));
+        break;
+    }
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(
+      () => {
+        if (Date.now() - this.lastMessageAt > this.options.heartbeatTimeout) {
+          this.handleClose();
+        } else {
+          this.send({ type: WsMessageType.PING });
+        }
+      },
+      this.options.heartbeatInterval,
+    );
+  }
+
+  private stopHeartbeat(): void {
+    clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = null;
+  }
+
+  private send(
+    message: { type: WsMessageType, channel?: WsChannel, id?: string },
+  ): void {
+    if (this.isConnected()) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private callback(
+    name: 'onOpen' | 'onClose' | 'onError',
+    error?: Error,
+  ): void {
+    const callback = this.options[name];
+    if (callback) {
+      callback(error);
+    }
+  }
+}
+
+function getSubscriptionKey(
+  channel: WsChannel,
+  id?: string,
+): string {
+  return id ? `${channel}:${id}` : channel;
+}
@@ -0,0 +1,116 @@
+import { AdminProposal } from '../src/modules/AdminProposal';
+import { PerpetualRevertError } from '../src/lib/RevertErrors';
+import {
+  AdminAction,
+  BaseValue,
+  PerpetualErrorCode,
+  address,
+} from '../src/lib/types';
+import { expect } from './helpers/Expect';
+import initializePerpetual from './helpers/initializePerpetual';
+import { ITestContext, perpetualDescribe } from './helpers/perpetualDescribe';
+
+let admin: address;
+let fundingRateProvider: address;
+let rando: address;
+let newFunder: address;
+
+async function init(ctx: ITestContext): Promise<void> {
+  await initializePerpetual(ctx);
+  admin = ctx.accounts[0];
+  fundingRateProvider = ctx.accounts[1];
+  rando = ctx.accounts[2];
+  newFunder = ctx.perpetual.contracts.testP1Monolith.options.address;
+}
+
+function buildProposal(
+  ctx: ITestContext,
+): AdminProposal {
+  return ctx.perpetual.createAdminProposal()
+    .setFunder(newFunder)
+    .setInsuranceFee(new BaseValue('0.25'))
+    .setFundingRateProvider(fundingRateProvider);
+}
+
+async function execute(
+  ctx: ITestContext,
+  proposal: AdminProposal,
+): Promise<void> {
+  for (const call of proposal.getCalls()) {
+    await ctx.perpetual.web3.eth.sendTransaction({
+      from: admin,
+      to: call.to,
+      data: call.data,
+      value: call.value,
+      gas: 4000000,
+    });
+  }
+}
+
+perpetualDescribe('AdminProposal', init, (ctx: ITestContext) => {
+
+  it('Builds encoded calls with descriptions', async () => {
+    const calls = buildProposal(ctx).getCalls();
+    expect(calls.map(call => call.action)).to.deep.equal([
+      AdminAction.SET_FUNDER,
+      AdminAction.SET_INSURANCE_FEE,
+      AdminAction.SET_FUNDING_RATE_PROVIDER,
+    ]);
+    expect(calls[0]).to.deep.include({
+      to: ctx.perpetual.contracts.perpetualV1.options.address,
+      value: '0',
+      data: ctx.perpetual.contracts.perpetualV1.methods.setFunder(newFunder).encodeABI(),
+      description: `Set the funder of PerpetualV1 to ${newFunder}`,
+    });
+    expect(calls[1].to).to.equal(ctx.perpetual.contracts.p1LiquidatorProxy.options.address);
+    expect(calls[1].args).to.deep.equal({ insuranceFee: '0.25' });
+  });
+
+  it('Simulates the calls from the admin', async () => {
+    const proposal = buildProposal(ctx);
+    const simulations = await proposal.simulate(admin);
+    expect(simulations.map(simulation => simulation.success)).to.deep.equal([true, true, true]);
+
+    const failures = await proposal.simulate(rando);
+    expect(failures.map(simulation => simulation.success)).to.deep.equal([false, false, false]);
+    const error = failures[0].error as PerpetualRevertError;
+    expect(error).to.be.instanceOf(PerpetualRevertError);
+    expect(error.reason).to.equal('Adminable: caller is not admin');
+    expect(error.code).to.equal(PerpetualErrorCode.UNKNOWN);
+  });
+
+  it('Verifies the state after execution', async () => {
+    const proposal = buildProposal(ctx);
+    const before = await proposal.verify();
+    expect(before.map(verification => verification.verified)).to.deep.equal([false, false, false]);
+
+    await execute(ctx, proposal);
+    const after = await proposal.verify();
+    expect(after.map(verification => verification.verified)).to.deep.equal([true, true, true]);
+  });
+
+  it('Exports and re-imports as JSON', async () => {
+    const json = JSON.parse(JSON.stringify(buildProposal(ctx)));
+    const proposal = ctx.perpetual.createAdminProposal(json);
+    expect(proposal.toJSON()).to.deep.equal(json);
+
+    await execute(ctx, proposal);
+    const verifications = await proposal.verify();
+    expect(verifications.every(verification => verification.verified)).to.equal(true);
+  });
+
+  it('Fails to import a call which does not match its action', async () => {
+    const json = buildProposal(ctx).toJSON();
+    json.calls[2].args.fundingRateProvider = rando;
+
+    let error: Error | null = null;
+    try {
+      ctx.perpetual.createAdminProposal(json);
+    } catch (e) {
+      error = e;
+    }
+    expect(error.message).to.equal(
+      'Call 2 of the admin proposal does not match its action and args',
+    );
+  });
+});
@@ -0,0 +1,518 @@
+import BigNumber from 'bignumber.js';
+import http from 'http';
+
+import { expect } from './helpers/Expect';
+import { getMockOrders } from './helpers/MockOrders';
+import {
+  ApiAuthError,
+  ApiError,
+  ApiNetworkError,
+  ApiRateLimitError,
+  ApiServerError,
+  ApiTimeoutError,
+  ApiValidationError,
+} from '../src/lib/ApiErrors';
+import { Api } from '../src/modules/Api';
+import { DEFAULT_FEE_SCHEDULES } from '../src/lib/Constants';
+import {
+  ApiMarketName,
+  ApiOptions,
+  ApiOrderType,
+  ApiRequest,
+  ApiResponse,
+  ApiSide,
+  Fee,
+  PerpetualMarket,
+  Price,
+  SignedOrder,
+} from '../src/lib/types';
+
+const order: SignedOrder = {
+  isBuy: true,
+  isDecreaseOnly: false,
+  amount: new BigNumber(1),
+  limitPrice: new Price(100),
+  triggerPrice: new Price(0),
+  limitFee: new Fee(0),
+  maker: '0x0000000000000000000000000000000000000001',
+  taker: '0x0000000000000000000000000000000000000002',
+  expiration: new BigNumber(0),
+  salt: new BigNumber(1),
+  typedSignature: '0x00',
+};
+
+const orderParams = {
+  side: ApiSide.BUY,
+  amount: '1e8',
+  price: '10000',
+  maker: order.maker,
+  taker: order.taker,
+};
+
+const noRetries = { retries: 0 };
+
+const perpetualOrders = getMockOrders();
+
+function getApi(
+  responses: (ApiResponse | Error)[],
+  options: ApiOptions = {},
+): { api: Api, requests: ApiRequest[] } {
+  const requests: ApiRequest[] = [];
+  const api = new Api(perpetualOrders, {
+    endpoint: 'http://api.test',
+    retry: { minDelay: 1, maxDelay: 1 },
+    transport: async (request: ApiRequest) => {
+      requests.push(request);
+      const response = responses.shift();
+      if (response instanceof Error) {
+        throw response;
+      }
+      return response;
+    },
+    ...options,
+  });
+  return { api, requests };
+}
+
+async function expectApiError(
+  promise: Promise<any>,
+  errorClass: typeof ApiError,
+): Promise<ApiError> {
+  try {
+    await promise;
+  } catch (error) {
+    expect(error).to.be.instanceOf(errorClass);
+    expect(error).to.be.instanceOf(ApiError);
+    return error;
+  }
+  throw new Error('Did not throw');
+}
+
+describe('Api', () => {
+
+  describe('errors', () => {
+
+    it('Preserves the status and body of unsuccessful responses', async () => {
+      const body = { errors: [{ msg: 'market is invalid' }] };
+      const { api } = getApi([{ status: 400, data: body }], { retry: noRetries });
+      const error = await expectApiError(api.getMarkets(), ApiValidationError);
+      expect(error.message).to.equal('market is invalid');
+      expect(error.status).to.equal(400);
+      expect(error.body).to.deep.equal(body);
+    });
+
+    it('Classifies responses by status', async () => {
+      const { api } = getApi(
+        [
+          { status: 401, data: {} },
+          { status: 429, data: { message: 'slow down' }, headers: { 'retry-after': '2' } },
+          { status: 503, data: '' },
+          { status: 404, data: null },
+        ],
+        { retry: noRetries },
+      );
+      await expectApiError(api.getMarkets(), ApiAuthError);
+      const rateLimitError = await expectApiError(api.getMarkets(), ApiRateLimitError);
+      expect(rateLimitError.message).to.equal('slow down');
+      expect((rateLimitError as ApiRateLimitError).retryAfter).to.equal(2000);
+      const serverError = await expectApiError(api.getMarkets(), ApiServerError);
+      expect(serverError.message).to.equal('Request failed with status code 503');
+      const error = await expectApiError(api.getMarkets(), ApiError);
+      expect(error.status).to.equal(404);
+    });
+
+    it('Wraps errors thrown by the transport', async () => {
+      const { api } = getApi([new Error('socket hang up')], { retry: noRetries });
+      const error = await expectApiError(api.getMarkets(), ApiNetworkError);
+      expect(error.message).to.equal('socket hang up');
+      expect(error.status).to.be.null;
+    });
+  });
+
+  describe('retries', () => {
+
+    it('Retries GET requests', async () => {
+      const { api, requests } = getApi([
+        new ApiTimeoutError('timeout'),
+        { status: 502, data: {} },
+        { status: 200, data: { markets: [] } },
+      ]);
+      expect(await api.getMarkets()).to.deep.equal({ markets: [] });
+      expect(requests.length).to.equal(3);
+    });
+
+    it('Stops retrying after the maximum number of retries', async () => {
+      const { api, requests } = getApi([
+        { status: 500, data: {} },
+        { status: 500, data: {} },
+        { status: 500, data: {} },
+        { status: 200, data: {} },
+      ]);
+      await expectApiError(api.getMarkets(), ApiServerError);
+      expect(requests.length).to.equal(3);
+    });
+
+    it('Does not retry client errors or non-GET requests', async () => {
+      const { api, requests } = getApi([
+        { status: 400, data: {} },
+        { status: 500, data: {} },
+        { status: 200, data: {} },
+      ]);
+      await expectApiError(api.getMarkets(), ApiValidationError);
+      await expectApiError(
+        api.submitPerpetualOrder({ order, market: ApiMarketName.PBTC_USDC }),
+        ApiServerError,
+      );
+      expect(requests.length).to.equal(2);
+    });
+  });
+
+  describe('rate limits and interceptors', () => {
+
+    it('Limits the request rate', async () => {
+      const { api } = getApi(
+        [0, 1, 2, 3].map(() => ({ status: 200, data: {} })),
+        { rateLimit: { requestsPerSecond: 20, burst: 2 } },
+      );
+      const start = Date.now();
+      await Promise.all([0, 1, 2, 3].map(() => api.getMarkets()));
+      expect(Date.now() - start).to.be.gte(90);
+    });
+
+    it('Calls interceptors', async () => {
+      const log: string[] = [];
+      const { api, requests } = getApi(
+        [{ status: 200, data: { markets: [] } }],
+        {
+          requestInterceptors: [
+            (request) => {
+              log.push(`${request.method} ${request.url}`);
+              return { ...request, headers: { 'x-request-id': '1' } };
+            },
+          ],
+          responseInterceptors: [
+            (response, request) => {
+              log.push(`${response.status} ${request.headers['x-request-id']}`);
+              return { ...response, data: { ...response.data, intercepted: true } };
+            },
+          ],
+        },
+      );
+      expect(await api.getMarkets()).to.deep.equal({ markets: [], intercepted: true });
+      expect(requests[0].headers).to.deep.equal({ 'x-request-id': '1' });
+      expect(log).to.deep.equal(['get http://api.test/v1/perpetual-markets', '200 1']);
+    });
+  });
+
+  describe('history', () => {
+
+    function fill(uuid: string, createdAt: string) {
+      return { uuid, createdAt: `2020-08-01T00:00:${createdAt}.000Z` };
+    }
+
+    it('Gets orders by id and clientId', async () => {
+      const { api, requests } = getApi([
+        { status: 200, data: { order: { id: '0x1' } } },
+        { status: 200, data: { order: { id: '0x2' } } },
+      ]);
+      expect(await api.getOrder({ orderId: '0x1' })).to.deep.equal({ order: { id: '0x1' } });
+      await api.getOrderByClientId({ clientId: 'abc', accountOwner: order.maker });
+      expect(requests[0].url).to.equal('http://api.test/v2/orders/0x1');
+      expect(requests[1].url).to.equal('http://api.test/v2/orders/client/abc');
+      expect(requests[1].params).to.deep.equal({ accountOwner: order.maker });
+    });
+
+    it('Iterates over pages', async () => {
+      const { api, requests } = getApi([
+        { status: 200, data: { fills: [fill('a', '05'), fill('b', '04'), fill('c', '03')] } },
+        { status: 200, data: { fills: [fill('c', '03'), fill('d', '03'), fill('e', '02')] } },
+        { status: 200, data: { fills: [fill('f', '01')] } },
+      ]);
+      const uuids: string[] = [];
+      for await (const result of api.iterateFills({ accountOwner: order.maker, limit: 3 })) {
+        uuids.push(result.uuid);
+      }
+      expect(uuids).to.deep.equal(['a', 'b', 'c', 'd', 'e', 'f']);
+      expect(requests.map(r => r.params.startingBefore)).to.deep.equal([
+        undefined,
+        '2020-08-01T00:00:03.001Z',
+        '2020-08-01T00:00:02.001Z',
+      ]);
+      expect(requests.every(r => r.params.limit === 3)).to.equal(true);
+    });
+
+    it('Fails to paginate past a full page of results created at the same time', async () => {
+      const page = { fills: [fill('a', '05'), fill('b', '05'), fill('c', '05')] };
+      const { api } = getApi([{ status: 200, data: page }, { status: 200, data: page }]);
+      const uuids: string[] = [];
+      try {
+        for await (const result of api.iterateFills({ accountOwner: order.maker, limit: 3 })) {
+          uuids.push(result.uuid);
+        }
+        throw new Error('Did not throw');
+      } catch (error) {
+        expect(error.message).to.equal(
+          'Cannot paginate past 2020-08-01T00:00:05.000Z, since at least 3 results were created ' +
+          'at that time. Use a larger limit',
+        );
+      }
+      expect(uuids).to.deep.equal(['a', 'b', 'c']);
+    });
+  });
+
+  describe('fee schedules', () => {
+
+    it('Gets the fee schedule of a market', async () => {
+      const feeSchedule = DEFAULT_FEE_SCHEDULES[PerpetualMarket.PBTC_USDC];
+      const { api, requests } = getApi([{ status: 200, data: { feeSchedule } }]);
+      const result = await api.getFeeSchedule({ market: ApiMarketName.PBTC_USDC });
+      expect(result).to.deep.equal(feeSchedule);
+      expect(requests[0].url).to.equal('http://api.test/v1/fee-schedules/PBTC-USDC');
+      perpetualOrders.setFeeSchedule(result);
+    });
+
+    it('Fails for invalid fee schedules', async () => {
+      const feeSchedule = DEFAULT_FEE_SCHEDULES[PerpetualMarket.PBTC_USDC];
+      const cases = [
+        {
+          data: { feeSchedule: DEFAULT_FEE_SCHEDULES[PerpetualMarket.WETH_PUSD] },
+          message: 'Fee schedule is for WETH-PUSD, not PBTC-USDC',
+        },
+        {
+          data: { feeSchedule: { ...feeSchedule, tiers: [] } },
+          message: 'The first fee tier must have a minAmount of zero',
+        },
+        {
+          data: {},
+          message: 'No fee schedule was returned for PBTC-USDC',
+        },
+      ];
+      const { api } = getApi(cases.map(({ data }) => ({ data, status: 200 })));
+      for (const { message } of cases) {
+        try {
+          await api.getFeeSchedule({ market: ApiMarketName.PBTC_USDC });
+          throw new Error('Did not throw');
+        } catch (error) {
+          expect(error.message).to.equal(message);
+        }
+      }
+    });
+  });
+
+  describe('cancelations', () => {
+
+    it('Cancels the open orders of every page', async () => {
+      const orders = Array.from({ length: 101 }, (_, i) => ({
+        id: `0x${i}`,
+        uuid: `${i}`,
+        createdAt: new Date(Date.UTC(2020, 7, 1) - i * 1000).toISOString(),
+      }));
+      const { api, requests } = getApi([
+        { status: 200, data: { orders: orders.slice(0, 100) } },
+        { status: 200, data: { orders: orders.slice(100) } },
+        { status: 200, data: { orders: [] } },
+      ]);
+      await api.cancelAllOrders({ maker: order.maker, market: ApiMarketName.PBTC_USDC });
+      expect(requests.map(r => r.method)).to.deep.equal(['get', 'get', 'delete']);
+      expect(requests[0].params.market).to.equal(ApiMarketName.PBTC_USDC);
+      expect(requests[1].params.startingBefore).to.equal('2020-07-31T23:58:21.001Z');
+      expect(requests[2].data).to.deep.equal({ orderIds: orders.map(o => o.id) });
+    });
+  });
+
+  describe('conditional orders', () => {
+    it('Places stop-limit orders', async () => {
+      const { api, requests } = getApi([{ status: 200, data: { order: {} } }]);
+      await api.placeStopLimitOrder({
+        order: orderParams,
+        market: ApiMarketName.PBTC_USDC,
+        triggerPrice: '9900',
+        oraclePrice: '9800',
+      });
+      const { data } = requests[0];
+      expect(data.orderType).to.equal(ApiOrderType.PERPETUAL_STOP_LIMIT);
+      expect(data.triggerPrice).to.be.undefined;
+      expect(data.order.triggerPrice).to.equal('9900');
+      expect(data.order.isDecreaseOnly).to.equal(false);
+    });
+
+    it('Compares trigger prices with the oracle price from the API in protocol units', async () => {
+      const market = ApiMarketName.PBTC_USDC;
+      const { api, requests } = getApi([
+        { status: 200, data: { markets: [{ market, oraclePrice: '9800' }] } },
+        { status: 200, data: { order: {} } },
+        { status: 200, data: { markets: [{ market, oraclePrice: '9800' }] } },
+      ]);
+      await api.placeStopLimitOrder({ market, order: orderParams, triggerPrice: '99' });
+      expect(requests[1].data.order.triggerPrice).to.equal('99');
+
+      try {
+        await api.placeStopLimitOrder({ market, order: orderParams, triggerPrice: '97' });
+        throw new Error('Did not throw');
+      } catch (error) {
+        expect(error.message).to.equal(
+          'triggerPrice: 97 has already been reached at the oracle price 98',
+        );
+      }
+      expect(requests.length).to.equal(3);
+    });
+
+    it('Places take-profit orders', async () => {
+      const market = ApiMarketName.PBTC_USDC;
+      const { api, requests } = getApi([
+        { status: 200, data: { markets: [{ market, oraclePrice: '9800' }] } },
+        { status: 200, data: { order: {} } },
+      ]);
+      await api.placeTakeProfitOrder({
+        market,
+        order: { ...orderParams, side: ApiSide.SELL, price: '99' },
+      });
+      const { data } = requests[1];
+      expect(data.orderType).to.be.undefined;
+      expect(data.order.limitPrice).to.equal('99');
+      expect(data.order.triggerPrice).to.equal('0');
+      expect(data.order.isBuy).to.equal(false);
+      expect(data.order.isDecreaseOnly).to.equal(true);
+    });
+
+    it('Fails for take-profit prices on the wrong side of the oracle price', async () => {
+      const { api, requests } = getApi([]);
+      const market = ApiMarketName.PBTC_USDC;
+      const oraclePrice = 9800;
+      const cases = [
+        {
+          order: { ...orderParams, price: 9800 },
+          message: 'price: 9800 must be below the oracle price 9800 for a take-profit buy',
+        },
+        {
+          order: { ...orderParams, side: ApiSide.SELL, price: 9700 },
+          message: 'price: 9700 must be above the oracle price 9800 for a take-profit sell',
+        },
+      ];
+      for (const { order: takeProfit, message } of cases) {
+        try {
+          await api.placeTakeProfitOrder({ market, oraclePrice, order: takeProfit });
+          throw new Error('Did not throw');
+        } catch (error) {
+          expect(error.message).to.equal(message);
+        }
+      }
+      expect(requests.length).to.equal(0);
+    });
+
+    it('Places reduce-only orders', async () => {
+      const { api, requests } = getApi([{ status: 200, data: { order: {} } }]);
+      await api.placeReduceOnlyOrder({ order: orderParams, market: ApiMarketName.PBTC_USDC });
+      const { data } = requests[0];
+      expect(data.orderType).to.be.undefined;
+      expect(data.order.triggerPrice).to.equal('0');
+      expect(data.order.isDecreaseOnly).to.equal(true);
+    });
+
+    it('Fails for trigger prices which have already been reached', async () => {
+      const { api, requests } = getApi([]);
+      const market = ApiMarketName.PBTC_USDC;
+      const buy = orderParams;
+      const sell = { ...orderParams, side: ApiSide.SELL };
+      const oraclePrice = 9800;
+      const cases = [
+        () => api.placeStopLimitOrder({ market, oraclePrice, order: buy, triggerPrice: 9800 }),
+        () => api.placeStopLimitOrder({ market, oraclePrice, order: sell, triggerPrice: 9900 }),
+      ];
+      for (const placeOrder of cases) {
+        try {
+          await placeOrder();
+          throw new Error('Did not throw');
+        } catch (error) {
+          expect(error.message).to.contain('has already been reached at the oracle price 9800');
+        }
+      }
+      expect(requests.length).to.equal(0);
+
+      try {
+        await api.placeStopLimitOrder({ market, order: orderParams, triggerPrice: 0 });
+        throw new Error('Did not throw');
+      } catch (error) {
+        expect(error.message).to.equal('triggerPrice: 0 must be positive');
+      }
+    });
+  });
+
+  describe('human units', () => {
+    it('Converts human amounts and prices', async () => {
+      const { api, requests } = getApi([
+        { status: 200, data: { order: {} } },
+        { status: 200, data: { order: {} } },
+      ]);
+      await api.placePerpetualOrder({
+        market: ApiMarketName.PBTC_USDC,
+        order: { ...orderParams, amount: '0.5', price: '10000', humanUnits: true },
+      });
+      await api.placeStopLimitOrder({
+        market: ApiMarketName.WETH_PUSD,
+        order: { ...orderParams, amount: '1000', price: '2000', humanUnits: true },
+        triggerPrice: '1990',
+        oraclePrice: '1980',
+      });
+      expect(requests[0].data.order.amount).to.equal('50000000');
+      expect(requests[0].data.order.limitPrice).to.equal('100');
+      expect(requests[1].data.order.amount).to.equal('1000000000');
+      expect(new BigNumber(requests[1].data.order.limitPrice).toFixed()).to.equal('0.000000002');
+      expect(new BigNumber(requests[1].data.order.triggerPrice).toFixed())
+        .to.equal('0.00000000199');
+    });
+
+    it('Fails for amounts smaller than the token allows', async () => {
+      const { api, requests } = getApi([]);
+      try {
+        await api.placePerpetualOrder({
+          market: ApiMarketName.PBTC_USDC,
+          order: { ...orderParams, amount: '0.000000001', humanUnits: true },
+        });
+        throw new Error('Did not throw');
+      } catch (error) {
+        expect(error.message).to.equal('amount: 0.000000001 has more than 8 decimal places');
+      }
+      expect(requests.length).to.equal(0);
+    });
+  });
+
+  describe('axios transport', () => {
+    let server: http.Server;
+    let endpoint: string;
+
+    before(async () => {
+      server = http.createServer((request, response) => {
+        if (request.url === '/v1/perpetual-markets') {
+          response.writeHead(422, { 'content-type': 'application/json' });
+          response.end(JSON.stringify({ errors: [{ msg: 'invalid' }] }));
+        }
+        // Other requests are never answered.
+      });
+      await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as { port: number };
+      endpoint = `http://127.0.0.1:${port}`;
+    });
+
+    after(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('Parses error responses', async () => {
+      const api = new Api(null, { endpoint, retry: noRetries });
+      const error = await expectApiError(api.getMarkets(), ApiValidationError);
+      expect(error.message).to.equal('invalid');
+      expect(error.status).to.equal(422);
+    });
+
+    it('Times out', async () => {
+      const api = new Api(null, { endpoint, timeout: 50, retry: noRetries });
+      await expectApiError(api.getOrderbook({ market: ApiMarketName.PBTC_USDC }), ApiTimeoutError);
+    });
+
+    it('Fails to connect', async () => {
+      const api = new Api(null, { endpoint: 'http://127.0.0.1:1', retry: noRetries });
+      await expectApiError(api.getMarkets(), ApiNetworkError);
+    });
+  });
+});
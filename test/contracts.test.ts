@@ -0,0 +1,90 @@
+import { expect } from './helpers/Expect';
+import { MockProvider } from './helpers/MockProvider';
+import { Perpetual } from '../src/Perpetual';
+import { ConfirmationType, Networks, PerpetualMarket } from '../src/lib/types';
+
+const from = '0x00000000000000000000000000000000000000ab';
+const to = '0x0000000000000000000000000000000000000002';
+const funder = '0x0000000000000000000000000000000000000003';
+const transactionHash = `0x${'12'.repeat(32)}`;
+const rpcReceipt = {
+  transactionHash,
+  from,
+  to,
+  blockHash: `0x${'34'.repeat(32)}`,
+  blockNumber: '0x1',
+  transactionIndex: '0x0',
+  cumulativeGasUsed: '0x5208',
+  gasUsed: '0x5208',
+  effectiveGasPrice: '0x59682f00',
+  logs: [],
+  status: '0x1',
+};
+
+describe('Contracts', () => {
+
+  it('Sends EIP-1559 transactions without a gasPrice', async () => {
+    const provider = new MockProvider({
+      eth_gasPrice: '0x3b9aca00',
+      eth_sendTransaction: transactionHash,
+      eth_blockNumber: '0x1',
+      eth_getTransactionReceipt: { ...rpcReceipt },
+    });
+    const perpetual = new Perpetual(provider as any, PerpetualMarket.PBTC_USDC);
+    perpetual.contracts.perpetualV1.options.address = to;
+
+    const method = perpetual.contracts.perpetualV1.methods.setFunder(funder);
+    const receipt = await perpetual.contracts.send(method, {
+      from,
+      gas: 100000,
+      maxFeePerGas: '2000000000',
+      maxPriorityFeePerGas: '1000000000',
+      confirmationType: ConfirmationType.Confirmed,
+    });
+
+    const requests = provider.getRequests('eth_sendTransaction');
+    expect(requests.map(request => request.params)).to.deep.equal([[{
+      from,
+      to,
+      data: method.encodeABI(),
+      value: '0x0',
+      gas: '0x186a0',
+      maxFeePerGas: '0x77359400',
+      maxPriorityFeePerGas: '0x3b9aca00',
+    }]]);
+    expect(provider.getRequests('eth_gasPrice')).to.deep.equal([]);
+    expect(receipt.transactionHash).to.equal(transactionHash);
+    expect(receipt.effectiveGasPrice).to.equal('1500000000');
+  });
+
+  it('Sends through the TxManager with the gas price of the node without fees', async () => {
+    const provider = new MockProvider({
+      eth_gasPrice: '0x3b9aca00',
+      eth_getTransactionCount: '0x7',
+      eth_sendTransaction: transactionHash,
+      eth_blockNumber: '0x1',
+      eth_getTransactionReceipt: { ...rpcReceipt },
+    });
+    const perpetual = new Perpetual(
+      provider as any,
+      PerpetualMarket.PBTC_USDC,
+      Networks.MAINNET,
+      { txManagerOptions: {} },
+    );
+    perpetual.contracts.perpetualV1.options.address = to;
+
+    const method = perpetual.contracts.perpetualV1.methods.setFunder(funder);
+    const txResult = await perpetual.contracts.send(method, {
+      from,
+      gas: 100000,
+      confirmationType: ConfirmationType.Hash,
+    });
+
+    const requests = provider.getRequests('eth_sendTransaction');
+    expect(requests.length).to.equal(1);
+    expect(requests[0].params[0].gasPrice).to.equal('0x3b9aca00');
+    expect(requests[0].params[0].nonce).to.equal('0x7');
+    expect(txResult.transactionHash).to.equal(transactionHash);
+    expect(txResult.nonce).to.equal(7);
+  });
+});
@@ -0,0 +1,219 @@
+import BigNumber from 'bignumber.js';
+
+import { fastForward } from './helpers/EVM';
+import initializePerpetual from './helpers/initializePerpetual';
+import { mintAndDeposit } from './helpers/balances';
+import { ITestContext, perpetualDescribe } from './helpers/perpetualDescribe';
+import { buy } from './helpers/trade';
+import { expect, expectBN } from './helpers/Expect';
+import { DeleveragingKeeper } from '../src/modules/DeleveragingKeeper';
+import { DeleveragingAction, Price, address } from '../src/lib/types';
+
+const initialPrice = new Price(100);
+const longBorderlinePrice = new Price(50);
+const longUnderwaterPrice = new Price('49.999999');
+const positionSize = new BigNumber(10);
+
+let admin: address;
+let long: address;
+let short: address;
+let rando: address;
+let deleveragingOperator: address;
+let deleveragingTimelockSeconds: number;
+let startBlock: number;
+
+async function init(ctx: ITestContext): Promise<void> {
+  await initializePerpetual(ctx);
+  admin = ctx.accounts[0];
+  long = ctx.accounts[1];
+  short = ctx.accounts[2];
+  rando = ctx.accounts[3];
+  deleveragingOperator = ctx.accounts[4];
+  deleveragingTimelockSeconds = await ctx.perpetual.deleveraging.getDeleveragingTimelockSeconds();
+  startBlock = await ctx.perpetual.web3.eth.getBlockNumber();
+
+  // Set up initial balances:
+  // +---------+--------+----------+-------------------+
+  // | account | margin | position | collateralization |
+  // |---------+--------+----------+-------------------|
+  // | long    |   -500 |       10 |              200% |
+  // | short   |   1500 |      -10 |              150% |
+  // +---------+--------+----------+-------------------+
+  await Promise.all([
+    ctx.perpetual.testing.oracle.setPrice(initialPrice),
+    ctx.perpetual.deleveraging.setDeleveragingOperator(deleveragingOperator, { from: admin }),
+    mintAndDeposit(ctx, long, new BigNumber(500)),
+    mintAndDeposit(ctx, short, new BigNumber(500)),
+  ]);
+  await buy(ctx, long, short, positionSize, new BigNumber(1000));
+}
+
+perpetualDescribe('DeleveragingKeeper', init, (ctx: ITestContext) => {
+
+  it('Tracks accounts from events', async () => {
+    const keeper = new DeleveragingKeeper(ctx.perpetual, { sender: rando });
+    await keeper.sync(startBlock + 1);
+    expect(keeper.getAccounts().sort()).to.deep.equal(
+      [long, short].map(a => a.toLowerCase()).sort(),
+    );
+  });
+
+  it('Does nothing if no account is underwater', async () => {
+    const keeper = new DeleveragingKeeper(ctx.perpetual, { sender: rando });
+    keeper.addAccounts([long, short]);
+    await ctx.perpetual.testing.oracle.setPrice(longBorderlinePrice);
+    const entries = await keeper.run();
+    expect(entries).to.deep.equal([]);
+  });
+
+  it('Marks, waits for the timelock, and deleverages an underwater account', async () => {
+    const keeper = new DeleveragingKeeper(ctx.perpetual, { sender: rando });
+    keeper.addAccounts([long, short]);
+    await ctx.perpetual.testing.oracle.setPrice(longUnderwaterPrice);
+
+    // Mark the account.
+    let entries = await keeper.run();
+    expect(entries.length).to.equal(1);
+    expect(entries[0].action).to.equal(DeleveragingAction.Mark);
+    expect(entries[0].account).to.equal(long.toLowerCase());
+    expect(entries[0].transactionHash).to.not.be.undefined;
+    expect(keeper.getMarkedTimestamp(long)).to.not.be.null;
+
+    // Wait for the timelock.
+    entries = await keeper.run();
+    expect(entries).to.deep.equal([]);
+    await fastForward(deleveragingTimelockSeconds);
+
+    // Deleverage the account.
+    entries = await keeper.run();
+    expect(entries.length).to.equal(1);
+    expect(entries[0].action).to.equal(DeleveragingAction.Deleverage);
+    expect(entries[0].counterparty).to.equal(short.toLowerCase());
+    expectBN(entries[0].amount).to.equal(positionSize);
+    expect(entries[0].error).to.be.undefined;
+    expect(keeper.getMarkedTimestamp(long)).to.be.null;
+
+    const longBalance = await ctx.perpetual.getters.getAccountBalance(long);
+    expectBN(longBalance.position).to.equal(0);
+    expect(keeper.getAuditLog().map(e => e.action)).to.deep.equal([
+      DeleveragingAction.Mark,
+      DeleveragingAction.Deleverage,
+    ]);
+  });
+
+  it('Unmarks an account which is no longer underwater', async () => {
+    const keeper = new DeleveragingKeeper(ctx.perpetual, { sender: rando });
+    keeper.addAccounts([long, short]);
+    await ctx.perpetual.testing.oracle.setPrice(longUnderwaterPrice);
+    await keeper.run();
+
+    await ctx.perpetual.testing.oracle.setPrice(longBorderlinePrice);
+    const entries = await keeper.run();
+    expect(entries.length).to.equal(1);
+    expect(entries[0].action).to.equal(DeleveragingAction.Unmark);
+    expect(entries[0].error).to.be.undefined;
+    expect(keeper.getMarkedTimestamp(long)).to.be.null;
+  });
+
+  it('Syncs mark timestamps from events', async () => {
+    await ctx.perpetual.testing.oracle.setPrice(longUnderwaterPrice);
+    const txResult = await ctx.perpetual.deleveraging.mark(long);
+    const block = await ctx.perpetual.web3.eth.getBlock(txResult.blockNumber);
+
+    const keeper = new DeleveragingKeeper(ctx.perpetual, { sender: rando });
+    await keeper.sync(startBlock + 1);
+    expect(keeper.getMarkedTimestamp(long)).to.equal(Number(block.timestamp));
+  });
+
+  it('Does not mark an account which is already marked', async () => {
+    await ctx.perpetual.testing.oracle.setPrice(longUnderwaterPrice);
+    const txResult = await ctx.perpetual.deleveraging.mark(long);
+    const block = await ctx.perpetual.web3.eth.getBlock(txResult.blockNumber);
+    expect(await ctx.perpetual.deleveraging.getMarkedTimestamp(long)).to.equal(
+      Number(block.timestamp),
+    );
+
+    // Start without syncing, as after a restart.
+    const keeper = new DeleveragingKeeper(ctx.perpetual, { sender: rando });
+    keeper.addAccounts([long, short]);
+    let entries = await keeper.run();
+    expect(entries).to.deep.equal([]);
+    expect(keeper.getMarkedTimestamp(long)).to.equal(Number(block.timestamp));
+
+    await fastForward(deleveragingTimelockSeconds);
+    entries = await keeper.run();
+    expect(entries.length).to.equal(1);
+    expect(entries[0].action).to.equal(DeleveragingAction.Deleverage);
+    expect(entries[0].error).to.be.undefined;
+  });
+
+  it('Deleverages without marking as the deleveraging operator', async () => {
+    const keeper = new DeleveragingKeeper(ctx.perpetual, { sender: deleveragingOperator });
+    keeper.addAccounts([long, short]);
+    await ctx.perpetual.testing.oracle.setPrice(longUnderwaterPrice);
+
+    const entries = await keeper.run();
+    expect(entries.length).to.equal(1);
+    expect(entries[0].action).to.equal(DeleveragingAction.Deleverage);
+    expect(entries[0].error).to.be.undefined;
+  });
+
+  it('Deleverages against several counterparties in separate transactions', async () => {
+    const otherShort = ctx.accounts[5];
+    await mintAndDeposit(ctx, otherShort, new BigNumber(500));
+    await buy(ctx, short, otherShort, positionSize.div(2), new BigNumber(500));
+
+    const keeper = new DeleveragingKeeper(ctx.perpetual, { sender: deleveragingOperator });
+    keeper.addAccounts([long, short, otherShort]);
+    await ctx.perpetual.testing.oracle.setPrice(longUnderwaterPrice);
+
+    const entries = await keeper.run();
+    expect(entries.length).to.equal(2);
+    expect(entries.map(e => e.counterparty).sort()).to.deep.equal(
+      [short, otherShort].map(a => a.toLowerCase()).sort(),
+    );
+    entries.forEach((entry) => {
+      expect(entry.action).to.equal(DeleveragingAction.Deleverage);
+      expect(entry.error).to.be.undefined;
+      expectBN(entry.amount).to.equal(positionSize.div(2));
+    });
+    expect(entries[0].transactionHash).to.not.equal(entries[1].transactionHash);
+
+    const longBalance = await ctx.perpetual.getters.getAccountBalance(long);
+    expectBN(longBalance.position).to.equal(0);
+  });
+
+  it('Keeps polling after an error', async () => {
+    const errors: Error[] = [];
+    const keeper = new DeleveragingKeeper(ctx.perpetual, {
+      sender: rando,
+      pollInterval: 1,
+      onError: error => errors.push(error),
+    });
+    let runs = 0;
+    keeper.run = async () => {
+      runs += 1;
+      if (runs === 1) {
+        throw new Error('connection reset');
+      }
+      keeper.stop();
+      return [];
+    };
+    await keeper.start();
+    expect(runs).to.equal(2);
+    expect(errors.map(error => error.message)).to.deep.equal(['connection reset']);
+  });
+
+  it('Does not send transactions in dry-run mode', async () => {
+    const keeper = new DeleveragingKeeper(ctx.perpetual, { sender: rando, dryRun: true });
+    keeper.addAccounts([long, short]);
+    await ctx.perpetual.testing.oracle.setPrice(longUnderwaterPrice);
+
+    const entries = await keeper.run();
+    expect(entries.length).to.equal(1);
+    expect(entries[0].action).to.equal(DeleveragingAction.Mark);
+    expect(entries[0].dryRun).to.equal(true);
+    expect(entries[0].transactionHash).to.be.undefined;
+    expect(keeper.getMarkedTimestamp(long)).to.be.null;
+  });
+});
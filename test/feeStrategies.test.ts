@@ -0,0 +1,77 @@
+import Web3 from 'web3';
+
+import { expect } from './helpers/Expect';
+import {
+  CallbackFeeStrategy,
+  FeeHistoryStrategy,
+  StaticFeeStrategy,
+} from '../src/lib/FeeStrategies';
+
+/**
+ * Answers eth_feeHistory with the given result, or with an error if none is given.
+ */
+function getWeb3(
+  feeHistory: any,
+  requests: any[] = [],
+): Web3 {
+  return {
+    currentProvider: {
+      send: (payload: any, callback: Function) => {
+        requests.push(payload);
+        callback(
+          null,
+          feeHistory
+            ? { result: feeHistory }
+            : { error: { message: 'the method eth_feeHistory does not exist' } },
+        );
+      },
+    },
+    eth: {
+      getGasPrice: async () => '20000000000',
+    },
+  } as any as Web3;
+}
+
+describe('FeeStrategies', () => {
+
+  it('Uses static fees', async () => {
+    const fees = { maxFeePerGas: '100', maxPriorityFeePerGas: '2' };
+    expect(await new StaticFeeStrategy(fees).getFees()).to.deep.equal(fees);
+  });
+
+  it('Uses fees from a callback', async () => {
+    const strategy = new CallbackFeeStrategy(async () => ({ gasPrice: '5' }));
+    expect(await strategy.getFees()).to.deep.equal({ gasPrice: '5' });
+  });
+
+  it('Uses a percentile of the priority fees of recent blocks', async () => {
+    const requests: any[] = [];
+    const web3 = getWeb3(
+      {
+        baseFeePerGas: ['0x3b9aca00', '0x3b9aca00', '0x77359400'], // 1, 1 and 2 gwei
+        reward: [['0x3b9aca00'], ['0x77359401']], // 1 and 2 gwei plus 1 wei
+      },
+      requests,
+    );
+    const strategy = new FeeHistoryStrategy(web3, { blockCount: 2, rewardPercentile: 25 });
+    expect(await strategy.getFees()).to.deep.equal({
+      maxFeePerGas: '5500000001',
+      maxPriorityFeePerGas: '1500000001',
+    });
+    expect(requests[0].method).to.equal('eth_feeHistory');
+    expect(requests[0].params).to.deep.equal(['0x2', 'latest', [25]]);
+
+    const minStrategy = new FeeHistoryStrategy(web3, { minPriorityFee: '3000000000' });
+    expect((await minStrategy.getFees()).maxPriorityFeePerGas).to.equal('3000000000');
+  });
+
+  it('Falls back to the gas price on networks without EIP-1559', async () => {
+    expect(await new FeeHistoryStrategy(getWeb3(null)).getFees()).to.deep.equal({
+      gasPrice: '20000000000',
+    });
+    const legacyHistory = { oldestBlock: '0x1', reward: [['0x0']] };
+    expect(await new FeeHistoryStrategy(getWeb3(legacyHistory)).getFees()).to.deep.equal({
+      gasPrice: '20000000000',
+    });
+  });
+});
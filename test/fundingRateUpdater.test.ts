@@ -0,0 +1,206 @@
+import BigNumber from 'bignumber.js';
+
+import {
+  FUNDING_RATE_MAX_ABS_VALUE,
+  FUNDING_RATE_MAX_ABS_DIFF_PER_SECOND,
+  INTEGERS,
+} from '../src/lib/Constants';
+import {
+  BaseValue,
+  FundingPremiumSource,
+  FundingRate,
+  address,
+} from '../src/lib/types';
+import { fastForward } from './helpers/EVM';
+import { expect, expectBaseValueEqual } from './helpers/Expect';
+import initializePerpetual from './helpers/initializePerpetual';
+import {
+  ITestContext,
+  inversePerpetualDescribe,
+  perpetualDescribe,
+} from './helpers/perpetualDescribe';
+import { FundingRateUpdater } from '../src/modules/FundingRateUpdater';
+
+let admin: address;
+let fundingRateProvider: address;
+let premium: BaseValue;
+
+const source: FundingPremiumSource = {
+  getPremium: async () => premium,
+};
+
+async function init(ctx: ITestContext): Promise<void> {
+  await initializePerpetual(ctx);
+  admin = ctx.accounts[0];
+  fundingRateProvider = ctx.accounts[1];
+  premium = new BaseValue('0.001');
+  await ctx.perpetual.fundingOracle.setFundingRateProvider(
+    fundingRateProvider,
+    { from: admin },
+  );
+}
+
+perpetualDescribe('FundingRateUpdater', init, (ctx: ITestContext) => {
+
+  describe('boundRate()', () => {
+
+    const bounds = {
+      maxAbsValue: FUNDING_RATE_MAX_ABS_VALUE,
+      maxAbsDiffPerSecond: FUNDING_RATE_MAX_ABS_DIFF_PER_SECOND,
+    };
+    const lastUpdate = {
+      timestamp: new BigNumber(1000),
+      baseValue: new BaseValue(0),
+    };
+
+    it('does not bound a rate within the limits', async () => {
+      const updater = new FundingRateUpdater(ctx.perpetual, source, { fundingRateProvider });
+      const rate = new FundingRate('1e-10');
+      const bounded = updater.boundRate(rate, lastUpdate, 1000 + 3600, bounds);
+      expectBaseValueEqual(bounded, rate);
+    });
+
+    it('bounds the rate by the max absolute value', async () => {
+      const updater = new FundingRateUpdater(ctx.perpetual, source, { fundingRateProvider });
+      const timestamp = 1000 + INTEGERS.ONE_DAY_IN_SECONDS.toNumber();
+      expectBaseValueEqual(
+        updater.boundRate(FUNDING_RATE_MAX_ABS_VALUE.times(2), lastUpdate, timestamp, bounds),
+        FUNDING_RATE_MAX_ABS_VALUE,
+      );
+      expectBaseValueEqual(
+        updater.boundRate(FUNDING_RATE_MAX_ABS_VALUE.times(-2), lastUpdate, timestamp, bounds),
+        FUNDING_RATE_MAX_ABS_VALUE.negated(),
+      );
+    });
+
+    it('bounds the rate by the max difference per second', async () => {
+      const updater = new FundingRateUpdater(ctx.perpetual, source, { fundingRateProvider });
+      const maxDiff = FUNDING_RATE_MAX_ABS_DIFF_PER_SECOND.times(60);
+      expectBaseValueEqual(
+        updater.boundRate(FUNDING_RATE_MAX_ABS_VALUE, lastUpdate, 1000 + 60, bounds),
+        maxDiff,
+      );
+      expectBaseValueEqual(
+        updater.boundRate(FUNDING_RATE_MAX_ABS_VALUE.negated(), lastUpdate, 1000 + 60, bounds),
+        maxDiff.negated(),
+      );
+    });
+
+    it('fails if the timestamp is before the last update', async () => {
+      const updater = new FundingRateUpdater(ctx.perpetual, source, { fundingRateProvider });
+      expect(
+        () => updater.boundRate(new FundingRate(0), lastUpdate, 999, bounds),
+      ).to.throw('The timestamp must not be before the timestamp of the last update');
+    });
+  });
+
+  describe('predictRate()', () => {
+
+    it('matches the rate simulated by the contract', async () => {
+      const updater = new FundingRateUpdater(ctx.perpetual, source, { fundingRateProvider });
+      const rate = FUNDING_RATE_MAX_ABS_VALUE.plus('1e-18');
+      await fastForward(INTEGERS.ONE_HOUR_IN_SECONDS.toNumber());
+      const [predicted, simulated] = await Promise.all([
+        updater.predictRate(new FundingRate(rate.value)),
+        ctx.perpetual.fundingOracle.getBoundedFundingRate(
+          new FundingRate(rate.value),
+          { from: fundingRateProvider },
+        ),
+      ]);
+      expectBaseValueEqual(predicted, simulated);
+      expectBaseValueEqual(predicted, FUNDING_RATE_MAX_ABS_VALUE);
+    });
+  });
+
+  describe('update()', () => {
+
+    it('posts the rate computed from the premium', async () => {
+      const updater = new FundingRateUpdater(ctx.perpetual, source, { fundingRateProvider });
+      await fastForward(INTEGERS.ONE_HOUR_IN_SECONDS.toNumber());
+      const update = await updater.update();
+
+      const expectedRate = FundingRate.fromEightHourRate(premium.value);
+      expect(update.error).to.be.undefined;
+      expectBaseValueEqual(update.requestedRate, expectedRate);
+      expectBaseValueEqual(update.predictedRate, update.rate);
+      expectBaseValueEqual(
+        await ctx.perpetual.fundingOracle.getFundingRate(),
+        update.rate,
+      );
+
+      // The last update is read from the transaction.
+      const lastUpdate = await updater.getLastUpdate();
+      expectBaseValueEqual(lastUpdate.baseValue, update.rate);
+    });
+
+    it('finds the last update from events', async () => {
+      await fastForward(INTEGERS.ONE_HOUR_IN_SECONDS.toNumber());
+      const rate = new FundingRate('1e-10');
+      await ctx.perpetual.fundingOracle.setFundingRate(rate, { from: fundingRateProvider });
+
+      const updater = new FundingRateUpdater(
+        ctx.perpetual,
+        source,
+        { fundingRateProvider, searchBlockWindow: 2 },
+      );
+      const lastUpdate = await updater.getLastUpdate();
+      expectBaseValueEqual(lastUpdate.baseValue, rate);
+    });
+
+    it('records an error if the sender is not the funding rate provider', async () => {
+      const updater = new FundingRateUpdater(
+        ctx.perpetual,
+        source,
+        { fundingRateProvider: admin },
+      );
+      const update = await updater.update();
+      expect(update.error).to.not.be.undefined;
+      expect(update.rate).to.be.undefined;
+    });
+  });
+
+  describe('start()', () => {
+
+    it('keeps posting updates after an error', async () => {
+      const errors: Error[] = [];
+      const failingSource: FundingPremiumSource = {
+        getPremium: async () => {
+          if (errors.length === 0) {
+            throw new Error('premium unavailable');
+          }
+          return premium;
+        },
+      };
+      const updater = new FundingRateUpdater(
+        ctx.perpetual,
+        failingSource,
+        { fundingRateProvider, interval: 10, onError: error => errors.push(error) },
+      );
+      await updater.start((update) => {
+        expect(update.error).to.be.undefined;
+        updater.stop();
+      });
+      expect(errors.map(error => error.message)).to.deep.equal(['premium unavailable']);
+    });
+  });
+});
+
+inversePerpetualDescribe('FundingRateUpdater (inverse)', init, (ctx: ITestContext) => {
+
+  it('negates the rate so that positive positions pay a positive premium', async () => {
+    const updater = new FundingRateUpdater(ctx.perpetual, source, { fundingRateProvider });
+    await fastForward(INTEGERS.ONE_HOUR_IN_SECONDS.toNumber());
+    const update = await updater.update();
+
+    const expectedRate = FundingRate.fromEightHourRate(premium.value).negated();
+    expect(update.error).to.be.undefined;
+    expectBaseValueEqual(update.requestedRate, expectedRate);
+    expectBaseValueEqual(update.predictedRate, update.rate);
+
+    // The contract flips the sign of the stored rate when funding is applied.
+    const [isPositive] = await ctx.perpetual.contracts.call(
+      ctx.perpetual.contracts.p1InverseFundingOracle.methods.getFunding(1),
+    );
+    expect(isPositive).to.equal(true);
+  });
+});
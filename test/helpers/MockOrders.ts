@@ -0,0 +1,21 @@
+import Web3 from 'web3';
+
+import { Perpetual } from '../../src/Perpetual';
+import { Orders } from '../../src/modules/Orders';
+import { PerpetualMarket } from '../../src/lib/types';
+
+/**
+ * Returns the Orders module of a market, with signing replaced so that orders can be placed and
+ * canceled through the API without a node. The provider is never called.
+ */
+export function getMockOrders(
+  market: PerpetualMarket = PerpetualMarket.PBTC_USDC,
+): Orders {
+  const provider = new Web3.providers.HttpProvider('http://localhost:8545');
+  const { orders } = new Perpetual(provider, market);
+  orders.signOrder = async () => '0x00';
+  orders.signCancelOrder = async () => '0x00';
+  orders.signCancelOrderByHash = async () => '0x00';
+  orders.signCancelOrders = async () => '0x00';
+  return orders;
+}
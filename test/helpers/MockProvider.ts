@@ -0,0 +1,34 @@
+/**
+ * A JSON-RPC provider which records every request and answers it from a fixed set of results.
+ * Like a real provider, it answers asynchronously, after web3 has attached its event listeners.
+ */
+export class MockProvider {
+  public requests: any[] = [];
+  private results: { [method: string]: any };
+
+  constructor(
+    results: { [method: string]: any },
+  ) {
+    this.results = results;
+  }
+
+  public send(
+    payload: any,
+    callback: (error: Error | null, response?: any) => void,
+  ): void {
+    this.requests.push(payload);
+    setImmediate(() => {
+      if (!(payload.method in this.results)) {
+        callback(new Error(`Unexpected request ${payload.method}`));
+        return;
+      }
+      callback(null, { jsonrpc: '2.0', id: payload.id, result: this.results[payload.method] });
+    });
+  }
+
+  public getRequests(
+    method: string,
+  ): any[] {
+    return this.requests.filter(request => request.method === method);
+  }
+}
@@ -0,0 +1,72 @@
+import http from 'http';
+import WebSocket from 'ws';
+
+import { WsChannel, WsMessageType } from '../../src/lib/types';
+
+/**
+ * A local WebSocket server which answers subscriptions and pings like the dYdX WebSocket API.
+ */
+export class MockWsServer {
+  public received: any[] = [];
+  public connections: number = 0;
+  public respondToPings: boolean = true;
+  private httpServer: http.Server;
+  private wsServer: any;
+  private clients: any[] = [];
+
+  public async start(): Promise<string> {
+    this.httpServer = http.createServer();
+    await new Promise(resolve => this.httpServer.listen(0, '127.0.0.1', resolve));
+    this.wsServer = new WebSocket.Server({ server: this.httpServer });
+    this.wsServer.on('connection', (client: any) => {
+      this.connections += 1;
+      this.clients.push(client);
+      client.on('message', (data: string) => this.onMessage(client, JSON.parse(data)));
+      client.on('close', () => {
+        this.clients = this.clients.filter(c => c !== client);
+      });
+    });
+    const { port } = this.httpServer.address() as { port: number };
+    return `ws://127.0.0.1:${port}`;
+  }
+
+  public async stop(): Promise<void> {
+    this.dropConnections();
+    await new Promise(resolve => this.wsServer.close(resolve));
+    await new Promise(resolve => this.httpServer.close(resolve));
+  }
+
+  public send(
+    channel: WsChannel,
+    id: string | undefined,
+    contents: any,
+  ): void {
+    for (const client of this.clients) {
+      client.send(JSON.stringify({ channel, id, contents, type: WsMessageType.CHANNEL_DATA }));
+    }
+  }
+
+  public dropConnections(): void {
+    for (const client of this.clients) {
+      client.terminate();
+    }
+    this.clients = [];
+  }
+
+  private onMessage(
+    client: any,
+    message: any,
+  ): void {
+    this.received.push(message);
+    if (message.type === WsMessageType.SUBSCRIBE) {
+      client.send(JSON.stringify({
+        channel: message.channel,
+        id: message.id,
+        type: WsMessageType.SUBSCRIBED,
+        contents: {},
+      }));
+    } else if (message.type === WsMessageType.PING && this.respondToPings) {
+      client.send(JSON.stringify({ type: WsMessageType.PONG }));
+    }
+  }
+}
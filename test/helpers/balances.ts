@@ -175,17 +175,20 @@ function getBalanceEvents(
 
     for (let j = logs.length - 1; j >= 0; j -= 1) {
       const log = logs[j];
-      if (log.args.account && log.args.account.toLowerCase() === account) {
-        balance = log.args.balance;
-        break;
-      }
-      if (log.args.maker && log.args.maker.toLowerCase() === account) {
-        balance = log.args.makerBalance;
-        break;
-      }
-      if (log.args.taker && log.args.taker.toLowerCase() === account) {
-        balance = log.args.takerBalance;
-        break;
+      if (log.name === 'LogDeposit' || log.name === 'LogWithdraw') {
+        if (log.args.account.toLowerCase() === account) {
+          balance = log.args.balance;
+          break;
+        }
+      } else if (log.name === 'LogTrade') {
+        if (log.args.maker.toLowerCase() === account) {
+          balance = log.args.makerBalance;
+          break;
+        }
+        if (log.args.taker.toLowerCase() === account) {
+          balance = log.args.takerBalance;
+          break;
+        }
       }
     }
     result[i] = balance;
@@ -12,6 +12,7 @@ import {
   BigNumberable,
   FundingRate,
   Price,
+  LogFundingRateUpdated,
   address,
 } from '../src/lib/types';
 import { fastForward } from './helpers/EVM';
@@ -190,7 +191,9 @@ perpetualDescribe('Integration testing', init, (ctx: ITestContext) => {
     );
 
     // Check logs.
-    const fundingRateUpdatedLog = ctx.perpetual.logs.parseLogs(txResult)[0];
+    const fundingRateUpdatedLog = (
+      ctx.perpetual.logs.parseLogs(txResult)[0] as LogFundingRateUpdated
+    );
     expectBaseValueEqual(
       fundingRateUpdatedLog.args.fundingRate.baseValue,
       fundingRate,
@@ -0,0 +1,180 @@
+import BigNumber from 'bignumber.js';
+
+import initializePerpetual from './helpers/initializePerpetual';
+import { mintAndDeposit } from './helpers/balances';
+import { ITestContext, perpetualDescribe } from './helpers/perpetualDescribe';
+import { buy } from './helpers/trade';
+import { expect, expectBN } from './helpers/Expect';
+import { LiquidationKeeper } from '../src/modules/LiquidationKeeper';
+import { BaseValue, Price, address } from '../src/lib/types';
+
+const initialPrice = new Price(100);
+const longUndercollateralizedPrice = new Price(52);
+const positionSize = new BigNumber(100);
+
+let admin: address;
+let long: address;
+let short: address;
+let liquidator: address;
+let insuranceFund: address;
+let startBlock: number;
+
+async function init(ctx: ITestContext): Promise<void> {
+  await initializePerpetual(ctx);
+  admin = ctx.accounts[0];
+  long = ctx.accounts[1];
+  short = ctx.accounts[2];
+  liquidator = ctx.accounts[3];
+  insuranceFund = ctx.accounts[4];
+  startBlock = await ctx.perpetual.web3.eth.getBlockNumber();
+
+  // Set up initial balances:
+  // +------------+--------+----------+-------------------+
+  // | account    | margin | position | collateralization |
+  // |------------+--------+----------+-------------------|
+  // | long       |  -5000 |      100 |              200% |
+  // | short      |  15000 |     -100 |              150% |
+  // | liquidator |  20000 |        0 |              INF% |
+  // +------------+--------+----------+-------------------+
+  await Promise.all([
+    ctx.perpetual.testing.oracle.setPrice(initialPrice),
+    ctx.perpetual.liquidatorProxy.setInsuranceFund(insuranceFund, { from: admin }),
+    ctx.perpetual.liquidatorProxy.approveMaximumOnPerpetual(),
+    mintAndDeposit(ctx, long, new BigNumber(5000)),
+    mintAndDeposit(ctx, short, new BigNumber(5000)),
+    mintAndDeposit(ctx, liquidator, new BigNumber(20000)),
+  ]);
+  await buy(ctx, long, short, positionSize, positionSize.times(initialPrice.value));
+}
+
+perpetualDescribe('LiquidationKeeper', init, (ctx: ITestContext) => {
+
+  it('Collects candidates from events', async () => {
+    const keeper = new LiquidationKeeper(ctx.perpetual, { liquidator });
+    await keeper.syncCandidates(startBlock + 1);
+    expect(keeper.getCandidates().sort()).to.deep.equal(
+      [long, short].map(a => a.toLowerCase()).sort(),
+    );
+  });
+
+  it('Does nothing if no account is undercollateralized', async () => {
+    const keeper = new LiquidationKeeper(ctx.perpetual, { liquidator });
+    keeper.addCandidates([long, short]);
+    const results = await keeper.liquidateAll();
+    expect(results).to.deep.equal([]);
+  });
+
+  it('Simulates liquidations in dry-run mode', async () => {
+    const keeper = new LiquidationKeeper(ctx.perpetual, { liquidator, dryRun: true });
+    keeper.addCandidates([long, short]);
+    await ctx.perpetual.testing.oracle.setPrice(longUndercollateralizedPrice);
+
+    const results = await keeper.liquidateAll();
+    expect(results.length).to.equal(1);
+    expect(results[0].liquidatee).to.equal(long.toLowerCase());
+    expect(results[0].isBuy).to.equal(true);
+    expectBN(results[0].maxPosition).to.equal(positionSize);
+    expectBN(results[0].liquidationAmount).to.equal(positionSize);
+    expect(results[0].txResult).to.be.undefined;
+
+    // Nothing was submitted.
+    const longBalance = await ctx.perpetual.getters.getAccountBalance(long);
+    expectBN(longBalance.position).to.equal(positionSize);
+  });
+
+  it('Liquidates undercollateralized accounts', async () => {
+    const keeper = new LiquidationKeeper(ctx.perpetual, { liquidator });
+    keeper.addCandidates([long, short]);
+    await ctx.perpetual.testing.oracle.setPrice(longUndercollateralizedPrice);
+
+    const results = await keeper.liquidateAll();
+    expect(results.length).to.equal(1);
+    expect(results[0].error).to.be.undefined;
+    expect(results[0].txResult).to.not.be.undefined;
+
+    const [longBalance, liquidatorBalance] = await Promise.all([
+      ctx.perpetual.getters.getAccountBalance(long),
+      ctx.perpetual.getters.getAccountBalance(liquidator),
+    ]);
+    expectBN(longBalance.position).to.equal(0);
+    expectBN(liquidatorBalance.position).to.equal(positionSize);
+  });
+
+  it('Skips liquidations while the gas price is above the maximum', async () => {
+    const keeper = new LiquidationKeeper(ctx.perpetual, { liquidator, maxGasPrice: 0 });
+    keeper.addCandidates([long, short]);
+    await ctx.perpetual.testing.oracle.setPrice(longUndercollateralizedPrice);
+
+    const results = await keeper.liquidateAll();
+    expect(results.length).to.equal(1);
+    expect(results[0].skipped).to.equal(true);
+    expect(results[0].error).to.be.undefined;
+    expect(results[0].txResult).to.be.undefined;
+
+    // Nothing was submitted.
+    const longBalance = await ctx.perpetual.getters.getAccountBalance(long);
+    expectBN(longBalance.position).to.equal(positionSize);
+  });
+
+  it('Limits the liquidation to what the liquidator can collateralize', async () => {
+    const keeper = new LiquidationKeeper(ctx.perpetual, { liquidator: short, dryRun: true });
+    keeper.addCandidates([long]);
+    await ctx.perpetual.testing.oracle.setPrice(longUndercollateralizedPrice);
+
+    const results = await keeper.liquidateAll();
+    expect(results.length).to.equal(1);
+    expectBN(results[0].liquidationAmount).to.be.gt(0);
+    expectBN(results[0].liquidationAmount).to.be.lte(positionSize.toNumber());
+  });
+
+  it('Leaves room for the insurance fee when sizing a liquidation', async () => {
+    const smallLiquidator = ctx.accounts[5];
+    await Promise.all([
+      ctx.perpetual.liquidatorProxy.setInsuranceFee(new BaseValue('0.5'), { from: admin }),
+      mintAndDeposit(ctx, smallLiquidator, new BigNumber(100)),
+    ]);
+    const keeper = new LiquidationKeeper(ctx.perpetual, { liquidator: smallLiquidator });
+    keeper.addCandidates([long]);
+    await ctx.perpetual.testing.oracle.setPrice(longUndercollateralizedPrice);
+
+    // Each unit of position comes with -50 margin and is worth 52, so the liquidator gains 2 of
+    // value and pays 1 of it as the insurance fee. Without the fee it could take 36 units.
+    const results = await keeper.liquidateAll();
+    expect(results.length).to.equal(1);
+    expect(results[0].error).to.be.undefined;
+    expectBN(results[0].liquidationAmount).to.equal(26);
+
+    const liquidatorBalance = await ctx.perpetual.getters.getAccountBalance(smallLiquidator);
+    expectBN(liquidatorBalance.position).to.equal(26);
+    expectBN(liquidatorBalance.getCollateralization(longUndercollateralizedPrice)).to.be.gte(1.1);
+  });
+
+  it('Keeps polling after an error', async () => {
+    const errors: Error[] = [];
+    const keeper = new LiquidationKeeper(ctx.perpetual, {
+      liquidator,
+      pollInterval: 1,
+      onError: error => errors.push(error),
+    });
+    let polls = 0;
+    keeper.poll = async () => {
+      polls += 1;
+      if (polls === 1) {
+        throw new Error('connection reset');
+      }
+      keeper.stop();
+      return false;
+    };
+    await keeper.start();
+    expect(polls).to.equal(2);
+    expect(errors.map(error => error.message)).to.deep.equal(['connection reset']);
+  });
+
+  it('Detects oracle price changes when polling', async () => {
+    const keeper = new LiquidationKeeper(ctx.perpetual, { liquidator });
+    expect(await keeper.poll()).to.equal(true);
+    expect(await keeper.poll()).to.equal(false);
+    await ctx.perpetual.testing.oracle.setPrice(longUndercollateralizedPrice);
+    expect(await keeper.poll()).to.equal(true);
+  });
+});
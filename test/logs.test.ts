@@ -0,0 +1,134 @@
+import BigNumber from 'bignumber.js';
+
+import { mineAvgBlock, resetEVM, snapshot } from './helpers/EVM';
+import { expect, expectBN } from './helpers/Expect';
+import initializePerpetual from './helpers/initializePerpetual';
+import { mintAndDeposit } from './helpers/balances';
+import { ITestContext, perpetualDescribe } from './helpers/perpetualDescribe';
+import {
+  LogDeposit,
+  address,
+} from '../src/lib/types';
+
+let accountOwner: address;
+let otherUser: address;
+let startBlock: number;
+
+async function init(ctx: ITestContext): Promise<void> {
+  await initializePerpetual(ctx);
+  accountOwner = ctx.accounts[2];
+  otherUser = ctx.accounts[3];
+  startBlock = await ctx.perpetual.web3.eth.getBlockNumber();
+}
+
+perpetualDescribe('Logs', init, (ctx: ITestContext) => {
+
+  describe('getEvents()', () => {
+    it('Returns parsed logs across multiple block windows', async () => {
+      await mintAndDeposit(ctx, accountOwner, new BigNumber(100));
+      await mineAvgBlock();
+      await mintAndDeposit(ctx, otherUser, new BigNumber(200));
+
+      const logs = await ctx.perpetual.logs.getEvents({
+        fromBlock: startBlock + 1,
+        eventNames: ['LogDeposit'],
+        blockWindow: 2,
+      });
+      expect(logs.length).to.equal(2);
+      const [firstDeposit, secondDeposit] = logs as LogDeposit[];
+      expect(firstDeposit.name).to.equal('LogDeposit');
+      expect(firstDeposit.args.account).to.equal(accountOwner);
+      expectBN(firstDeposit.args.amount).to.equal(100);
+      expect(secondDeposit.name).to.equal('LogDeposit');
+      expect(secondDeposit.args.account).to.equal(otherUser);
+      expectBN(secondDeposit.args.amount).to.equal(200);
+    });
+
+    it('Shrinks the block window for busy ranges and grows it back afterwards', async () => {
+      const web3 = ctx.perpetual.web3;
+      const getPastLogs = web3.eth.getPastLogs;
+      const ranges: number[][] = [];
+      web3.eth.getPastLogs = async (options: any) => {
+        ranges.push([options.fromBlock, options.toBlock]);
+        if (options.fromBlock <= startBlock + 1 && options.toBlock > startBlock + 1) {
+          throw new Error('query returned more than 10000 results');
+        }
+        return getPastLogs.call(web3.eth, options);
+      };
+      try {
+        await ctx.perpetual.logs.getEvents({
+          fromBlock: startBlock + 1,
+          toBlock: startBlock + 12,
+          blockWindow: 4,
+        });
+      } finally {
+        web3.eth.getPastLogs = getPastLogs;
+      }
+      const offset = (range: number[]) => range.map(block => block - startBlock);
+      expect(ranges.map(offset)).to.deep.equal([
+        [1, 4], // too many results
+        [1, 2], // too many results
+        [1, 1],
+        [2, 3],
+        [4, 7],
+        [8, 11],
+        [12, 12],
+      ]);
+    });
+
+    it('Filters logs by account', async () => {
+      await mintAndDeposit(ctx, accountOwner, new BigNumber(100));
+      await mintAndDeposit(ctx, otherUser, new BigNumber(200));
+
+      const logs = await ctx.perpetual.logs.getEvents({
+        fromBlock: startBlock + 1,
+        accounts: [otherUser],
+      });
+      expect(logs.length).to.be.greaterThan(0);
+      const deposits = ctx.perpetual.logs.filterLogs(logs, 'LogDeposit');
+      expect(deposits.length).to.equal(1);
+      expect(deposits[0].args.account).to.equal(otherUser);
+    });
+
+    it('Returns nothing for an empty range', async () => {
+      const logs = await ctx.perpetual.logs.getEvents({
+        fromBlock: startBlock + 1,
+        toBlock: startBlock,
+      });
+      expect(logs.length).to.equal(0);
+    });
+  });
+
+  describe('subscribe()', () => {
+    it('Yields new logs and removes logs dropped by a reorg', async () => {
+      const subscription = ctx.perpetual.logs.subscribe({
+        eventNames: ['LogDeposit'],
+        pollInterval: 10,
+        reorgDepth: 5,
+      });
+
+      // Start the subscription before the deposit is mined.
+      const firstEvent = subscription.next();
+      await new Promise(resolve => setTimeout(resolve, 50));
+      const snapshotId = await snapshot();
+      await mintAndDeposit(ctx, accountOwner, new BigNumber(100));
+
+      const { value: added } = await firstEvent;
+      expect(added.removed).to.equal(false);
+      expect(added.log.name).to.equal('LogDeposit');
+      expect((added.log as LogDeposit).args.account).to.equal(accountOwner);
+
+      // Revert the deposit and mine enough blocks to pass the previous head.
+      await resetEVM(snapshotId);
+      for (let i = 0; i < 4; i += 1) {
+        await mineAvgBlock();
+      }
+
+      const { value: removed } = await subscription.next();
+      expect(removed.removed).to.equal(true);
+      expect(removed.log.transactionHash).to.equal(added.log.transactionHash);
+
+      await subscription.return();
+    });
+  });
+});
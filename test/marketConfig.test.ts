@@ -0,0 +1,37 @@
+import { expect } from './helpers/Expect';
+import { getMarketConfig } from '../src/lib/MarketConfig';
+import {
+  ApiMarketName,
+  OracleType,
+  OrdersContract,
+  PerpetualMarket,
+} from '../src/lib/types';
+
+describe('MarketConfig', () => {
+
+  it('Has a config for every market', () => {
+    Object.values(PerpetualMarket).forEach((market: PerpetualMarket) => {
+      const config = getMarketConfig(market);
+      expect(config.market).to.equal(market);
+      expect(config.feeSchedule.market).to.equal(market);
+      expect(config.ordersContract).to.equal(
+        config.isInverse ? OrdersContract.P1_INVERSE_ORDERS : OrdersContract.P1_ORDERS,
+      );
+    });
+  });
+
+  it('Describes each market', () => {
+    expect(getMarketConfig(PerpetualMarket.PBTC_USDC).oracleType).to.equal(OracleType.MAKER);
+    expect(getMarketConfig(PerpetualMarket.PBTC_USDC).legacyAddresses.liquidation.length)
+      .to.equal(2);
+    expect(getMarketConfig(PerpetualMarket.WETH_PUSD).isInverse).to.equal(true);
+    expect(getMarketConfig(PerpetualMarket.PLINK_USDC).oracleType).to.equal(OracleType.CHAINLINK);
+    expect(getMarketConfig(ApiMarketName.PLINK_USDC).baseTokenDecimals).to.equal(6);
+  });
+
+  it('Fails for an unknown market', () => {
+    expect(() => getMarketConfig('PDOGE-USDC' as PerpetualMarket)).to.throw(
+      'market: PDOGE-USDC is invalid',
+    );
+  });
+});
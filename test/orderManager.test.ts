@@ -0,0 +1,231 @@
+import BigNumber from 'bignumber.js';
+
+import { expect } from './helpers/Expect';
+import { getMockOrders } from './helpers/MockOrders';
+import { Api } from '../src/modules/Api';
+import { MemoryBracketStore, OrderManager } from '../src/modules/OrderManager';
+import {
+  ApiMarketName,
+  ApiOrder,
+  ApiOrderStatus,
+  ApiOrderType,
+  ApiRequest,
+  ApiResponse,
+  ApiSide,
+  BracketStatus,
+  OrderManagerOptions,
+  RequestMethod,
+} from '../src/lib/types';
+
+const maker = '0x0000000000000000000000000000000000000001';
+const taker = '0x0000000000000000000000000000000000000002';
+const market = ApiMarketName.PBTC_USDC;
+
+const perpetualOrders = getMockOrders();
+
+/**
+ * Stores the orders placed through the API in memory.
+ */
+class MockExchange {
+  public orders: ApiOrder[] = [];
+  public placed: any[] = [];
+
+  public transport = async (request: ApiRequest): Promise<ApiResponse> => {
+    const path = request.url.replace('http://api.test', '');
+    if (request.method === RequestMethod.POST && path === '/v2/orders') {
+      this.placed.push(request.data);
+      const order = {
+        id: `0x${this.orders.length + 1}`,
+        clientId: request.data.clientId,
+        orderType: request.data.orderType || ApiOrderType.PERPETUAL_CROSS,
+        side: request.data.order.isBuy ? ApiSide.BUY : ApiSide.SELL,
+        baseAmount: request.data.order.amount,
+        filledAmount: '0',
+        status: request.data.orderType ? ApiOrderStatus.UNTRIGGERED : ApiOrderStatus.OPEN,
+      } as ApiOrder;
+      this.orders.push(order);
+      return { status: 200, data: { order } };
+    }
+    if (request.method === RequestMethod.GET && path.startsWith('/v2/orders/client/')) {
+      const order = this.orders.find(o => o.clientId === path.split('/').pop());
+      return order
+        ? { status: 200, data: { order } }
+        : { status: 404, data: { errors: [{ msg: 'Order not found' }] } };
+    }
+    if (request.method === RequestMethod.DELETE) {
+      const order = this.getOrder(path.split('/').pop());
+      order.status = ApiOrderStatus.CANCELED;
+      return { status: 200, data: { order } };
+    }
+    if (path === '/v1/perpetual-markets') {
+      return { status: 200, data: { markets: [{ market, oraclePrice: '10000' }] } };
+    }
+    throw new Error(`Unexpected request ${request.method} ${path}`);
+  }
+
+  public getOrder(
+    id: string,
+  ): ApiOrder {
+    return this.orders.find(o => o.id === id);
+  }
+
+  public fill(
+    id: string,
+    amount?: string,
+  ): void {
+    const order = this.getOrder(id);
+    order.filledAmount = amount || order.baseAmount;
+    order.status = amount ? ApiOrderStatus.PARTIALLY_FILLED : ApiOrderStatus.FILLED;
+  }
+}
+
+let exchange: MockExchange;
+let store: MemoryBracketStore;
+
+function getManager(
+  options: Partial<OrderManagerOptions> = {},
+): OrderManager {
+  const api = new Api(perpetualOrders, {
+    endpoint: 'http://api.test',
+    retry: { retries: 0 },
+    transport: request => exchange.transport(request),
+  });
+  return new OrderManager(api, { maker, taker, store, ...options });
+}
+
+async function placeBracket(
+  manager: OrderManager,
+) {
+  return manager.placeBracketOrder({
+    market,
+    side: ApiSide.BUY,
+    amount: '1e8',
+    price: '100',
+    stopLoss: { triggerPrice: '95', price: '94' },
+    takeProfit: { price: '110' },
+  });
+}
+
+describe('OrderManager', () => {
+
+  beforeEach(() => {
+    exchange = new MockExchange();
+    store = new MemoryBracketStore();
+  });
+
+  it('Places the exits once the entry is filled and cancels the other exit', async () => {
+    const manager = getManager();
+    const { id, entryOrderId } = await placeBracket(manager);
+    await manager.reconcile();
+    expect((await manager.getBracket(id)).status).to.equal(BracketStatus.PENDING_ENTRY);
+
+    exchange.fill(entryOrderId);
+    await manager.reconcile();
+    const bracket = await manager.getBracket(id);
+    expect(bracket.status).to.equal(BracketStatus.OPEN);
+    const stopLoss = exchange.getOrder(bracket.stopLossOrderId);
+    const takeProfit = exchange.getOrder(bracket.takeProfitOrderId);
+    expect(stopLoss.orderType).to.equal(ApiOrderType.PERPETUAL_STOP_LIMIT);
+    expect(stopLoss.side).to.equal(ApiSide.SELL);
+    expect(takeProfit.orderType).to.equal(ApiOrderType.PERPETUAL_CROSS);
+    expect(exchange.placed.slice(1).every(data => data.order.isDecreaseOnly)).to.equal(true);
+
+    exchange.fill(bracket.stopLossOrderId);
+    await manager.handleOrderUpdates([stopLoss]);
+    expect((await manager.getBracket(id)).status).to.equal(BracketStatus.CLOSED);
+    expect(takeProfit.status).to.equal(ApiOrderStatus.CANCELED);
+    expect(exchange.orders.length).to.equal(3);
+  });
+
+  it('Reconciles after a restart without placing orders twice', async () => {
+    const { id, entryOrderId } = await placeBracket(getManager());
+    exchange.fill(entryOrderId);
+
+    // Simulate a crash after the stop-loss was placed, but before the bracket was saved.
+    const bracket = await store.get(id);
+    await getManager().reconcile();
+    await store.save(bracket);
+
+    const manager = getManager();
+    await manager.reconcile();
+    expect(exchange.orders.length).to.equal(3);
+    const reconciled = await manager.getBracket(id);
+    expect(reconciled.status).to.equal(BracketStatus.OPEN);
+    expect(reconciled.stopLossOrderId).to.equal('0x2');
+    expect(reconciled.takeProfitOrderId).to.equal('0x3');
+  });
+
+  it('Protects the filled part of a canceled entry', async () => {
+    const manager = getManager();
+    const { id, entryOrderId } = await placeBracket(manager);
+    exchange.fill(entryOrderId, '4e7');
+    exchange.getOrder(entryOrderId).status = ApiOrderStatus.CANCELED;
+    await manager.reconcile();
+
+    const bracket = await manager.getBracket(id);
+    expect(bracket.status).to.equal(BracketStatus.OPEN);
+    expect(bracket.amount).to.equal(new BigNumber('4e7').toFixed());
+    expect(exchange.getOrder(bracket.stopLossOrderId).baseAmount).to.equal('40000000');
+  });
+
+  it('Cancels brackets', async () => {
+    const manager = getManager();
+    const { id, entryOrderId } = await placeBracket(manager);
+    const bracket = await manager.cancelBracket(id);
+    expect(bracket.status).to.equal(BracketStatus.CANCELED);
+    expect(exchange.getOrder(entryOrderId).status).to.equal(ApiOrderStatus.CANCELED);
+
+    await manager.reconcile();
+    expect(exchange.orders.length).to.equal(1);
+
+    try {
+      await manager.cancelBracket('unknown');
+      throw new Error('Did not throw');
+    } catch (error) {
+      expect(error.message).to.equal('No bracket with id unknown');
+    }
+  });
+
+  it('Reports errors and retries', async () => {
+    const errors: Error[] = [];
+    const manager = getManager({ onError: e => errors.push(e) });
+    const { id, entryOrderId } = await placeBracket(manager);
+    exchange.fill(entryOrderId);
+
+    const transport = exchange.transport;
+    exchange.transport = async () => { throw new Error('offline'); };
+    await manager.reconcile();
+    expect(errors.map(e => e.message)).to.deep.equal(['offline']);
+    expect((await manager.getBracket(id)).status).to.equal(BracketStatus.PENDING_ENTRY);
+
+    exchange.transport = transport;
+    await manager.reconcile();
+    expect((await manager.getBracket(id)).status).to.equal(BracketStatus.OPEN);
+  });
+
+  it('Keeps running after an error', async () => {
+    const errors: Error[] = [];
+    const manager = getManager({ pollInterval: 0, onError: e => errors.push(e) });
+    let handler: (message: any) => void;
+    const wsApi: any = {
+      subscribe: (_channel: any, _id: any, callback: any) => { handler = callback; },
+      unsubscribe: () => {},
+    };
+
+    const getAll = store.getAll.bind(store);
+    let calls = 0;
+    store.getAll = async () => {
+      calls += 1;
+      if (calls <= 2) {
+        throw new Error(`offline ${calls}`);
+      }
+      manager.stop();
+      return getAll();
+    };
+    const started = manager.start(wsApi);
+    handler({ contents: { orders: [] } });
+    await started;
+    expect(errors.map(e => e.message).sort()).to.deep.equal(['offline 1', 'offline 2']);
+    expect(calls).to.equal(3);
+  });
+});
@@ -0,0 +1,103 @@
+import { expect, expectBN } from './helpers/Expect';
+import { OrderbookModel } from '../src/modules/OrderbookModel';
+import { ApiMarketName, ApiOrderbook, ApiSide } from '../src/lib/types';
+
+const snapshot: ApiOrderbook = {
+  bids: [
+    { id: 'b1', uuid: 'b1', amount: '10', price: '99' },
+    { id: 'b2', uuid: 'b2', amount: '5', price: '100' },
+    { id: 'b3', uuid: 'b3', amount: '2', price: '99' },
+  ],
+  asks: [
+    { id: 'a1', uuid: 'a1', amount: '4', price: '102' },
+    { id: 'a2', uuid: 'a2', amount: '6', price: '101' },
+  ],
+};
+
+function getModel(): OrderbookModel {
+  const model = new OrderbookModel(ApiMarketName.PBTC_USDC, { staleAfter: 1000 });
+  model.applySnapshot(snapshot, 0);
+  return model;
+}
+
+describe('OrderbookModel', () => {
+
+  it('Aggregates and sorts a snapshot', () => {
+    const model = getModel();
+    const bids = model.getBids();
+    expect(bids.map(l => l.price.toNumber())).to.deep.equal([100, 99]);
+    expect(bids.map(l => l.amount.toNumber())).to.deep.equal([5, 12]);
+    const asks = model.getAsks();
+    expect(asks.map(l => l.price.toNumber())).to.deep.equal([101, 102]);
+    expectBN(model.getBestBid().price).to.equal(100);
+    expectBN(model.getBestAsk().price).to.equal(101);
+    expectBN(model.getSpread()).to.equal(1);
+    expect(model.isCrossed()).to.equal(false);
+  });
+
+  it('Applies incremental updates', () => {
+    const model = getModel();
+    model.applyUpdates(
+      [
+        { id: 'b2', side: ApiSide.BUY, amount: '0', price: '100' },
+        { id: 'b1', side: ApiSide.BUY, amount: '1', price: '99' },
+        { id: 'a3', side: ApiSide.SELL, amount: '3', price: '100.5' },
+      ],
+      10,
+    );
+    expect(model.getBids().map(l => [l.price.toNumber(), l.amount.toNumber()])).to.deep.equal([
+      [99, 3],
+    ]);
+    expectBN(model.getBestAsk().price).to.equal(100.5);
+    expect(model.getLastUpdated()).to.equal(10);
+  });
+
+  it('Derives updates from a new snapshot', () => {
+    const model = getModel();
+    const next: ApiOrderbook = {
+      bids: [
+        { id: 'b1', uuid: 'b1', amount: '10', price: '99' },
+        { id: 'b2', uuid: 'b2', amount: '3', price: '100' },
+      ],
+      asks: snapshot.asks,
+    };
+    const updates = model.getUpdatesFromSnapshot(next);
+    expect(updates).to.deep.equal([
+      { id: 'b2', side: ApiSide.BUY, amount: '3', price: '100' },
+      { id: 'b3', side: ApiSide.BUY, amount: '0', price: '99' },
+    ]);
+
+    model.applyUpdates(updates);
+    const expected = getModel();
+    expected.applySnapshot(next);
+    expect(model.getBids()).to.deep.equal(expected.getBids());
+  });
+
+  it('Gets the depth at a price', () => {
+    const model = getModel();
+    expectBN(model.getDepthAtPrice(ApiSide.BUY, 100)).to.equal(5);
+    expectBN(model.getDepthAtPrice(ApiSide.BUY, 99)).to.equal(17);
+    expectBN(model.getDepthAtPrice(ApiSide.SELL, 100)).to.equal(0);
+    expectBN(model.getDepthAtPrice(ApiSide.SELL, 102)).to.equal(10);
+  });
+
+  it('Gets the VWAP for a size', () => {
+    const model = getModel();
+    expectBN(model.getVwap(ApiSide.BUY, 6)).to.equal(101);
+    expectBN(model.getVwap(ApiSide.BUY, 8)).to.equal((6 * 101 + 2 * 102) / 8);
+    expectBN(model.getVwap(ApiSide.SELL, 10)).to.equal((5 * 100 + 5 * 99) / 10);
+    expect(model.getVwap(ApiSide.BUY, 11)).to.be.null;
+    expect(() => model.getVwap(ApiSide.BUY, 0)).to.throw('amount: 0 must be positive');
+  });
+
+  it('Detects crossed and stale books', () => {
+    const model = getModel();
+    expect(model.isStale(1000)).to.equal(false);
+    expect(model.isStale(1001)).to.equal(true);
+    expect(new OrderbookModel(ApiMarketName.PBTC_USDC).isStale()).to.equal(true);
+
+    model.applyUpdates([{ id: 'b4', side: ApiSide.BUY, amount: '1', price: '101' }], 2000);
+    expect(model.isCrossed()).to.equal(true);
+    expect(model.isStale(2000)).to.equal(false);
+  });
+});
@@ -1,5 +1,16 @@
 import { ADDRESSES } from '../src/lib/Constants';
-import { BASE_DECIMALS, BaseValue, Price, address } from '../src/lib/types';
+import {
+  BASE_DECIMALS,
+  BaseValue,
+  Price,
+  LogFinalSettlementEnabled,
+  LogIndex,
+  LogSetFunder,
+  LogSetGlobalOperator,
+  LogSetMinCollateral,
+  LogSetOracle,
+  address,
+} from '../src/lib/types';
 import { expect, expectBN, expectAddressesEqual, expectThrow, expectBaseValueEqual } from './helpers/Expect';
 import initializePerpetual from './helpers/initializePerpetual';
 import { ITestContext, perpetualDescribe } from './helpers/perpetualDescribe';
@@ -26,8 +37,8 @@ perpetualDescribe('P1Getters', init, (ctx: ITestContext) => {
       const logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(1);
       expect(logs[0].name).to.equal('LogSetGlobalOperator');
-      expectAddressesEqual(logs[0].args.operator, operator);
-      expect(logs[0].args.approved).to.equal(true);
+      expectAddressesEqual((logs[0] as LogSetGlobalOperator).args.operator, operator);
+      expect((logs[0] as LogSetGlobalOperator).args.approved).to.equal(true);
     });
 
     it('fails if called by non-admin', async () => {
@@ -54,7 +65,7 @@ perpetualDescribe('P1Getters', init, (ctx: ITestContext) => {
       const logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(1);
       expect(logs[0].name).to.equal('LogSetOracle');
-      expectAddressesEqual(logs[0].args.oracle, oracle);
+      expectAddressesEqual((logs[0] as LogSetOracle).args.oracle, oracle);
     });
 
     it('fails if new oracle returns 0 as price', async () => {
@@ -100,7 +111,7 @@ perpetualDescribe('P1Getters', init, (ctx: ITestContext) => {
       const logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(1);
       expect(logs[0].name).to.equal('LogSetFunder');
-      expectAddressesEqual(logs[0].args.funder, funder);
+      expectAddressesEqual((logs[0] as LogSetFunder).args.funder, funder);
     });
 
     it('fails if funder does not have getFunding() function', async () => {
@@ -131,7 +142,46 @@ perpetualDescribe('P1Getters', init, (ctx: ITestContext) => {
       const logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(1);
       expect(logs[0].name).to.equal('LogSetMinCollateral');
-      expectBN(logs[0].args.minCollateral).to.equal(minCollateral.toSolidity());
+      expectBN((logs[0] as LogSetMinCollateral).args.minCollateral).to.equal(
+        minCollateral.toSolidity(),
+      );
+    });
+
+    it('sets the collateral requirement using an externally-signed transaction', async () => {
+      const minCollateral = new BaseValue('1.2');
+      const method = ctx.perpetual.contracts.perpetualV1.methods.setMinCollateral(
+        minCollateral.toSolidity(),
+      );
+      const tx = await ctx.perpetual.contracts.buildTransaction(method, { from: admin });
+      expect(tx).to.deep.include({
+        from: admin,
+        to: ctx.perpetual.contracts.perpetualV1.options.address,
+        data: method.encodeABI(),
+        value: '0',
+        nonce: await ctx.perpetual.web3.eth.getTransactionCount(admin, 'pending'),
+        chainId: await ctx.perpetual.web3.eth.getChainId(),
+      });
+      expect(tx.gas).to.be.greaterThan(0);
+      expect(tx.gasPrice).to.equal('1000000000');
+
+      // Falls back to the gas price of the node if no fees are configured.
+      const nodeGasPrice = await ctx.perpetual.web3.eth.getGasPrice();
+      const txWithoutFees = await ctx.perpetual.contracts.buildTransaction(
+        method,
+        { from: admin, gasPrice: null },
+      );
+      expect(txWithoutFees.gasPrice).to.equal(nodeGasPrice);
+
+      const signedTx = await ctx.perpetual.web3.eth.signTransaction(tx, admin);
+      const txResult = await ctx.perpetual.contracts.sendSignedTransaction(signedTx.raw);
+
+      // Check logs.
+      const logs = ctx.perpetual.logs.parseLogs(txResult);
+      expect(logs.length).to.equal(1);
+      expect(logs[0].name).to.equal('LogSetMinCollateral');
+      expectBN((logs[0] as LogSetMinCollateral).args.minCollateral).to.equal(
+        minCollateral.toSolidity(),
+      );
     });
 
     it('fails if called by non-admin', async () => {
@@ -166,7 +216,7 @@ perpetualDescribe('P1Getters', init, (ctx: ITestContext) => {
       // Check logs.
       const logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(2);
-      const [indexLog, settlementLog] = logs;
+      const [indexLog, settlementLog] = logs as [LogIndex, LogFinalSettlementEnabled];
       expect(indexLog.name).to.equal('LogIndex');
       expect(settlementLog.name).to.equal('LogFinalSettlementEnabled');
       expectBaseValueEqual(settlementLog.args.settlementPrice, oraclePrice);
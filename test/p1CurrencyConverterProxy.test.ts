@@ -99,7 +99,7 @@ perpetualDescribe('P1CurrencyConverterProxy', init, (ctx: ITestContext) => {
 
       // Check logs.
       const logs = ctx.perpetual.logs.parseLogs(txResult);
-      const filteredLogs = logs.filter(log => log.name === 'LogConvertedDeposit');
+      const filteredLogs = ctx.perpetual.logs.filterLogs(logs, 'LogConvertedDeposit');
       expect(filteredLogs.length).to.equal(1);
       const log = filteredLogs[0];
       expect(log.name).to.equal('LogConvertedDeposit');
@@ -147,7 +147,7 @@ perpetualDescribe('P1CurrencyConverterProxy', init, (ctx: ITestContext) => {
 
       // Check logs.
       const logs = ctx.perpetual.logs.parseLogs(txResult);
-      const filteredLogs = logs.filter(log => log.name === 'LogConvertedDeposit');
+      const filteredLogs = ctx.perpetual.logs.filterLogs(logs, 'LogConvertedDeposit');
       expect(filteredLogs.length).to.equal(1);
       const log = filteredLogs[0];
       expect(log.name).to.equal('LogConvertedDeposit');
@@ -209,7 +209,7 @@ perpetualDescribe('P1CurrencyConverterProxy', init, (ctx: ITestContext) => {
 
       // Check logs.
       const logs = ctx.perpetual.logs.parseLogs(txResult);
-      const filteredLogs = logs.filter(log => log.name === 'LogConvertedWithdrawal');
+      const filteredLogs = ctx.perpetual.logs.filterLogs(logs, 'LogConvertedWithdrawal');
       expect(filteredLogs.length).to.equal(1);
       const log = filteredLogs[0];
       expect(log.name).to.equal('LogConvertedWithdrawal');
@@ -247,7 +247,7 @@ perpetualDescribe('P1CurrencyConverterProxy', init, (ctx: ITestContext) => {
 
       // Check logs.
       const logs = ctx.perpetual.logs.parseLogs(txResult);
-      const filteredLogs = logs.filter(log => log.name === 'LogConvertedWithdrawal');
+      const filteredLogs = ctx.perpetual.logs.filterLogs(logs, 'LogConvertedWithdrawal');
       expect(filteredLogs.length).to.equal(1);
       const log = filteredLogs[0];
       expect(log.name).to.equal('LogConvertedWithdrawal');
@@ -16,6 +16,9 @@ import {
   Price,
   SigningMethod,
   TxResult,
+  LogDeleveragingOperatorSet,
+  LogMarkedForDeleveraging,
+  LogUnmarkedForDeleveraging,
 } from '../src/lib/types';
 
 const initialPrice = new Price(100);
@@ -79,7 +82,7 @@ perpetualDescribe('P1Deleveraging', init, (ctx: ITestContext) => {
       // Check logs.
       const logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(1);
-      const log = logs[0];
+      const log = logs[0] as LogDeleveragingOperatorSet;
       expect(log.name).to.equal('LogDeleveragingOperatorSet');
       expectAddressesEqual(log.args.deleveragingOperator, rando);
 
@@ -145,7 +148,7 @@ perpetualDescribe('P1Deleveraging', init, (ctx: ITestContext) => {
 
       // Check logs.
       const logs = ctx.perpetual.logs.parseLogs(txResult);
-      const filteredLogs = _.filter(logs, { name: 'LogDeleveraged' });
+      const filteredLogs = ctx.perpetual.logs.filterLogs(logs, 'LogDeleveraged');
       expect(filteredLogs.length).to.equal(1);
       const deleveragedLog = filteredLogs[0];
       expect(deleveragedLog.args.maker).to.equal(long);
@@ -169,7 +172,7 @@ perpetualDescribe('P1Deleveraging', init, (ctx: ITestContext) => {
 
       // Check logs.
       const logs = ctx.perpetual.logs.parseLogs(txResult);
-      const filteredLogs = _.filter(logs, { name: 'LogDeleveraged' });
+      const filteredLogs = ctx.perpetual.logs.filterLogs(logs, 'LogDeleveraged');
       expect(filteredLogs.length).to.equal(1);
       const deleveragedLog = filteredLogs[0];
       expect(deleveragedLog.args.maker).to.equal(short);
@@ -504,7 +507,7 @@ perpetualDescribe('P1Deleveraging', init, (ctx: ITestContext) => {
 
       // Check logs.
       const logs = ctx.perpetual.logs.parseLogs(txResult);
-      const filteredLogs = _.filter(logs, { name: 'LogUnmarkedForDeleveraging' });
+      const filteredLogs = ctx.perpetual.logs.filterLogs(logs, 'LogUnmarkedForDeleveraging');
       expect(filteredLogs.length).to.equal(1);
       expect(filteredLogs[0].args.account).to.equal(long);
 
@@ -532,7 +535,7 @@ perpetualDescribe('P1Deleveraging', init, (ctx: ITestContext) => {
       const logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(1);
       expect(logs[0].name).to.equal('LogMarkedForDeleveraging');
-      expect(logs[0].args.account).to.equal(long);
+      expect((logs[0] as LogMarkedForDeleveraging).args.account).to.equal(long);
     });
 
     it('Cannot mark an account which is not underwater', async () => {
@@ -558,7 +561,7 @@ perpetualDescribe('P1Deleveraging', init, (ctx: ITestContext) => {
       const logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(1);
       expect(logs[0].name).to.equal('LogUnmarkedForDeleveraging');
-      expect(logs[0].args.account).to.equal(long);
+      expect((logs[0] as LogUnmarkedForDeleveraging).args.account).to.equal(long);
     });
 
     it('Cannot unmark an account which is underwater', async () => {
@@ -8,6 +8,8 @@ import {
   BigNumberable,
   FundingRate,
   Price,
+  LogFundingRateProviderSet,
+  LogFundingRateUpdated,
   address,
 } from '../src/lib/types';
 import { fastForward } from './helpers/EVM';
@@ -72,7 +74,7 @@ perpetualDescribe('P1FundingOracle', init, (ctx: ITestContext) => {
       // Check logs.
       const logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(1);
-      const log = logs[0];
+      const log = logs[0] as LogFundingRateProviderSet;
       expect(log.name).to.equal('LogFundingRateProviderSet');
       expectAddressesEqual(log.args.fundingRateProvider, fundingRateProvider);
 
@@ -292,7 +294,7 @@ perpetualDescribe('P1FundingOracle', init, (ctx: ITestContext) => {
     expect(logs.length, 'logs length').to.equal(1);
     expect(logs[0].name).to.equal('LogFundingRateUpdated');
     expectBaseValueEqual(
-      logs[0].args.fundingRate.baseValue,
+      (logs[0] as LogFundingRateUpdated).args.fundingRate.baseValue,
       expectedRate,
       'funding rate',
     );
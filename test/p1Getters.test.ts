@@ -1,8 +1,9 @@
 import BigNumber from 'bignumber.js';
 
 import { expect, expectBN, expectBaseValueEqual, expectThrow } from './helpers/Expect';
-import { BaseValue, address, Price } from '../src/lib/types';
+import { BaseValue, FundingRate, address, Price } from '../src/lib/types';
 import { mintAndDeposit } from './helpers/balances';
+import { mineAvgBlock } from './helpers/EVM';
 import initializePerpetual from './helpers/initializePerpetual';
 import { ITestContext, perpetualDescribe } from './helpers/perpetualDescribe';
 import { buy } from './helpers/trade';
@@ -48,6 +49,110 @@ perpetualDescribe('P1Getters', init, (ctx: ITestContext) => {
     expectBN(timeDelta).to.be.lessThan(TIMESTAMP_THRESHOLD_MS);
   });
 
+  it('getNetAccountBalances()', async () => {
+    await ctx.perpetual.testing.oracle.setPrice(new Price(100));
+    await ctx.perpetual.testing.funder.setFunding(new BaseValue('0.000001'));
+    await mineAvgBlock();
+
+    const accounts = [account, otherAccount, admin];
+    const blockNumber = await ctx.perpetual.web3.eth.getBlockNumber();
+    const balances = await ctx.perpetual.getters.getNetAccountBalances(accounts, { blockNumber });
+    const expectedBalances = await Promise.all(accounts.map(
+      a => ctx.perpetual.getters.getNetAccountBalance(a, { blockNumber }),
+    ));
+    expect(balances.length).to.equal(3);
+    for (let i = 0; i < accounts.length; i += 1) {
+      expectBN(balances[i].margin).to.equal(expectedBalances[i].margin);
+      expectBN(balances[i].position).to.equal(expectedBalances[i].position);
+    }
+    expectBN(balances[2].margin).to.equal(0);
+    expectBN(balances[2].position).to.equal(0);
+  });
+
+  it('getNetAccountBalances() at block 0', async () => {
+    const contracts = ctx.perpetual.contracts;
+    const callBatch = contracts.callBatch;
+    const blockNumbers: number[] = [];
+    contracts.callBatch = async (methods, options) => {
+      blockNumbers.push(options.blockNumber);
+      throw new Error('stop');
+    };
+    try {
+      await ctx.perpetual.getters.getNetAccountBalances([account], { blockNumber: 0 });
+    } catch (e) {
+      expect(e.message).to.equal('stop');
+    } finally {
+      contracts.callBatch = callBatch;
+    }
+    expect(blockNumbers).to.deep.equal([0]);
+  });
+
+  it('getLiquidatableAccounts()', async () => {
+    const accounts = [account, otherAccount, admin];
+    await ctx.perpetual.testing.oracle.setPrice(new Price(100));
+    let liquidatable = await ctx.perpetual.getters.getLiquidatableAccounts(accounts);
+    expect(liquidatable).to.deep.equal([]);
+
+    await ctx.perpetual.testing.oracle.setPrice(new Price(150));
+    liquidatable = await ctx.perpetual.getters.getLiquidatableAccounts(accounts);
+    expect(liquidatable).to.deep.equal([otherAccount]);
+    expect(
+      await ctx.perpetual.getters.getNetAccountIsLiquidatable(otherAccount),
+    ).to.equal(true);
+  });
+
+  it('projectFunding()', async () => {
+    await ctx.perpetual.testing.oracle.setPrice(new Price(100));
+    await ctx.perpetual.testing.funder.setFunding(new BaseValue('0.000001'));
+    await mineAvgBlock();
+
+    // Funding is paid by the long account, rounding up.
+    const globalIndex = await ctx.perpetual.getters.getGlobalIndex();
+    const until = globalIndex.timestamp.plus(60);
+    const projection = await ctx.perpetual.getters.projectFunding(account, { until });
+    expectBaseValueEqual(projection.index.baseValue, new BaseValue('0.0001'));
+    expectBN(projection.marginChange).to.equal(positionAmount.times('-0.0001'));
+
+    // The projection matches the balance after settlement.
+    const txResult = await ctx.perpetual.margin.deposit(account, 0, { from: account });
+    const balance = await ctx.perpetual.getters.getAccountBalance(account);
+    expectBN(balance.margin).to.equal(projection.balance.margin);
+
+    const history = await ctx.perpetual.getters.getFundingHistory(
+      account,
+      { fromBlock: txResult.blockNumber },
+    );
+    expect(history.length).to.equal(1);
+    expectBN(history[0].amount).to.equal(projection.marginChange);
+    expectBN(history[0].balance.margin).to.equal(balance.margin);
+  });
+
+  it('projectFunding() with a rate', async () => {
+    await ctx.perpetual.testing.oracle.setPrice(new Price(100));
+    const globalIndex = await ctx.perpetual.getters.getGlobalIndex();
+    const projection = await ctx.perpetual.getters.projectFunding(
+      otherAccount,
+      { until: globalIndex.timestamp.plus(100), rate: new FundingRate('1e-8') },
+    );
+
+    // Funding is received by the short account.
+    expectBaseValueEqual(projection.index.baseValue, new BaseValue('0.0001'));
+    expectBN(projection.marginChange).to.equal(positionAmount.times('0.0001'));
+
+    let error: Error | null = null;
+    try {
+      await ctx.perpetual.getters.projectFunding(
+        otherAccount,
+        { until: globalIndex.timestamp.minus(1) },
+      );
+    } catch (e) {
+      error = e;
+    }
+    expect(error.message).to.equal(
+      'Cannot project funding to before the last update of the global index',
+    );
+  });
+
   it('getIsLocalOperator()', async () => {
     const isOperator = await ctx.perpetual.getters.getIsLocalOperator(account, otherAccount);
     expect(isOperator).to.equal(false);
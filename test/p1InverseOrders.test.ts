@@ -9,6 +9,8 @@ import {
   SignedOrder,
   SigningMethod,
   OrderStatus,
+  LogOrderApproved,
+  LogOrderCanceled,
   address,
 } from '../src/lib/types';
 import {
@@ -212,10 +214,10 @@ inversePerpetualDescribe('P1InverseOrders', init, (ctx: ITestContext) => {
       const logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(1);
       expect(logs[0].name).to.equal('LogOrderApproved');
-      expect(logs[0].args.orderHash).to.equal(
+      expect((logs[0] as LogOrderApproved).args.orderHash).to.equal(
         ctx.perpetual.orders.getOrderHash(fullFlagOrder),
       );
-      expect(logs[0].args.maker).to.equal(fullFlagOrder.maker);
+      expect((logs[0] as LogOrderApproved).args.maker).to.equal(fullFlagOrder.maker);
     });
 
     it('Succeeds in double-approving order', async () => {
@@ -252,10 +254,10 @@ inversePerpetualDescribe('P1InverseOrders', init, (ctx: ITestContext) => {
       const logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(1);
       expect(logs[0].name).to.equal('LogOrderCanceled');
-      expect(logs[0].args.orderHash).to.equal(
+      expect((logs[0] as LogOrderCanceled).args.orderHash).to.equal(
         ctx.perpetual.orders.getOrderHash(fullFlagOrder),
       );
-      expect(logs[0].args.maker).to.equal(fullFlagOrder.maker);
+      expect((logs[0] as LogOrderCanceled).args.maker).to.equal(fullFlagOrder.maker);
     });
 
     it('Succeeds in double-canceling order', async () => {
@@ -737,7 +739,7 @@ inversePerpetualDescribe('P1InverseOrders', init, (ctx: ITestContext) => {
 
     // Check logs.
     const logs = ctx.perpetual.logs.parseLogs(txResult);
-    const filteredLogs = _.filter(logs, { name: 'LogOrderFilled' });
+    const filteredLogs = ctx.perpetual.logs.filterLogs(logs, 'LogOrderFilled');
     expect(filteredLogs.length).to.equal(1);
     const [log] = filteredLogs;
     expect(log.args.orderHash, 'log hash').to.equal(
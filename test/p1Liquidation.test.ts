@@ -89,7 +89,7 @@ perpetualDescribe('P1Liquidation', init, (ctx: ITestContext) => {
 
       // Check logs.
       const logs = ctx.perpetual.logs.parseLogs(txResult);
-      const filteredLogs = _.filter(logs, { name: 'LogLiquidated' });
+      const filteredLogs = ctx.perpetual.logs.filterLogs(logs, 'LogLiquidated');
       expect(filteredLogs.length).to.equal(1);
       const liquidatedLog = filteredLogs[0];
       expect(liquidatedLog.args.maker).to.equal(long);
@@ -113,7 +113,7 @@ perpetualDescribe('P1Liquidation', init, (ctx: ITestContext) => {
 
       // Check logs.
       const logs = ctx.perpetual.logs.parseLogs(txResult);
-      const filteredLogs = _.filter(logs, { name: 'LogLiquidated' });
+      const filteredLogs = ctx.perpetual.logs.filterLogs(logs, 'LogLiquidated');
       expect(filteredLogs.length).to.equal(1);
       const liquidatedLog = filteredLogs[0];
       expect(liquidatedLog.args.maker).to.equal(short);
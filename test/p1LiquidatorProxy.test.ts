@@ -651,7 +651,7 @@ perpetualDescribe('P1LiquidatorProxy', init, (ctx: ITestContext) => {
     expected: ExpectedLogOptions,
   ): void {
     const logs = ctx.perpetual.logs.parseLogs(txResult);
-    const filteredLogs = _.filter(logs, { name: 'LogLiquidatorProxyUsed' });
+    const filteredLogs = ctx.perpetual.logs.filterLogs(logs, 'LogLiquidatorProxyUsed');
     expect(filteredLogs.length).to.equal(1);
     const log = filteredLogs[0];
     expect(log.args.liquidatee).to.equal(expected.liquidatee);
@@ -7,6 +7,9 @@ import { expectMarginBalances, expectTokenBalances, mintAndDeposit } from './hel
 import { ITestContext, perpetualDescribe } from './helpers/perpetualDescribe';
 import { sell } from './helpers/trade';
 import {
+  LogDeposit,
+  LogIndex,
+  LogWithdraw,
   address,
   Price,
 } from '../src/lib/types';
@@ -52,7 +55,7 @@ perpetualDescribe('P1Margin', init, (ctx: ITestContext) => {
       // Check logs.
       const logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(2);
-      const [indexUpdatedLog, depositLog] = logs;
+      const [indexUpdatedLog, depositLog] = logs as [LogIndex, LogDeposit];
       expect(indexUpdatedLog.name).to.equal('LogIndex');
       expect(depositLog.name).to.equal('LogDeposit');
       expect(depositLog.args.account).to.equal(accountOwner);
@@ -168,7 +171,7 @@ perpetualDescribe('P1Margin', init, (ctx: ITestContext) => {
       // Check logs.
       const logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(2);
-      const [indexUpdatedLog, withdrawLog] = logs;
+      const [indexUpdatedLog, withdrawLog] = logs as [LogIndex, LogWithdraw];
       expect(indexUpdatedLog.name).to.equal('LogIndex');
       expect(withdrawLog.name).to.equal('LogWithdraw');
       expect(withdrawLog.args.account).to.equal(accountOwner);
@@ -209,7 +212,7 @@ perpetualDescribe('P1Margin', init, (ctx: ITestContext) => {
       // Check logs.
       const logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(2);
-      const [indexUpdatedLog, withdrawLog] = logs;
+      const [indexUpdatedLog, withdrawLog] = logs as [LogIndex, LogWithdraw];
       expect(indexUpdatedLog.name).to.equal('LogIndex');
       expect(withdrawLog.name).to.equal('LogWithdraw');
       expect(withdrawLog.args.account).to.equal(accountOwner);
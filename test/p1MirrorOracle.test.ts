@@ -6,6 +6,10 @@ import {
   BigNumberable,
   MakerOracleMessage,
   Price,
+  LogMedianPrice,
+  LogSetBar,
+  LogSetReader,
+  LogSetSigner,
   address,
 } from '../src/lib/types';
 import { MirrorOracle } from '../src/modules/MirrorOracle';
@@ -341,8 +345,8 @@ perpetualDescribe('P1MirrorOracle', init, (ctx: ITestContext) => {
       let logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(1);
       expect(logs[0].name).to.equal('LogSetSigner');
-      expect(logs[0].args.signer).to.equal(signers[0]);
-      expect(logs[0].args.authorized).to.equal(true);
+      expect((logs[0] as LogSetSigner).args.signer).to.equal(signers[0]);
+      expect((logs[0] as LogSetSigner).args.authorized).to.equal(true);
 
       // Call the function and check the contract state.
       txResult = await oracle.lift([signers[1], signers[2]]);
@@ -359,11 +363,11 @@ perpetualDescribe('P1MirrorOracle', init, (ctx: ITestContext) => {
       logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(2);
       expect(logs[0].name).to.equal('LogSetSigner');
-      expect(logs[0].args.signer).to.equal(signers[1]);
-      expect(logs[0].args.authorized).to.equal(true);
+      expect((logs[0] as LogSetSigner).args.signer).to.equal(signers[1]);
+      expect((logs[0] as LogSetSigner).args.authorized).to.equal(true);
       expect(logs[1].name).to.equal('LogSetSigner');
-      expect(logs[1].args.signer).to.equal(signers[2]);
-      expect(logs[1].args.authorized).to.equal(true);
+      expect((logs[1] as LogSetSigner).args.signer).to.equal(signers[2]);
+      expect((logs[1] as LogSetSigner).args.authorized).to.equal(true);
     });
 
     it('fails if the signer is already currently authorized', async () => {
@@ -421,8 +425,8 @@ perpetualDescribe('P1MirrorOracle', init, (ctx: ITestContext) => {
       let logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(1);
       expect(logs[0].name).to.equal('LogSetSigner');
-      expect(logs[0].args.signer).to.equal(signers[0]);
-      expect(logs[0].args.authorized).to.equal(false);
+      expect((logs[0] as LogSetSigner).args.signer).to.equal(signers[0]);
+      expect((logs[0] as LogSetSigner).args.authorized).to.equal(false);
 
       // Call the function.
       txResult = await oracle.drop([signers[1], signers[2]]);
@@ -439,11 +443,11 @@ perpetualDescribe('P1MirrorOracle', init, (ctx: ITestContext) => {
       logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(2);
       expect(logs[0].name).to.equal('LogSetSigner');
-      expect(logs[0].args.signer).to.equal(signers[1]);
-      expect(logs[0].args.authorized).to.equal(false);
+      expect((logs[0] as LogSetSigner).args.signer).to.equal(signers[1]);
+      expect((logs[0] as LogSetSigner).args.authorized).to.equal(false);
       expect(logs[1].name).to.equal('LogSetSigner');
-      expect(logs[1].args.signer).to.equal(signers[2]);
-      expect(logs[1].args.authorized).to.equal(false);
+      expect((logs[1] as LogSetSigner).args.signer).to.equal(signers[2]);
+      expect((logs[1] as LogSetSigner).args.authorized).to.equal(false);
     });
 
     it('fails if the signer is not currently authorized', async () => {
@@ -493,7 +497,7 @@ perpetualDescribe('P1MirrorOracle', init, (ctx: ITestContext) => {
       let logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(1);
       expect(logs[0].name).to.equal('LogSetBar');
-      expectBN(logs[0].args.bar).to.equal(1);
+      expectBN((logs[0] as LogSetBar).args.bar).to.equal(1);
       expectBN(await oracle.getBar()).to.equal(1);
 
       // Call the function.
@@ -503,7 +507,7 @@ perpetualDescribe('P1MirrorOracle', init, (ctx: ITestContext) => {
       logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(1);
       expect(logs[0].name).to.equal('LogSetBar');
-      expectBN(logs[0].args.bar).to.equal(11);
+      expectBN((logs[0] as LogSetBar).args.bar).to.equal(11);
       expectBN(await oracle.getBar()).to.equal(11);
     });
   });
@@ -533,8 +537,8 @@ perpetualDescribe('P1MirrorOracle', init, (ctx: ITestContext) => {
       const logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(1);
       expect(logs[0].name).to.equal('LogSetReader');
-      expect(logs[0].args.reader).to.equal(otherAddress);
-      expect(logs[0].args.authorized).to.equal(true);
+      expect((logs[0] as LogSetReader).args.reader).to.equal(otherAddress);
+      expect((logs[0] as LogSetReader).args.authorized).to.equal(true);
     });
 
     it('authorizes multiple addresses to read the oracle price', async () => {
@@ -557,8 +561,8 @@ perpetualDescribe('P1MirrorOracle', init, (ctx: ITestContext) => {
 
         // Check log.
         expect(logs[i].name).to.equal('LogSetReader');
-        expect(logs[i].args.reader).to.equal(someAddress);
-        expect(logs[i].args.authorized).to.equal(true);
+        expect((logs[i] as LogSetReader).args.reader).to.equal(someAddress);
+        expect((logs[i] as LogSetReader).args.authorized).to.equal(true);
       }));
     });
 
@@ -591,8 +595,8 @@ perpetualDescribe('P1MirrorOracle', init, (ctx: ITestContext) => {
       const logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(1);
       expect(logs[0].name).to.equal('LogSetReader');
-      expect(logs[0].args.reader).to.equal(reader);
-      expect(logs[0].args.authorized).to.equal(false);
+      expect((logs[0] as LogSetReader).args.reader).to.equal(reader);
+      expect((logs[0] as LogSetReader).args.authorized).to.equal(false);
     });
 
     it('unauthorizes multiple addresses, disallowing them to read the oracle price', async () => {
@@ -621,8 +625,8 @@ perpetualDescribe('P1MirrorOracle', init, (ctx: ITestContext) => {
 
         // Check log.
         expect(logs[i].name).to.equal('LogSetReader');
-        expect(logs[i].args.reader).to.equal(someAddress);
-        expect(logs[i].args.authorized).to.equal(false);
+        expect((logs[i] as LogSetReader).args.reader).to.equal(someAddress);
+        expect((logs[i] as LogSetReader).args.authorized).to.equal(false);
       }));
     });
 
@@ -673,9 +677,9 @@ perpetualDescribe('P1MirrorOracle', init, (ctx: ITestContext) => {
     const logs = await ctx.perpetual.logs.parseLogs(txResult);
     expect(logs.length).to.equal(1);
     expect(logs[0].name).to.equal('LogMedianPrice');
-    expectBN(logs[0].args.val).to.equal(expectedMedian.toSolidity());
-    expectBN(logs[0].args.age).to.gt(lastBlockTimestamp);
-    expectBN(logs[0].args.age).to.lt(messageTimestamp);
+    expectBN((logs[0] as LogMedianPrice).args.val).to.equal(expectedMedian.toSolidity());
+    expectBN((logs[0] as LogMedianPrice).args.age).to.gt(lastBlockTimestamp);
+    expectBN((logs[0] as LogMedianPrice).args.age).to.lt(messageTimestamp);
   }
 
   async function makeMakerOracleMessage(
@@ -4,21 +4,28 @@ import BigNumber from 'bignumber.js';
 import {
   Balance,
   Fee,
+  FillValidationError,
   Order,
   Price,
   SignedOrder,
   SigningMethod,
   OrderStatus,
+  PerpetualMarket,
+  LogOrderApproved,
+  LogOrderCanceled,
   address,
 } from '../src/lib/types';
 import {
   ADDRESSES,
+  DEFAULT_FEE_SCHEDULES,
+  FEES,
   INTEGERS,
   PRICES,
 } from '../src/lib/Constants';
 import {
   boolToBytes32,
 } from '../src/lib/BytesHelper';
+import { CallbackSigner, LocalSigner } from '../src/lib/Signers';
 import { expect, expectBN, expectThrow, expectBaseValueEqual } from './helpers/Expect';
 import { expectBalances, mintAndDeposit } from './helpers/balances';
 import initializePerpetual from './helpers/initializePerpetual';
@@ -122,6 +129,96 @@ perpetualDescribe('P1Orders', init, (ctx: ITestContext) => {
       expect(validHashSignature).to.be.true;
     });
 
+    it('Signs a cancelation of several orders', async () => {
+      const orders = [defaultOrder, fullFlagOrder];
+      const orderHashes = orders.map(o => ctx.perpetual.orders.getOrderHash(o));
+      for (const signingMethod of [SigningMethod.Hash, SigningMethod.TypedData]) {
+        const typedSignature = await ctx.perpetual.orders.signCancelOrders(
+          orderHashes,
+          defaultOrder.maker,
+          signingMethod,
+        );
+        expect(
+          ctx.perpetual.orders.cancelOrdersHaveValidSignature(orders, typedSignature),
+        ).to.be.true;
+        expect(
+          ctx.perpetual.orders.cancelOrdersByHashHaveValidSignature(
+            orderHashes,
+            typedSignature,
+            defaultOrder.maker,
+          ),
+        ).to.be.true;
+
+        // The signature does not cancel a different set of orders.
+        expect(
+          ctx.perpetual.orders.cancelOrderHasValidSignature(defaultOrder, typedSignature),
+        ).to.be.false;
+        expect(
+          ctx.perpetual.orders.cancelOrdersByHashHaveValidSignature(
+            orderHashes.slice().reverse(),
+            typedSignature,
+            defaultOrder.maker,
+          ),
+        ).to.be.false;
+      }
+
+      // Canceling a single hash is the same as canceling a list with one hash.
+      expect(ctx.perpetual.orders.orderHashesToCancelOrdersHash([orderHashes[0]])).to.equal(
+        ctx.perpetual.orders.orderHashToCancelOrderHash(orderHashes[0]),
+      );
+    });
+
+    it('Signs with a local private key', async () => {
+      const account = ctx.perpetual.web3.eth.accounts.create();
+      const signer = new LocalSigner([account.privateKey]);
+      const order = { ...defaultOrder, maker: account.address };
+
+      const typedSignature = await ctx.perpetual.orders.signOrder(
+        order,
+        SigningMethod.Hash,
+        signer,
+      );
+      expect(ctx.perpetual.orders.orderHasValidSignature({ ...order, typedSignature })).to.be.true;
+
+      const cancelSignature = await ctx.perpetual.orders.signCancelOrder(
+        order,
+        SigningMethod.Hash,
+        signer,
+      );
+      expect(
+        ctx.perpetual.orders.cancelOrderHasValidSignature(order, cancelSignature),
+      ).to.be.true;
+
+      // The signer only holds its own keys.
+      let error: Error | null = null;
+      try {
+        await ctx.perpetual.orders.signOrder(defaultOrder, SigningMethod.Hash, signer);
+      } catch (e) {
+        error = e;
+      }
+      expect(error.message).to.equal(`No private key for account ${defaultOrder.maker}`);
+    });
+
+    it('Signs with callbacks', async () => {
+      const signedHashes: string[] = [];
+      const signer = new CallbackSigner({
+        signHash: async (hash: string, account: address) => {
+          signedHashes.push(hash);
+          return ctx.perpetual.web3.eth.sign(hash, account);
+        },
+      });
+
+      const typedSignature = await ctx.perpetual.orders.signOrder(
+        defaultOrder,
+        SigningMethod.Hash,
+        signer,
+      );
+      expect(signedHashes).to.deep.equal([ctx.perpetual.orders.getOrderHash(defaultOrder)]);
+      expect(
+        ctx.perpetual.orders.orderHasValidSignature({ ...defaultOrder, typedSignature }),
+      ).to.be.true;
+    });
+
     it('Recognizes invalid signatures', () => {
       const badSignatures = [
         `0x${'00'.repeat(63)}00`,
@@ -143,6 +240,65 @@ perpetualDescribe('P1Orders', init, (ctx: ITestContext) => {
       });
     });
 
+    it('Validates a fill', async () => {
+      const [orderState, makerBalance, { timestamp }] = await Promise.all([
+        ctx.perpetual.orders.getOrdersStatus([defaultOrder]).then(states => states[0]),
+        ctx.perpetual.getters.getAccountBalance(defaultOrder.maker),
+        ctx.perpetual.web3.eth.getBlock('latest'),
+      ]);
+      const errors = ctx.perpetual.orders.validateFill(
+        defaultSignedOrder,
+        { amount: orderAmount, price: limitPrice, fee: defaultOrder.limitFee },
+        {
+          orderState,
+          makerBalance,
+          timestamp,
+          maker: defaultOrder.maker,
+          taker: defaultOrder.taker,
+          oraclePrice: limitPrice,
+        },
+      );
+      expect(errors).to.deep.equal([]);
+
+      // Check that the fill is accepted by the contract.
+      await fillOrder(defaultSignedOrder);
+    });
+
+    it('Returns every failing reason for an invalid fill', async () => {
+      const order = await getModifiedOrder({
+        isDecreaseOnly: true,
+        triggerPrice: limitPrice.plus(1),
+        expiration: new BigNumber(1),
+      });
+      const errors = ctx.perpetual.orders.validateFill(
+        { ...order, typedSignature: `0x${'00'.repeat(63)}00` },
+        {
+          amount: orderAmount.times(2),
+          price: limitPrice.plus(1),
+          fee: order.limitFee.plus(FEES.ONE_BIP.value),
+        },
+        {
+          maker: otherUser,
+          taker: otherUser,
+          oraclePrice: limitPrice,
+          makerBalance: new Balance(initialMargin, 0),
+          orderState: { status: OrderStatus.Null, filledAmount: INTEGERS.ZERO },
+          timestamp: INTEGERS.ONE_YEAR_IN_SECONDS,
+        },
+      );
+      expect(errors).to.have.members([
+        FillValidationError.INVALID_SIGNATURE,
+        FillValidationError.MAKER_MISMATCH,
+        FillValidationError.TAKER_MISMATCH,
+        FillValidationError.EXPIRED,
+        FillValidationError.INVALID_PRICE,
+        FillValidationError.INVALID_FEE,
+        FillValidationError.TRIGGER_NOT_REACHED,
+        FillValidationError.NOT_DECREASING,
+        FillValidationError.OVERFILL,
+      ]);
+    });
+
     it('Estimates collateralization after executing buys', async () => {
       // Buy 1e18 BASE at price of 987.65432 QUOTE/BASE with fee of 0.002.
       // - base: 1e18 BASE -> worth 1200e18 QUOTE at oracle price of 1200
@@ -242,6 +398,73 @@ perpetualDescribe('P1Orders', init, (ctx: ITestContext) => {
       );
       expectBN(ratio1).to.equal(Infinity);
     });
+
+    it('Gets fees from the default fee schedule', () => {
+      const { orders } = ctx.perpetual;
+      const defaultSchedule = DEFAULT_FEE_SCHEDULES[PerpetualMarket.PBTC_USDC];
+      expect(orders.getFeeSchedule()).to.deep.equal(defaultSchedule);
+      expectBaseValueEqual(orders.getFeeForOrder(new BigNumber('0.4e8')), Fee.fromBips(50));
+      expectBaseValueEqual(orders.getFeeForOrder(new BigNumber('0.5e8')), Fee.fromBips(15));
+      expectBaseValueEqual(orders.getFeeForOrder(new BigNumber('1e8'), false), Fee.fromBips(-2.5));
+    });
+
+    it('Gets fees from a custom fee schedule', () => {
+      const { orders } = ctx.perpetual;
+      const defaultSchedule = orders.getFeeSchedule();
+      orders.setFeeSchedule({
+        market: PerpetualMarket.PBTC_USDC,
+        tiers: [
+          { minAmount: '0', makerFeeBips: '0', takerFeeBips: '30' },
+          { minAmount: '1e8', makerFeeBips: '-1', takerFeeBips: '20' },
+          { minAmount: '10e8', makerFeeBips: '-2', takerFeeBips: '10' },
+        ],
+        volumeDiscounts: [
+          { minVolume: '100e8', discount: '0.1' },
+          { minVolume: '1000e8', discount: '0.5' },
+        ],
+      });
+      try {
+        expectBaseValueEqual(orders.getFeeForOrder(new BigNumber('5e8')), Fee.fromBips(20));
+        expectBaseValueEqual(orders.getFeeForOrder(new BigNumber('10e8'), false), Fee.fromBips(-2));
+        expectBaseValueEqual(
+          orders.getFeeForOrder(new BigNumber('10e8'), true, '99e8'),
+          Fee.fromBips(10),
+        );
+        expectBaseValueEqual(
+          orders.getFeeForOrder(new BigNumber('10e8'), true, '100e8'),
+          Fee.fromBips(9),
+        );
+        expectBaseValueEqual(
+          orders.getFeeForOrder(new BigNumber('10e8'), true, '5000e8'),
+          Fee.fromBips(5),
+        );
+        expectBaseValueEqual(
+          orders.getFeeForOrder(new BigNumber('10e8'), false, '5000e8'),
+          Fee.fromBips(-2),
+        );
+      } finally {
+        orders.setFeeSchedule(defaultSchedule);
+      }
+    });
+
+    it('Fails to set an invalid fee schedule', () => {
+      const { orders } = ctx.perpetual;
+      const market = PerpetualMarket.PBTC_USDC;
+      const tier = { minAmount: '0', makerFeeBips: '0', takerFeeBips: '0' };
+      expect(() => orders.setFeeSchedule({ market, tiers: [] })).to.throw(
+        'The first fee tier must have a minAmount of zero',
+      );
+      expect(() => orders.setFeeSchedule({ market, tiers: [tier, { ...tier, minAmount: '-1' }] }))
+        .to.throw('Fee tiers must be sorted by minAmount');
+      expect(() => orders.setFeeSchedule({
+        market,
+        tiers: [tier],
+        volumeDiscounts: [{ minVolume: '0', discount: '1.5' }],
+      })).to.throw('discount: 1.5 must be between 0 and 1');
+      expect(() => orders.setFeeSchedule(DEFAULT_FEE_SCHEDULES[PerpetualMarket.WETH_PUSD]))
+        .to.throw(`Fee schedule is for ${PerpetualMarket.WETH_PUSD}, not ${market}`);
+      expect(orders.getFeeSchedule()).to.deep.equal(DEFAULT_FEE_SCHEDULES[market]);
+    });
   });
 
   describe('approveOrder()', () => {
@@ -256,8 +479,10 @@ perpetualDescribe('P1Orders', init, (ctx: ITestContext) => {
       const logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(1);
       expect(logs[0].name).to.equal('LogOrderApproved');
-      expect(logs[0].args.orderHash).to.equal(ctx.perpetual.orders.getOrderHash(fullFlagOrder));
-      expect(logs[0].args.maker).to.equal(fullFlagOrder.maker);
+      expect((logs[0] as LogOrderApproved).args.orderHash).to.equal(
+        ctx.perpetual.orders.getOrderHash(fullFlagOrder),
+      );
+      expect((logs[0] as LogOrderApproved).args.maker).to.equal(fullFlagOrder.maker);
     });
 
     it('Succeeds in double-approving order', async () => {
@@ -294,8 +519,10 @@ perpetualDescribe('P1Orders', init, (ctx: ITestContext) => {
       const logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(1);
       expect(logs[0].name).to.equal('LogOrderCanceled');
-      expect(logs[0].args.orderHash).to.equal(ctx.perpetual.orders.getOrderHash(fullFlagOrder));
-      expect(logs[0].args.maker).to.equal(fullFlagOrder.maker);
+      expect((logs[0] as LogOrderCanceled).args.orderHash).to.equal(
+        ctx.perpetual.orders.getOrderHash(fullFlagOrder),
+      );
+      expect((logs[0] as LogOrderCanceled).args.maker).to.equal(fullFlagOrder.maker);
     });
 
     it('Succeeds in double-canceling order', async () => {
@@ -763,7 +990,7 @@ perpetualDescribe('P1Orders', init, (ctx: ITestContext) => {
 
     // Check logs.
     const logs = ctx.perpetual.logs.parseLogs(txResult);
-    const filteredLogs = _.filter(logs, { name: 'LogOrderFilled' });
+    const filteredLogs = ctx.perpetual.logs.filterLogs(logs, 'LogOrderFilled');
     expect(filteredLogs.length).to.equal(1);
     const [log] = filteredLogs;
     expect(log.args.orderHash, 'log hash').to.equal(ctx.perpetual.orders.getOrderHash(order));
@@ -270,7 +270,7 @@ perpetualDescribe('P1Settlement', init, (ctx: ITestContext) => {
 
       // Expect the second deposit not to trigger settlement of the account.
       const logs = ctx.perpetual.logs.parseLogs(result2);
-      const filteredLogs = _.filter(logs, { name: 'LogAccountSettled' });
+      const filteredLogs = ctx.perpetual.logs.filterLogs(logs, 'LogAccountSettled');
       expect(filteredLogs.length, 'filter for LogAccountSettled').to.equal(0);
     });
 
@@ -282,7 +282,7 @@ perpetualDescribe('P1Settlement', init, (ctx: ITestContext) => {
 
       // Check logs.
       const logs = ctx.perpetual.logs.parseLogs(txResult);
-      const filteredLogs = _.filter(logs, { name: 'LogAccountSettled' });
+      const filteredLogs = ctx.perpetual.logs.filterLogs(logs, 'LogAccountSettled');
       expect(filteredLogs.length, 'filter for LogAccountSettled').to.equal(0);
 
       // Check balance.
@@ -347,7 +347,7 @@ perpetualDescribe('P1Settlement', init, (ctx: ITestContext) => {
 
     // Check the logs.
     const logs = ctx.perpetual.logs.parseLogs(txResult);
-    const filteredLogs = _.filter(logs, { name: 'LogIndex' });
+    const filteredLogs = ctx.perpetual.logs.filterLogs(logs, 'LogIndex');
     expect(filteredLogs.length, 'filter for LogIndex').to.equal(1);
     const loggedIndex: Index = filteredLogs[0].args.index;
     expectBaseValueEqual(loggedIndex.baseValue, expectedIndex.baseValue, 'index value from logs');
@@ -360,7 +360,7 @@ perpetualDescribe('P1Settlement', init, (ctx: ITestContext) => {
     expectedInterest: BigNumber,
   ): void {
     const logs = ctx.perpetual.logs.parseLogs(txResult);
-    const filteredLogs = _.filter(logs, { name: 'LogAccountSettled' });
+    const filteredLogs = ctx.perpetual.logs.filterLogs(logs, 'LogAccountSettled');
     expect(filteredLogs.length, 'filter for LogAccountSettled').to.equal(1);
     const accountSettledLog = filteredLogs[0];
 
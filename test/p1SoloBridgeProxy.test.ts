@@ -6,6 +6,7 @@ import initializePerpetual from './helpers/initializePerpetual';
 import { ITestContext, perpetualDescribe } from './helpers/perpetualDescribe';
 import { ADDRESSES, INTEGERS } from '../src/lib/Constants';
 import {
+  LogSignatureInvalidated,
   address,
   SoloBridgeTransfer,
   TxResult,
@@ -669,7 +670,7 @@ perpetualDescribe('P1SoloBridgeProxy', init, (ctx: ITestContext) => {
         // Check logs.
         const logs = await ctx.perpetual.logs.parseLogs(txResult);
         expect(logs.length).to.equal(1);
-        const log = logs[0];
+        const log = logs[0] as LogSignatureInvalidated;
         expect(log.name).to.equal('LogSignatureInvalidated');
         expect(log.args.account).to.equal(defaultTransferToPerpetual.account);
         expect(log.args.transferHash).to.equal(
@@ -692,7 +693,7 @@ perpetualDescribe('P1SoloBridgeProxy', init, (ctx: ITestContext) => {
         // Check logs.
         const logs = await ctx.perpetual.logs.parseLogs(txResult);
         expect(logs.length).to.equal(1);
-        const log = logs[0];
+        const log = logs[0] as LogSignatureInvalidated;
         expect(log.name).to.equal('LogSignatureInvalidated');
         expect(log.args.account).to.equal(transfer.account);
         expect(log.args.transferHash).to.equal(
@@ -713,7 +714,7 @@ perpetualDescribe('P1SoloBridgeProxy', init, (ctx: ITestContext) => {
         // Check logs.
         const logs = await ctx.perpetual.logs.parseLogs(txResult);
         expect(logs.length).to.equal(1);
-        const log = logs[0];
+        const log = logs[0] as LogSignatureInvalidated;
         expect(log.name).to.equal('LogSignatureInvalidated');
         expect(log.args.account).to.equal(defaultTransferToPerpetual.account);
         expect(log.args.transferHash).to.equal(
@@ -734,7 +735,7 @@ perpetualDescribe('P1SoloBridgeProxy', init, (ctx: ITestContext) => {
         // Check logs.
         const logs = await ctx.perpetual.logs.parseLogs(txResult);
         expect(logs.length).to.equal(1);
-        const log = logs[0];
+        const log = logs[0] as LogSignatureInvalidated;
         expect(log.name).to.equal('LogSignatureInvalidated');
         expect(log.args.account).to.equal(defaultTransferToPerpetual.account);
         expect(log.args.transferHash).to.equal(
@@ -793,7 +794,7 @@ perpetualDescribe('P1SoloBridgeProxy', init, (ctx: ITestContext) => {
         // Check logs.
         const logs = await ctx.perpetual.logs.parseLogs(txResult);
         expect(logs.length).to.equal(1);
-        const log = logs[0];
+        const log = logs[0] as LogSignatureInvalidated;
         expect(log.name).to.equal('LogSignatureInvalidated');
         expect(log.args.account).to.equal(defaultTransferToSolo.account);
         expect(log.args.transferHash).to.equal(
@@ -815,7 +816,7 @@ perpetualDescribe('P1SoloBridgeProxy', init, (ctx: ITestContext) => {
         // Check logs.
         const logs = await ctx.perpetual.logs.parseLogs(txResult);
         expect(logs.length).to.equal(1);
-        const log = logs[0];
+        const log = logs[0] as LogSignatureInvalidated;
         expect(log.name).to.equal('LogSignatureInvalidated');
         expect(log.args.account).to.equal(defaultTransferToSolo.account);
         expect(log.args.transferHash).to.equal(
@@ -837,7 +838,7 @@ perpetualDescribe('P1SoloBridgeProxy', init, (ctx: ITestContext) => {
         // Check logs.
         const logs = await ctx.perpetual.logs.parseLogs(txResult);
         expect(logs.length).to.equal(1);
-        const log = logs[0];
+        const log = logs[0] as LogSignatureInvalidated;
         expect(log.name).to.equal('LogSignatureInvalidated');
         expect(log.args.account).to.equal(defaultTransferToSolo.account);
         expect(log.args.transferHash).to.equal(
@@ -949,7 +950,7 @@ perpetualDescribe('P1SoloBridgeProxy', init, (ctx: ITestContext) => {
     const logs = ctx.perpetual.logs.parseLogs(txResult);
     const toPerpetual = transfer.transferMode !== SoloBridgeTransferMode.SOME_TO_SOLO;
 
-    const transferLogs = _.filter(logs, { name: 'LogTransferred' });
+    const transferLogs = ctx.perpetual.logs.filterLogs(logs, 'LogTransferred');
     expect(transferLogs.length, 'log transfer count').to.equal(1);
     const transferLog = transferLogs[0];
     expect(transferLog.args.account, 'log account').to.equal(transfer.account);
@@ -962,13 +963,13 @@ perpetualDescribe('P1SoloBridgeProxy', init, (ctx: ITestContext) => {
     expectBN(transferLog.args.amount, 'log amount').to.equal(transfer.amount);
 
     if (toPerpetual) {
-      const depositLogs = _.filter(logs, { name: 'LogDeposit' });
+      const depositLogs = ctx.perpetual.logs.filterLogs(logs, 'LogDeposit');
       expect(depositLogs.length, 'log deposit count').to.equal(1);
       const depositLog = depositLogs[0];
       expect(depositLog.args.account, 'log deposit account').to.equal(transfer.account);
       expectBN(depositLog.args.amount, 'log deposit amount').to.equal(transfer.amount);
     } else {
-      const withdrawalLogs = _.filter(logs, { name: 'LogWithdraw' });
+      const withdrawalLogs = ctx.perpetual.logs.filterLogs(logs, 'LogWithdraw');
       expect(withdrawalLogs.length, 'log withdrawal count').to.equal(1);
       const withdrawalLog = withdrawalLogs[0];
       expect(withdrawalLog.args.account, 'log withdrawal account').to.equal(transfer.account);
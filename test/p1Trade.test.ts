@@ -7,7 +7,11 @@ import { expectBalances, mintAndDeposit } from './helpers/balances';
 import { ITestContext, perpetualDescribe } from './helpers/perpetualDescribe';
 import { buy, sell } from './helpers/trade';
 import { ADDRESSES, INTEGERS } from '../src/lib/Constants';
-import { address } from '../src/lib/types';
+import {
+  LogIndex,
+  LogTrade,
+  address,
+} from '../src/lib/types';
 
 const depositAmount = new BigNumber('1e18');
 const positionAmount = new BigNumber('1e16');
@@ -46,7 +50,7 @@ perpetualDescribe('P1Trade', init, (ctx: ITestContext) => {
       // Check logs.
       const logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(2);
-      const [indexUpdatedLog, tradeLog] = logs;
+      const [indexUpdatedLog, tradeLog] = logs as [LogIndex, LogTrade];
       expect(indexUpdatedLog.name).to.equal('LogIndex');
       expect(tradeLog.name).to.equal('LogTrade');
       expect(tradeLog.args.maker).to.equal(maker);
@@ -72,7 +76,7 @@ perpetualDescribe('P1Trade', init, (ctx: ITestContext) => {
       // Check logs.
       const logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(2);
-      const [indexUpdatedLog, tradeLog] = logs;
+      const [indexUpdatedLog, tradeLog] = logs as [LogIndex, LogTrade];
       expect(indexUpdatedLog.name).to.equal('LogIndex');
       expect(tradeLog.name).to.equal('LogTrade');
       expect(tradeLog.args.maker).to.equal(maker);
@@ -97,7 +101,7 @@ perpetualDescribe('P1Trade', init, (ctx: ITestContext) => {
       // Check logs.
       const logs = ctx.perpetual.logs.parseLogs(txResult);
       expect(logs.length).to.equal(1);
-      const [indexUpdatedLog] = logs;
+      const [indexUpdatedLog] = logs as [LogIndex];
       expect(indexUpdatedLog.name).to.equal('LogIndex');
     });
 
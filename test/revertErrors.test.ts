@@ -0,0 +1,105 @@
+import Web3 from 'web3';
+
+import { expect } from './helpers/Expect';
+import {
+  getRevertReason,
+  parseRevertError,
+  PerpetualRevertError,
+} from '../src/lib/RevertErrors';
+import { PerpetualErrorCode } from '../src/lib/types';
+
+const web3 = new Web3();
+const reason = 'Order has expired';
+
+function encodeReason(
+  revertReason: string,
+): string {
+  return `0x08c379a0${web3.eth.abi.encodeParameter('string', revertReason).slice(2)}`;
+}
+
+describe('RevertErrors', () => {
+
+  describe('getRevertReason', () => {
+
+    it('Gets the reason from provider messages', () => {
+      [
+        `Returned error: VM Exception while processing transaction: revert ${reason}`,
+        `VM Exception while processing transaction: revert ${reason} -- Reason given: ${reason}.`,
+        `VM Exception while processing transaction: reverted with reason string '${reason}'`,
+        `Returned error: execution reverted: ${reason}`,
+      ].forEach((message) => {
+        expect(getRevertReason(new Error(message))).to.equal(reason);
+      });
+    });
+
+    it('Gets the reason from error data', () => {
+      expect(getRevertReason({ reason })).to.equal(reason);
+      expect(getRevertReason({ data: encodeReason(reason) })).to.equal(reason);
+      expect(getRevertReason({ error: { data: encodeReason(reason) } })).to.equal(reason);
+      expect(getRevertReason({
+        data: { '0x1234': { reason, error: 'revert', return: encodeReason(reason) } },
+      })).to.equal(reason);
+      expect(getRevertReason(new Error(
+        `Internal JSON-RPC error.\n${JSON.stringify({
+          code: 3,
+          message: `execution reverted: ${reason}`,
+          data: encodeReason(reason),
+        })}`,
+      ))).to.equal(reason);
+    });
+
+    it('Returns null if there is no reason', () => {
+      expect(getRevertReason(new Error('Transaction has been reverted by the EVM'))).to.be.null;
+      expect(getRevertReason(new Error('VM Exception while processing transaction: revert')))
+        .to.be.null;
+      expect(getRevertReason({ data: '0x' })).to.be.null;
+      expect(getRevertReason(null)).to.be.null;
+    });
+  });
+
+  describe('parseRevertError', () => {
+
+    it('Maps the reason to an error code', () => {
+      const message = `Returned error: VM Exception while processing transaction: revert ${reason}`;
+      const error = parseRevertError(new Error(message)) as PerpetualRevertError;
+      expect(error).to.be.instanceOf(PerpetualRevertError);
+      expect(error.message).to.equal(message);
+      expect(error.reason).to.equal(reason);
+      expect(error.code).to.equal(PerpetualErrorCode.ORDER_EXPIRED);
+
+      const prefixed = parseRevertError(
+        { data: encodeReason('P1MirrorOracle#poke: Stale message') },
+      ) as PerpetualRevertError;
+      expect(prefixed.code).to.equal(PerpetualErrorCode.ORACLE_STALE_MESSAGE);
+
+      const unknown = parseRevertError(
+        new Error('Transaction has been reverted by the EVM'),
+      ) as PerpetualRevertError;
+      expect(unknown.reason).to.be.null;
+      expect(unknown.code).to.equal(PerpetualErrorCode.UNKNOWN);
+    });
+
+    it('Includes the method and transaction data', () => {
+      const method: any = {
+        _method: {
+          name: 'trade',
+          inputs: [{ name: 'accounts' }, { name: 'trades' }],
+        },
+        arguments: [['0x01'], []],
+      };
+      const transactionData = { from: '0x01', data: '0x1234' };
+      const error = parseRevertError(
+        { transactionData, message: `execution reverted: ${reason}` },
+        method,
+      ) as PerpetualRevertError;
+      expect(error.methodName).to.equal('trade');
+      expect(error.methodArgs).to.deep.equal({ accounts: ['0x01'], trades: [] });
+      expect(error.transactionData).to.equal(transactionData);
+    });
+
+    it('Returns other errors unchanged', () => {
+      const error = new Error('nonce too low');
+      expect(parseRevertError(error)).to.equal(error);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import BigNumber from 'bignumber.js';
+
+import { mineAvgBlock } from './helpers/EVM';
+import { expect, expectBN, expectBaseValueEqual } from './helpers/Expect';
+import initializePerpetual from './helpers/initializePerpetual';
+import { mintAndDeposit } from './helpers/balances';
+import { ITestContext, perpetualDescribe } from './helpers/perpetualDescribe';
+import { buy, sell } from './helpers/trade';
+import { StateReplayer } from '../src/modules/StateReplayer';
+import { BaseValue, Price, address } from '../src/lib/types';
+
+const marginAmount = new BigNumber(1000);
+
+let long: address;
+let short: address;
+let otherAccount: address;
+let startBlock: number;
+
+async function init(ctx: ITestContext): Promise<void> {
+  await initializePerpetual(ctx);
+  long = ctx.accounts[2];
+  short = ctx.accounts[3];
+  otherAccount = ctx.accounts[4];
+  startBlock = await ctx.perpetual.web3.eth.getBlockNumber();
+}
+
+perpetualDescribe('StateReplayer', init, (ctx: ITestContext) => {
+
+  it('Matches the on-chain balances and indexes at every block', async () => {
+    await ctx.perpetual.testing.oracle.setPrice(new Price(100));
+    await mintAndDeposit(ctx, long, marginAmount);
+    await mintAndDeposit(ctx, short, marginAmount);
+    await buy(ctx, long, short, 10, marginAmount);
+    await ctx.perpetual.testing.funder.setFunding(new BaseValue('0.000123'));
+    await mineAvgBlock();
+    await sell(ctx, long, short, 3, 250);
+    await ctx.perpetual.testing.funder.setFunding(new BaseValue('-0.000456'));
+    await mineAvgBlock();
+    await mintAndDeposit(ctx, otherAccount, marginAmount);
+    await ctx.perpetual.margin.withdraw(short, short, 100, { from: short });
+
+    const endBlock = await ctx.perpetual.web3.eth.getBlockNumber();
+    const logs = await ctx.perpetual.logs.getEvents({
+      fromBlock: startBlock + 1,
+      toBlock: endBlock,
+    });
+    const replayer = new StateReplayer();
+    replayer.applyLogs(logs);
+
+    for (let blockNumber = startBlock + 1; blockNumber <= endBlock; blockNumber += 1) {
+      for (const account of [long, short, otherAccount]) {
+        const [balance, index] = await Promise.all([
+          ctx.perpetual.getters.getAccountBalance(account, { blockNumber }),
+          ctx.perpetual.getters.getAccountIndex(account, { blockNumber }),
+        ]);
+        const replayedBalance = replayer.getAccountBalance(account, blockNumber);
+        const replayedIndex = replayer.getAccountIndex(account, blockNumber);
+        expectBN(replayedBalance.margin, 'margin').to.eq(balance.margin);
+        expectBN(replayedBalance.position, 'position').to.eq(balance.position);
+        expectBN(replayedIndex.timestamp, 'index timestamp').to.eq(index.timestamp);
+        expectBaseValueEqual(replayedIndex.baseValue, index.baseValue, 'index value');
+      }
+    }
+
+    const globalIndex = await ctx.perpetual.getters.getGlobalIndex();
+    expectBN(replayer.getGlobalIndex().timestamp).to.eq(globalIndex.timestamp);
+    expectBaseValueEqual(replayer.getGlobalIndex().baseValue, globalIndex.baseValue);
+    expect(replayer.getAccounts().length).to.equal(3);
+  });
+
+  it('Fails to apply logs out of order', async () => {
+    await mintAndDeposit(ctx, long, marginAmount);
+    await mintAndDeposit(ctx, short, marginAmount);
+    const logs = await ctx.perpetual.logs.getEvents({ fromBlock: startBlock + 1 });
+
+    const replayer = new StateReplayer();
+    replayer.applyLog(logs[logs.length - 1]);
+    expect(() => replayer.applyLog(logs[0])).to.throw('was applied out of order');
+  });
+});
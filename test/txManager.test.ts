@@ -0,0 +1,280 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Web3 from 'web3';
+
+import { expect } from './helpers/Expect';
+import { MockProvider } from './helpers/MockProvider';
+import { FileTxStore, MemoryTxStore, TxManager } from '../src/modules/TxManager';
+import { TxManagerOptions } from '../src/lib/types';
+
+const from = '0x00000000000000000000000000000000000000ab';
+const to = '0x0000000000000000000000000000000000000002';
+const txParams = { from, to, data: '0x1234', gas: 100000, gasPrice: '1000000000' };
+
+/**
+ * Keeps broadcast transactions in memory, and mines them on request.
+ */
+class MockChain {
+  public sent: any[] = [];
+  public minedNonce: number = 0;
+  public blockNumber: number = 100;
+  public failNextSend: boolean = false;
+  private receipts: { [hash: string]: any } = {};
+
+  public web3 = {
+    eth: {
+      getTransactionCount: async (_: string, block: string) => (
+        block === 'pending' ? this.minedNonce + 2 : this.minedNonce
+      ),
+      getTransactionReceipt: async (hash: string) => this.receipts[hash] || null,
+      getBlockNumber: async () => this.blockNumber,
+      sendTransaction: (tx: any) => {
+        const promi: any = new Promise(() => {});
+        promi.on = (event: string, listener: Function) => {
+          if (event === 'transactionHash' && !this.failNextSend) {
+            this.sent.push(tx);
+            setImmediate(() => listener(`0x${this.sent.length}`));
+          }
+          if (event === 'error' && this.failNextSend) {
+            this.failNextSend = false;
+            setImmediate(() => listener(new Error('replacement transaction underpriced')));
+          }
+          return promi;
+        };
+        return promi;
+      },
+    },
+    _requestManager: {
+      send: ({ params }: any, callback: Function) => {
+        this.sent.push(params[0]);
+        setImmediate(() => callback(null, `0x${this.sent.length}`));
+      },
+    },
+  } as any as Web3;
+
+  public mine(
+    hash: string,
+  ): void {
+    const tx = this.sent[Number(hash) - 1];
+    this.minedNonce = tx.nonce + 1;
+    this.receipts[hash] = {
+      to: tx.to,
+      transactionHash: hash,
+      blockNumber: this.blockNumber,
+      status: true,
+    };
+  }
+}
+
+let chain: MockChain;
+let store: MemoryTxStore;
+
+function getManager(
+  options: TxManagerOptions = {},
+): TxManager {
+  return new TxManager(chain.web3, { store, pollInterval: 1, ...options });
+}
+
+describe('TxManager', () => {
+
+  beforeEach(() => {
+    chain = new MockChain();
+    store = new MemoryTxStore();
+  });
+
+  it('Allocates nonces locally', async () => {
+    const manager = getManager();
+    const txs = await Promise.all([
+      manager.send(txParams),
+      manager.send(txParams),
+      manager.send({ ...txParams, from: from.replace('ab', 'AB') }),
+    ]);
+    expect(txs.map(tx => tx.nonce)).to.deep.equal([2, 3, 4]);
+    expect(chain.sent.map(tx => tx.nonce)).to.deep.equal([2, 3, 4]);
+    expect((await manager.getPendingTransactions()).length).to.equal(3);
+  });
+
+  it('Rebroadcasts with a higher gas price after the timeout', async () => {
+    const manager = getManager({ resendTimeout: 0, maxGasPrice: '1200000000' });
+    const tx = await manager.send(txParams);
+    await manager.checkPendingTransactions();
+    await manager.checkPendingTransactions();
+    expect(chain.sent.map(sent => sent.gasPrice)).to.deep.equal([
+      '1000000000',
+      '1125000000',
+      '1200000000',
+    ]);
+    expect(chain.sent.every(sent => sent.nonce === tx.nonce)).to.equal(true);
+
+    // Does not exceed the maximum gas price.
+    await manager.checkPendingTransactions();
+    expect(chain.sent.length).to.equal(3);
+
+    chain.mine('0x2');
+    const receipt = await manager.waitForReceipt(tx);
+    expect(receipt.transactionHash).to.equal('0x2');
+    expect(await manager.getPendingTransactions()).to.deep.equal([]);
+  });
+
+  it('Rebroadcasts EIP-1559 transactions with higher fees', async () => {
+    const manager = getManager({ resendTimeout: 0, maxGasPrice: '2100000000' });
+    const { gasPrice, ...params } = txParams;
+    const tx = await manager.send({
+      ...params,
+      maxFeePerGas: '2000000000',
+      maxPriorityFeePerGas: '2000000000',
+    });
+    expect(tx.gasPrice).to.be.undefined;
+    await manager.checkPendingTransactions();
+    expect(chain.sent[1]).to.deep.include({
+      maxFeePerGas: Web3.utils.numberToHex('2100000000'),
+      maxPriorityFeePerGas: Web3.utils.numberToHex('2100000000'),
+    });
+    expect(chain.sent[1].gasPrice).to.be.undefined;
+
+    try {
+      await manager.send({ ...params, maxFeePerGas: '2000000000' });
+      throw new Error('Did not throw');
+    } catch (error) {
+      expect(error.message).to.equal(
+        'maxFeePerGas and maxPriorityFeePerGas must be given together',
+      );
+    }
+  });
+
+  it('Sends EIP-1559 transactions through web3 without a gasPrice', async () => {
+    const provider = new MockProvider({
+      eth_getTransactionCount: '0x2',
+      eth_gasPrice: '0x3b9aca00',
+      eth_sendTransaction: `0x${'12'.repeat(32)}`,
+    });
+    const manager = new TxManager(new Web3(provider as any), { store });
+    const { gasPrice, ...params } = txParams;
+    await manager.send({
+      ...params,
+      maxFeePerGas: '2000000000',
+      maxPriorityFeePerGas: '1000000000',
+    });
+
+    const requests = provider.getRequests('eth_sendTransaction');
+    expect(requests.map(request => request.params)).to.deep.equal([[{
+      from,
+      to,
+      data: '0x1234',
+      value: '0x0',
+      gas: '0x186a0',
+      nonce: '0x2',
+      maxFeePerGas: '0x77359400',
+      maxPriorityFeePerGas: '0x3b9aca00',
+    }]]);
+    expect(provider.getRequests('eth_gasPrice')).to.deep.equal([]);
+  });
+
+  it('Waits for confirmations', async () => {
+    const manager = getManager();
+    const tx = await manager.send(txParams);
+    chain.mine('0x1');
+    const receiptPromise = manager.waitForReceipt(tx, 2);
+    setTimeout(() => { chain.blockNumber += 2; }, 20);
+    const receipt = await receiptPromise;
+    expect(chain.blockNumber - receipt.blockNumber).to.equal(2);
+  });
+
+  it('Cancels by replacement', async () => {
+    const manager = getManager();
+    const tx = await manager.send(txParams);
+    const cancel = await manager.cancel(from, tx.nonce);
+    expect(chain.sent[1]).to.deep.include({
+      to: from,
+      data: '0x',
+      value: '0',
+      gas: 21000,
+      nonce: tx.nonce,
+      gasPrice: '1125000000',
+    });
+    expect(cancel.transactionHashes).to.deep.equal(['0x1', '0x2']);
+
+    chain.mine('0x2');
+    try {
+      await manager.waitForReceipt(tx);
+      throw new Error('Did not throw');
+    } catch (error) {
+      expect(error.message).to.equal(`Transaction from ${from} with nonce 2 was canceled`);
+    }
+
+    try {
+      await manager.cancel(from, tx.nonce);
+      throw new Error('Did not throw');
+    } catch (error) {
+      expect(error.message).to.equal(`No pending transaction from ${from} with nonce 2`);
+    }
+  });
+
+  it('Fails to cancel a transaction whose fees are at the maximum', async () => {
+    const manager = getManager({ maxGasPrice: txParams.gasPrice });
+    const tx = await manager.send(txParams);
+    try {
+      await manager.cancel(from, tx.nonce);
+      throw new Error('Did not throw');
+    } catch (error) {
+      expect(error.message).to.equal(
+        `Cannot cancel the transaction from ${from} with nonce 2, since its fees are already at ` +
+        'maxGasPrice',
+      );
+    }
+    expect(chain.sent.length).to.equal(1);
+  });
+
+  it('Continues after a restart', async () => {
+    const tx = await getManager().send(txParams);
+
+    const manager = getManager({ resendTimeout: 0 });
+    chain.minedNonce = -1; // The node has dropped the transaction.
+    expect((await manager.send(txParams)).nonce).to.equal(tx.nonce + 1);
+    chain.minedNonce = 0;
+    await manager.checkPendingTransactions();
+    expect(chain.sent.map(sent => sent.nonce)).to.deep.equal([2, 3, 2, 3]);
+  });
+
+  it('Reports errors and fails if the nonce was used by another transaction', async () => {
+    const errors: Error[] = [];
+    const manager = getManager({ resendTimeout: 0, onError: e => errors.push(e) });
+    const tx = await manager.send(txParams);
+    chain.failNextSend = true;
+    await manager.checkPendingTransactions();
+    expect(errors.map(e => e.message)).to.deep.equal(['replacement transaction underpriced']);
+    expect((await manager.getPendingTransactions()).length).to.equal(1);
+
+    chain.minedNonce = tx.nonce + 1;
+    try {
+      await manager.waitForReceipt(tx);
+      throw new Error('Did not throw');
+    } catch (error) {
+      expect(error.message).to.equal(`Nonce 2 of ${from} was used by another transaction`);
+    }
+    expect(await manager.getPendingTransactions()).to.deep.equal([]);
+  });
+
+  it('Persists pending transactions to a file', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tx-store-'));
+    const file = path.join(dir, 'txs.json');
+    try {
+      const tx = await getManager({ store: new FileTxStore(file) }).send(txParams);
+
+      // A new store reads the pending transactions written by the previous process.
+      const manager = getManager({ store: new FileTxStore(file), resendTimeout: 0 });
+      expect(await manager.getPendingTransactions()).to.deep.equal([tx]);
+      expect((await manager.send(txParams)).nonce).to.equal(tx.nonce + 1);
+      await manager.checkPendingTransactions();
+      expect(chain.sent.map(sent => sent.nonce)).to.deep.equal([2, 3, 2, 3]);
+
+      chain.mine('0x3');
+      chain.mine('0x4');
+      await manager.checkPendingTransactions();
+      expect(await new FileTxStore(file).getAll()).to.deep.equal([]);
+    } finally {
+      fs.rmdirSync(dir, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,58 @@
+import BigNumber from 'bignumber.js';
+
+import { expect } from './helpers/Expect';
+import { Units } from '../src/lib/Units';
+import {
+  Balance,
+  Fee,
+  PerpetualMarket,
+  Price,
+} from '../src/lib/types';
+
+describe('Units', () => {
+
+  it('Converts prices', () => {
+    const btcUnits = new Units(PerpetualMarket.PBTC_USDC);
+    expect(btcUnits.toPrice('10000').value.toFixed()).to.equal('100');
+    expect(btcUnits.fromPrice(new Price('123.45')).toFixed()).to.equal('12345');
+
+    const ethUnits = new Units(PerpetualMarket.WETH_PUSD);
+    expect(ethUnits.toPrice('2000').value.toFixed()).to.equal('0.000000002');
+    expect(ethUnits.fromPrice(new Price('2.5e-9')).toFixed()).to.equal('2500');
+
+    const linkUnits = new Units(PerpetualMarket.PLINK_USDC);
+    expect(linkUnits.toPrice('12.5').value.toFixed()).to.equal('12.5');
+  });
+
+  it('Converts amounts in the position token', () => {
+    const btcUnits = new Units(PerpetualMarket.PBTC_USDC);
+    expect(btcUnits.toAmount('0.5').toFixed()).to.equal('50000000');
+    expect(btcUnits.fromAmount('1e8').toFixed()).to.equal('1');
+
+    const ethUnits = new Units(PerpetualMarket.WETH_PUSD);
+    expect(ethUnits.toAmount('1000').toFixed()).to.equal('1000000000');
+    expect(ethUnits.fromAmount(new BigNumber('2e6')).toFixed()).to.equal('2');
+
+    expect(() => btcUnits.toAmount('0.123456789')).to.throw(
+      'amount: 0.123456789 has more than 8 decimal places',
+    );
+  });
+
+  it('Converts balances', () => {
+    const btcUnits = new Units(PerpetualMarket.PBTC_USDC);
+    const btcBalance = btcUnits.toBalance('-5000.5', '1.25');
+    expect(btcBalance.margin.toFixed()).to.equal('-5000500000');
+    expect(btcBalance.position.toFixed()).to.equal('125000000');
+
+    const ethUnits = new Units(PerpetualMarket.WETH_PUSD);
+    const { margin, position } = ethUnits.fromBalance(new Balance('15e17', '-3000e6'));
+    expect(margin.toFixed()).to.equal('1.5');
+    expect(position.toFixed()).to.equal('-3000');
+  });
+
+  it('Converts fees', () => {
+    const units = new Units(PerpetualMarket.PBTC_USDC);
+    expect(units.toFee('0.0015').value.toFixed()).to.equal(Fee.fromBips(15).value.toFixed());
+    expect(units.fromFee(Fee.fromBips(-2.5)).toFixed()).to.equal('-0.00025');
+  });
+});
@@ -0,0 +1,149 @@
+import { expect } from './helpers/Expect';
+import { MockWsServer } from './helpers/MockWsServer';
+import { WsApi } from '../src/modules/WsApi';
+import {
+  ApiMarketName,
+  ApiSide,
+  WsChannel,
+  WsChannelMessage,
+  WsMessageType,
+} from '../src/lib/types';
+
+const account = '0x0000000000000000000000000000000000000001';
+
+let server: MockWsServer;
+let endpoint: string;
+let wsApi: WsApi;
+
+async function waitFor(
+  condition: () => boolean,
+  timeout: number = 2000,
+): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+function countReceived(
+  type: WsMessageType,
+  channel?: WsChannel,
+): number {
+  return server.received.filter(m => m.type === type && (!channel || m.channel === channel)).length;
+}
+
+describe('WsApi', () => {
+
+  beforeEach(async () => {
+    server = new MockWsServer();
+    endpoint = await server.start();
+    wsApi = new WsApi({
+      endpoint,
+      reconnectDelay: 10,
+      maxReconnectDelay: 50,
+      heartbeatInterval: 20,
+      heartbeatTimeout: 100,
+    });
+  });
+
+  afterEach(async () => {
+    wsApi.disconnect();
+    await server.stop();
+  });
+
+  it('Subscribes to channels and receives data', async () => {
+    await wsApi.connect();
+    expect(wsApi.isConnected()).to.equal(true);
+
+    const messages: WsChannelMessage<WsChannel.ORDERBOOK>[] = [];
+    wsApi.subscribe(WsChannel.ORDERBOOK, ApiMarketName.PBTC_USDC, m => messages.push(m));
+    await waitFor(() => messages.length === 1);
+    expect(messages[0].type).to.equal(WsMessageType.SUBSCRIBED);
+    expect(server.received[0]).to.deep.equal({
+      type: WsMessageType.SUBSCRIBE,
+      channel: WsChannel.ORDERBOOK,
+      id: ApiMarketName.PBTC_USDC,
+    });
+
+    const updates = [{ id: 'b1', side: ApiSide.BUY, amount: '1', price: '100' }];
+    server.send(WsChannel.ORDERBOOK, ApiMarketName.PBTC_USDC, { updates });
+    server.send(WsChannel.ORDERBOOK, ApiMarketName.WETH_PUSD, { updates: [] });
+    await waitFor(() => messages.length === 2);
+    expect(messages[1].type).to.equal(WsMessageType.CHANNEL_DATA);
+    expect(messages[1].contents.updates).to.deep.equal(updates);
+
+    expect(() => wsApi.subscribe(WsChannel.ORDERBOOK, ApiMarketName.PBTC_USDC, () => {}))
+      .to.throw(`Already subscribed to orderbook:${ApiMarketName.PBTC_USDC}`);
+  });
+
+  it('Unsubscribes from channels', async () => {
+    await wsApi.connect();
+    const messages: WsChannelMessage<WsChannel.ORDERS>[] = [];
+    wsApi.subscribe(WsChannel.ORDERS, account, m => messages.push(m));
+    await waitFor(() => messages.length === 1);
+
+    wsApi.unsubscribe(WsChannel.ORDERS, account);
+    await waitFor(() => countReceived(WsMessageType.UNSUBSCRIBE) === 1);
+    server.send(WsChannel.ORDERS, account, { orders: [] });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(messages.length).to.equal(1);
+  });
+
+  it('Reconnects and resubscribes when the connection drops', async () => {
+    await wsApi.connect();
+    wsApi.subscribe(WsChannel.BALANCES, account, () => {});
+    wsApi.subscribe(WsChannel.MARKETS, undefined, () => {});
+    await waitFor(() => countReceived(WsMessageType.SUBSCRIBE) === 2);
+
+    server.dropConnections();
+    await waitFor(() => server.connections === 2);
+    await waitFor(() => countReceived(WsMessageType.SUBSCRIBE) === 4);
+    expect(countReceived(WsMessageType.SUBSCRIBE, WsChannel.BALANCES)).to.equal(2);
+    expect(countReceived(WsMessageType.SUBSCRIBE, WsChannel.MARKETS)).to.equal(2);
+    expect(wsApi.isConnected()).to.equal(true);
+  });
+
+  it('Reconnects when heartbeats are not answered', async () => {
+    await wsApi.connect();
+    await waitFor(() => countReceived(WsMessageType.PING) > 0);
+    expect(server.connections).to.equal(1);
+
+    server.respondToPings = false;
+    await waitFor(() => server.connections === 2);
+  });
+
+  it('Does not reconnect after disconnecting', async () => {
+    await wsApi.connect();
+    wsApi.disconnect();
+    expect(wsApi.isConnected()).to.equal(false);
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(server.connections).to.equal(1);
+  });
+
+  it('Fails to connect if disconnected first', async () => {
+    const connecting = wsApi.connect();
+    wsApi.disconnect();
+    try {
+      await connecting;
+      throw new Error('Did not throw');
+    } catch (error) {
+      expect(error.message).to.equal(`Disconnected before connecting to ${endpoint}`);
+    }
+    expect(wsApi.isConnected()).to.equal(false);
+  });
+
+  it('Fails to connect to an unavailable endpoint', async () => {
+    await server.stop();
+    try {
+      await wsApi.connect();
+      throw new Error('Did not throw');
+    } catch (error) {
+      expect(error.message).to.equal(`Could not connect to ${endpoint}`);
+    }
+    server = new MockWsServer();
+    await server.start();
+  });
+});